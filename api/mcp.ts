@@ -1,10 +1,16 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { simpleServer } from '../src/server-simple.js';
 import { VercelMcpTransport } from '../src/transport.js';
+import { SessionManager } from '../src/session.js';
 import { logger } from '../src/logger.js';
 
-// Create transport instance
-const transport = new VercelMcpTransport(simpleServer);
+// Create transport instance. Stateless by default: sessions are kept in memory, and the next
+// request can land on a cold or different function instance that has never seen the session.
+// MCP_SESSIONS=true turns them on for deployments where one instance serves every request.
+const transport = new VercelMcpTransport(
+  simpleServer,
+  process.env.MCP_SESSIONS === 'true' ? new SessionManager() : undefined
+);
 
 // Authentication result type
 interface AuthResult {
@@ -87,8 +93,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse):
       res.setHeader('Access-Control-Allow-Origin', '*');
     }
     
-    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Accept, Mcp-Session-Id, MCP-Protocol-Version');
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
     res.setHeader('Access-Control-Max-Age', '86400'); // 24 hours
 
     // Handle preflight OPTIONS request
@@ -185,6 +192,12 @@ async function convertToVercelResponse(
   // Set request ID header
   res.setHeader('X-Request-ID', requestId);
 
+  // Event streams are forwarded as they are written instead of being buffered
+  if (webResponse.body && webResponse.headers.get('content-type')?.includes('text/event-stream')) {
+    await pipeEventStream(webResponse.body, res);
+    return;
+  }
+
   // Get response body
   const body = await webResponse.text();
 
@@ -205,7 +218,28 @@ async function convertToVercelResponse(
   }
 }
 
-// Export the config for Vercel
+// Copy an SSE body chunk by chunk; stops reading when the client disconnects
+async function pipeEventStream(body: ReadableStream<Uint8Array>, res: VercelResponse): Promise<void> {
+  const reader = body.getReader();
+  res.on('close', () => {
+    reader.cancel().catch(() => undefined);
+  });
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      res.write(value);
+    }
+  } finally {
+    res.end();
+  }
+}
+
+// Export the config for Vercel. A GET event stream (sessions only) holds the function open
+// until maxDuration ends it; clients then reconnect with a new GET.
 export const config = {
   maxDuration: 60,
 };
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { describe, test, expect, vi, beforeEach } from 'vitest';
 import { AppstleClient, AppstleError } from '../appstle.js';
+import { runWithRequestContext } from '../request-context.js';
 
 // Mock fetch globally
 global.fetch = vi.fn();
@@ -152,6 +153,71 @@ describe('AppstleClient', () => {
       await expect(client.getTopOrders(123)).rejects.toThrow(AppstleError);
       expect(mockFetch).toHaveBeenCalledTimes(3); // Max retries is 3
     });
+
+    test('should not retry a billing charge', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 504,
+        statusText: 'Gateway Timeout',
+        text: () => Promise.resolve('Gateway Timeout'),
+      } as Response);
+
+      await expect(client.retryBillingAttempt(3003)).rejects.toMatchObject({ statusCode: 504 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not retry a payment update email', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable',
+        text: () => Promise.resolve('Service Unavailable'),
+      } as Response);
+
+      await expect(client.sendPaymentMethodUpdateEmail(123)).rejects.toMatchObject({ statusCode: 503 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not retry adding a one-time item', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 502,
+        statusText: 'Bad Gateway',
+        text: () => Promise.resolve('Bad Gateway'),
+      } as Response);
+
+      await expect(client.addOneOff(123, 3001, 555, 1)).rejects.toMatchObject({ statusCode: 502 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not abort writes once the MCP request is cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const ok = { ok: true, status: 200, text: () => Promise.resolve('{}') } as Response;
+      mockFetch.mockResolvedValueOnce(ok).mockResolvedValueOnce(ok);
+
+      const requestContext = { signal: controller.signal };
+      await runWithRequestContext(requestContext, () => client.skipBillingAttempt(3001, 123));
+      await runWithRequestContext(requestContext, () => client.getTopOrders(123));
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[0][1]).toMatchObject({ signal: undefined });
+      expect(requestContext).toMatchObject({ writeStarted: true });
+    });
+
+    test('should stop without retrying when the MCP request is cancelled', async () => {
+      const controller = new AbortController();
+      mockFetch.mockImplementationOnce(async () => {
+        controller.abort();
+        throw new DOMException('This operation was aborted', 'AbortError');
+      });
+
+      const request = runWithRequestContext({ signal: controller.signal }, () => client.getTopOrders(123));
+
+      await expect(request).rejects.toMatchObject({ statusCode: 499, title: 'Request Cancelled' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][1]).toMatchObject({ signal: controller.signal });
+    });
   });
 
   describe('request construction', () => {
@@ -188,6 +254,96 @@ describe('AppstleClient', () => {
     });
   });
 
+  describe('rescheduling', () => {
+    test('should send the new billing date as a query parameter', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve(JSON.stringify({ id: 123, billingDate: '2025-01-18T10:00:00Z', status: 'QUEUED' })),
+      } as Response);
+
+      await client.updateBillingAttemptDate(123, '2025-01-18T10:00:00Z', 456);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test.appstle.com/api/external/v2/subscription-billing-attempts/update-billing-date/123?billingDate=2025-01-18T10%3A00%3A00Z&subscriptionContractId=456',
+        expect.objectContaining({
+          method: 'PUT',
+        })
+      );
+    });
+  });
+
+  describe('discount errors', () => {
+    test('should map an invalid code 400 to a customer-facing message', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        text: () => Promise.resolve('{"title":"Bad Request","detail":"Discount code is invalid"}'),
+      } as Response);
+
+      await expect(client.applyDiscountCode(123, 'SAVE10')).rejects.toMatchObject({
+        statusCode: 400,
+        title: 'Invalid Discount Code',
+        detail: expect.stringContaining('"SAVE10" isn\'t a valid discount code'),
+      });
+    });
+
+    test('should map already-applied responses whether they come back as 400 or 409', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 409,
+        statusText: 'Conflict',
+        text: () => Promise.resolve('{"title":"Conflict","detail":"Discount has already been applied"}'),
+      } as Response);
+      await expect(client.applyDiscountCode(123, 'SAVE10')).rejects.toMatchObject({ title: 'Discount Already Applied' });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        text: () => Promise.resolve('Discount code already applied to this contract'),
+      } as Response);
+      await expect(client.applyDiscountCode(123, 'SAVE10')).rejects.toMatchObject({ statusCode: 409, title: 'Discount Already Applied' });
+    });
+
+    test('should pass unrelated 400s and 409s through with their original detail', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        text: () => Promise.resolve('Subscription contract not found for contractId 123'),
+      } as Response);
+      await expect(client.applyDiscountCode(123, 'SAVE10')).rejects.toMatchObject({
+        statusCode: 400,
+        title: 'Bad Request',
+        detail: 'Subscription contract not found for contractId 123',
+      });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        text: () => Promise.resolve('Required request parameter discountId is missing'),
+      } as Response);
+      await expect(client.removeDiscount(123, '')).rejects.toMatchObject({
+        title: 'Bad Request',
+        detail: 'Required request parameter discountId is missing',
+      });
+    });
+
+    test('should map a discount that is no longer on the contract when removing', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        text: () => Promise.resolve('Discount not found on subscription contract'),
+      } as Response);
+
+      await expect(client.removeDiscount(123, 'gid://shopify/SubscriptionManualDiscount/1')).rejects.toMatchObject({ title: 'Discount Not Applied' });
+    });
+  });
+
   describe('network errors', () => {
     test('should handle network failures', async () => {
       mockFetch.mockRejectedValueOnce(new Error('Network error'));
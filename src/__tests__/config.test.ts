@@ -0,0 +1,106 @@
+import { describe, test, expect } from 'vitest';
+import {
+  parseDeliveryIntervals,
+  parseRetentionOffers,
+  isAllowedDeliveryInterval,
+  parseOptionList,
+  findAllowedOption,
+  parseCooldownMinutes,
+  parseConcurrency,
+  parseTimeZone,
+  createToolConfig,
+} from '../config.js';
+
+describe('tool configuration', () => {
+  describe('parseDeliveryIntervals', () => {
+    test('should parse a comma-separated interval list', () => {
+      expect(parseDeliveryIntervals('2 WEEK, 4 weeks,1 MONTH')).toEqual([
+        { interval: 'WEEK', intervalCount: 2 },
+        { interval: 'WEEK', intervalCount: 4 },
+        { interval: 'MONTH', intervalCount: 1 }
+      ]);
+    });
+
+    test('should reject unknown units and zero counts', () => {
+      expect(() => parseDeliveryIntervals('2 FORTNIGHT')).toThrow('Invalid delivery interval');
+      expect(() => parseDeliveryIntervals('0 WEEK')).toThrow('Invalid delivery interval');
+    });
+  });
+
+  describe('parseRetentionOffers', () => {
+    test('should parse offers in order', () => {
+      expect(parseRetentionOffers('Pause, discount')).toEqual(['pause', 'discount']);
+    });
+
+    test('should allow disabling offers with an empty value', () => {
+      expect(parseRetentionOffers('')).toEqual([]);
+      expect(createToolConfig({ CANCELLATION_RETENTION_OFFERS: '' }).retentionOffers).toEqual([]);
+    });
+
+    test('should reject unknown offers', () => {
+      expect(() => parseRetentionOffers('free_puppy')).toThrow('Invalid retention offer');
+    });
+  });
+
+  describe('preference options', () => {
+    test('should parse option lists and drop duplicates', () => {
+      expect(parseOptionList('Chicken, beef,,Beef ,Fish')).toEqual(['Chicken', 'beef', 'Fish']);
+    });
+
+    test('should match options case-insensitively and return the configured spelling', () => {
+      expect(findAllowedOption(['Chicken', 'Kangaroo'], ' kangaroo ')).toBe('Kangaroo');
+      expect(findAllowedOption(['Chicken', 'Kangaroo'], 'Emu')).toBeUndefined();
+    });
+
+    test('should read allowed values from the environment', () => {
+      const config = createToolConfig({ ALLERGY_OPTIONS: 'Egg,Dairy' });
+      expect(config.allergyOptions).toEqual(['Egg', 'Dairy']);
+      expect(config.proteinSubstitutionOptions).toContain('Chicken');
+    });
+  });
+
+  describe('parseCooldownMinutes', () => {
+    test('should parse whole minutes and allow disabling the cooldown', () => {
+      expect(parseCooldownMinutes(' 30 ')).toBe(30);
+      expect(parseCooldownMinutes('0')).toBe(0);
+      expect(createToolConfig({}).paymentEmailCooldownMinutes).toBe(60);
+    });
+
+    test('should reject negative or fractional values', () => {
+      expect(() => parseCooldownMinutes('-5')).toThrow('Invalid cooldown');
+      expect(() => parseCooldownMinutes('1.5')).toThrow('Invalid cooldown');
+    });
+  });
+
+  describe('parseTimeZone', () => {
+    test('should accept IANA timezone names and reject anything else', () => {
+      expect(parseTimeZone(' Australia/Perth ')).toBe('Australia/Perth');
+      expect(() => parseTimeZone('Sydney')).toThrow('Invalid timezone');
+    });
+  });
+
+  describe('parseConcurrency', () => {
+    test('should parse a limit of at least 1', () => {
+      expect(parseConcurrency(' 5 ')).toBe(5);
+      expect(createToolConfig({}).multiContractConcurrency).toBe(3);
+    });
+
+    test('should reject zero and non-numeric values', () => {
+      expect(() => parseConcurrency('0')).toThrow('Invalid concurrency');
+      expect(() => parseConcurrency('many')).toThrow('Invalid concurrency');
+    });
+  });
+
+  describe('createToolConfig', () => {
+    test('should use default intervals when not configured', () => {
+      const config = createToolConfig({});
+      expect(isAllowedDeliveryInterval(config, 'WEEK', 4)).toBe(true);
+      expect(isAllowedDeliveryInterval(config, 'WEEK', 5)).toBe(false);
+    });
+
+    test('should read intervals from the environment', () => {
+      const config = createToolConfig({ ALLOWED_DELIVERY_INTERVALS: '3 WEEK' });
+      expect(config.allowedDeliveryIntervals).toEqual([{ interval: 'WEEK', intervalCount: 3 }]);
+    });
+  });
+});
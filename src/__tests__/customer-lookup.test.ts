@@ -0,0 +1,134 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { AppstleError } from '../appstle.js';
+import type { AppstleClient } from '../appstle.js';
+import { createToolConfig } from '../config.js';
+import { ShopifyCustomerLookup, createCustomerLookup } from '../customer-lookup.js';
+import type { CustomerLookup } from '../customer-lookup.js';
+import { createTools } from '../tools.js';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+function graphqlResponse(body: Record<string, unknown>): Response {
+  return {
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(body),
+  } as Response;
+}
+
+describe('customer lookup', () => {
+  const mockFetch = vi.mocked(fetch);
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  describe('ShopifyCustomerLookup', () => {
+    const lookup = new ShopifyCustomerLookup({
+      shopDomain: 'test-store.myshopify.com',
+      accessToken: 'shpat_test',
+      apiVersion: '2024-10'
+    });
+
+    test('should return the customer whose email matches exactly', async () => {
+      mockFetch.mockResolvedValueOnce(graphqlResponse({
+        data: {
+          customers: {
+            edges: [
+              { node: { id: 'gid://shopify/Customer/111', email: 'jane.doe@example.com.au', firstName: 'Other', lastName: null } },
+              { node: { id: 'gid://shopify/Customer/222', email: 'Jane.Doe@example.com', firstName: 'Jane', lastName: 'Doe' } }
+            ]
+          }
+        }
+      }));
+
+      const customer = await lookup.findCustomerByEmail('jane.doe@example.com');
+
+      expect(customer).toEqual({
+        id: 222,
+        gid: 'gid://shopify/Customer/222',
+        email: 'Jane.Doe@example.com',
+        firstName: 'Jane',
+        lastName: 'Doe'
+      });
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test-store.myshopify.com/admin/api/2024-10/graphql.json',
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ 'X-Shopify-Access-Token': 'shpat_test' }),
+        })
+      );
+    });
+
+    test('should return null when no customer matches', async () => {
+      mockFetch.mockResolvedValueOnce(graphqlResponse({ data: { customers: { edges: [] } } }));
+
+      await expect(lookup.findCustomerByEmail('nobody@example.com')).resolves.toBeNull();
+    });
+
+    test('should surface GraphQL errors as a failed lookup', async () => {
+      mockFetch.mockResolvedValueOnce(graphqlResponse({ errors: [{ message: 'Access denied for customers field' }] }));
+
+      await expect(lookup.findCustomerByEmail('jane@example.com')).rejects.toMatchObject({
+        statusCode: 502,
+        title: 'Customer Lookup Failed'
+      });
+    });
+  });
+
+  describe('createCustomerLookup', () => {
+    test('should be unavailable without Shopify credentials', () => {
+      expect(createCustomerLookup({ SHOP_DOMAIN: 'test-store.myshopify.com' })).toBeUndefined();
+      expect(createCustomerLookup({
+        SHOP_DOMAIN: 'test-store.myshopify.com',
+        SHOPIFY_ADMIN_ACCESS_TOKEN: 'shpat_test'
+      })).toBeInstanceOf(ShopifyCustomerLookup);
+    });
+  });
+
+  describe('resolve_customer tool', () => {
+    const appstleClient = {} as AppstleClient;
+    const config = createToolConfig({});
+
+    test('should resolve a GID without an email lookup', async () => {
+      const tools = createTools(appstleClient, config, undefined);
+
+      const result = await tools.resolve_customer({ customer_identifier: 'gid://shopify/Customer/123456' }, 'req-1');
+
+      expect(result.shopify_customer_id).toBe(123456);
+      expect(result.resolved_from).toBe('GID');
+    });
+
+    test('should look up customers by email', async () => {
+      const lookup: CustomerLookup = {
+        findCustomerByEmail: vi.fn().mockResolvedValue({ id: 222, gid: 'gid://shopify/Customer/222', firstName: 'Jane' }),
+      };
+      const tools = createTools(appstleClient, config, lookup);
+
+      const result = await tools.resolve_customer({ customer_identifier: 'Jane@Example.com' }, 'req-2');
+
+      expect(lookup.findCustomerByEmail).toHaveBeenCalledWith('jane@example.com', 'req-2');
+      expect(result).toMatchObject({ shopify_customer_id: 222, resolved_from: 'EMAIL', first_name: 'Jane' });
+    });
+
+    test('should report unknown emails as Customer Not Found', async () => {
+      const lookup: CustomerLookup = { findCustomerByEmail: vi.fn().mockResolvedValue(null) };
+      const tools = createTools(appstleClient, config, lookup);
+
+      await expect(tools.resolve_customer({ customer_identifier: 'nobody@example.com' }, 'req-3')).rejects.toMatchObject({
+        statusCode: 404,
+        title: 'Customer Not Found'
+      });
+    });
+
+    test('should explain when email lookup is not configured', async () => {
+      const tools = createTools(appstleClient, config, undefined);
+
+      const error = await tools.resolve_customer({ customer_identifier: 'jane@example.com' }, 'req-4').catch(e => e);
+
+      expect(error).toBeInstanceOf(AppstleError);
+      expect(error.title).toBe('Email Lookup Unavailable');
+    });
+  });
+});
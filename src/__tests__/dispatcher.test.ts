@@ -0,0 +1,277 @@
+import { describe, test, expect, vi } from 'vitest';
+import { AppstleError } from '../appstle.js';
+import { McpDispatcher } from '../dispatcher.js';
+import type { JsonRpcNotification, McpServerDefinition } from '../dispatcher.js';
+import { logger } from '../logger.js';
+import type { ProtocolState } from '../protocol.js';
+import { getRequestContext } from '../request-context.js';
+import type { ResourceProvider } from '../resources.js';
+
+function createDispatcher(extraTools: McpServerDefinition['tools'] = {}): McpDispatcher {
+  const server: McpServerDefinition = {
+    tools: {
+      echo_tool: vi.fn().mockImplementation(async (input: unknown) => ({ echoed: input })),
+      ...extraTools,
+    },
+    listTools: () => [],
+  };
+  return new McpDispatcher(server);
+}
+
+function initialize(params: Record<string, unknown>): Record<string, unknown> {
+  return { jsonrpc: '2.0', id: 1, method: 'initialize', params };
+}
+
+describe('McpDispatcher', () => {
+  describe('initialize', () => {
+    test('should accept a supported version and advertise only implemented capabilities', async () => {
+      const protocol: ProtocolState = {};
+
+      const response = await createDispatcher().processJsonRpcRequest(
+        initialize({ protocolVersion: '2025-03-26', capabilities: { roots: {} }, clientInfo: { name: 'desktop', version: '2.0' } }),
+        'req-1',
+        { protocol }
+      );
+
+      expect(response?.result).toEqual({
+        protocolVersion: '2025-03-26',
+        capabilities: { tools: {}, logging: {} },
+        serverInfo: { name: 'appstle-mcp-server', version: '1.0.0' }
+      });
+      expect(protocol).toEqual({
+        protocolVersion: '2025-03-26',
+        clientCapabilities: { roots: {} },
+        clientInfo: { name: 'desktop', version: '2.0' }
+      });
+    });
+
+    test('should offer the latest version when the requested one is unknown', async () => {
+      const response = await createDispatcher().processJsonRpcRequest(initialize({ protocolVersion: '2030-01-01' }), 'req-2');
+
+      expect(response?.result).toMatchObject({
+        protocolVersion: '2025-06-18',
+        serverInfo: { title: 'Appstle Subscription Management' }
+      });
+    });
+
+    test('should reject initialize without a protocol version', async () => {
+      const response = await createDispatcher().processJsonRpcRequest(initialize({}), 'req-3');
+
+      expect(response?.error).toMatchObject({ code: -32602, data: 'protocolVersion is required' });
+    });
+  });
+
+  describe('tools/call', () => {
+    const call = { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'echo_tool', arguments: { a: 1 } } };
+
+    test('should add structuredContent from 2025-06-18', async () => {
+      const response = await createDispatcher().processJsonRpcRequest(call, 'req-4', { protocol: { protocolVersion: '2025-06-18' } });
+
+      expect(response?.result).toMatchObject({ structuredContent: { echoed: { a: 1 } } });
+    });
+
+    test('should only return text content to older clients', async () => {
+      const response = await createDispatcher().processJsonRpcRequest(call, 'req-5', { protocol: { protocolVersion: '2024-11-05' } });
+
+      expect(response?.result).toEqual({
+        content: [{ type: 'text', text: JSON.stringify({ echoed: { a: 1 } }, null, 2) }]
+      });
+    });
+  });
+
+  describe('ping', () => {
+    test('should answer with an empty result', async () => {
+      const response = await createDispatcher().processJsonRpcRequest({ jsonrpc: '2.0', id: 9, method: 'ping' }, 'req-6');
+
+      expect(response).toEqual({ jsonrpc: '2.0', id: 9, result: {} });
+    });
+  });
+
+  describe('logging/setLevel', () => {
+    test('should refuse a level that a stateless request cannot keep', async () => {
+      const dispatcher = createDispatcher();
+
+      const initialized = await dispatcher.processJsonRpcRequest(initialize({ protocolVersion: '2025-06-18' }), 'req-16', { protocol: {}, stateless: true });
+      const response = await dispatcher.processJsonRpcRequest(
+        { jsonrpc: '2.0', id: 15, method: 'logging/setLevel', params: { level: 'debug' } },
+        'req-17',
+        { protocol: {}, stateless: true }
+      );
+
+      expect(initialized?.result).toMatchObject({ capabilities: { tools: {} } });
+      expect((initialized?.result as { capabilities: Record<string, unknown> }).capabilities.logging).toBeUndefined();
+      expect(response?.error).toMatchObject({ code: -32601 });
+    });
+
+    test('should reject unknown levels', async () => {
+      const response = await createDispatcher().processJsonRpcRequest(
+        { jsonrpc: '2.0', id: 10, method: 'logging/setLevel', params: { level: 'verbose' } },
+        'req-7',
+        { protocol: {} }
+      );
+
+      expect(response?.error).toMatchObject({ code: -32602 });
+    });
+
+    test('should forward tool log entries at or above the level as notifications/message', async () => {
+      vi.spyOn(console, 'info').mockImplementation(() => undefined);
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const noisyTool = vi.fn().mockImplementation(async () => {
+        logger.info('Looking up orders', { customerId: 123456789 });
+        logger.warn('Order list was empty', {});
+        return { ok: true };
+      });
+      const dispatcher = createDispatcher({ noisy_tool: noisyTool });
+      const protocol: ProtocolState = {};
+      const notifications: JsonRpcNotification[] = [];
+      const context = { protocol, notify: (notification: JsonRpcNotification): void => { notifications.push(notification); } };
+
+      await dispatcher.processJsonRpcRequest({ jsonrpc: '2.0', id: 11, method: 'logging/setLevel', params: { level: 'warning' } }, 'req-8', context);
+      await dispatcher.processJsonRpcRequest({ jsonrpc: '2.0', id: 12, method: 'tools/call', params: { name: 'noisy_tool' } }, 'req-9', context);
+
+      expect(protocol.logLevel).toBe('warning');
+      expect(notifications).toEqual([
+        {
+          jsonrpc: '2.0',
+          method: 'notifications/message',
+          params: { level: 'warning', logger: 'appstle-mcp-server', data: expect.objectContaining({ message: 'Order list was empty' }) }
+        }
+      ]);
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe('resources', () => {
+    function createResourceDispatcher(read: ResourceProvider['read']): McpDispatcher {
+      return new McpDispatcher({
+        tools: {},
+        listTools: () => [],
+        resources: {
+          listTemplates: () => [{
+            uriTemplate: 'appstle://customer/{id}/subscriptions',
+            name: 'customer-subscriptions',
+            title: 'Customer subscriptions',
+            description: 'Subscriptions of a customer',
+            mimeType: 'application/json'
+          }],
+          read,
+        },
+      });
+    }
+
+    test('should advertise resources only when the server has them', async () => {
+      const withResources = await createResourceDispatcher(vi.fn()).processJsonRpcRequest(initialize({ protocolVersion: '2025-06-18' }), 'req-20');
+      const withoutResources = await createDispatcher().processJsonRpcRequest(initialize({ protocolVersion: '2025-06-18' }), 'req-21');
+
+      expect(withResources?.result).toMatchObject({ capabilities: { resources: {} } });
+      expect((withoutResources?.result as { capabilities: Record<string, unknown> }).capabilities.resources).toBeUndefined();
+    });
+
+    test('should list templates and no concrete resources', async () => {
+      const dispatcher = createResourceDispatcher(vi.fn());
+
+      const templates = await dispatcher.processJsonRpcRequest({ jsonrpc: '2.0', id: 20, method: 'resources/templates/list' }, 'req-22');
+      const listed = await dispatcher.processJsonRpcRequest({ jsonrpc: '2.0', id: 21, method: 'resources/list' }, 'req-23');
+
+      expect(templates?.result).toMatchObject({ resourceTemplates: [{ uriTemplate: 'appstle://customer/{id}/subscriptions' }] });
+      expect(listed?.result).toEqual({ resources: [] });
+    });
+
+    test('should return the contents of a resource', async () => {
+      const contents = [{ uri: 'appstle://customer/1/subscriptions', mimeType: 'application/json', text: '{}' }];
+      const dispatcher = createResourceDispatcher(vi.fn().mockResolvedValue(contents));
+
+      const response = await dispatcher.processJsonRpcRequest(
+        { jsonrpc: '2.0', id: 22, method: 'resources/read', params: { uri: 'appstle://customer/1/subscriptions' } },
+        'req-24'
+      );
+
+      expect(response?.result).toEqual({ contents });
+    });
+
+    test('should report unknown URIs and missing customers as resource not found', async () => {
+      const read = vi.fn()
+        .mockResolvedValueOnce(null)
+        .mockRejectedValueOnce(new AppstleError(404, 'Not Found', 'Customer not found'));
+      const dispatcher = createResourceDispatcher(read);
+      const request = { jsonrpc: '2.0', id: 23, method: 'resources/read', params: { uri: 'appstle://customer/9/subscriptions' } };
+
+      const unknown = await dispatcher.processJsonRpcRequest(request, 'req-25');
+      const missing = await dispatcher.processJsonRpcRequest(request, 'req-26');
+
+      expect(unknown?.error).toEqual({ code: -32002, message: 'Resource not found', data: { uri: 'appstle://customer/9/subscriptions' } });
+      expect(missing?.error?.code).toBe(-32002);
+    });
+
+    test('should require a uri', async () => {
+      const response = await createResourceDispatcher(vi.fn()).processJsonRpcRequest({ jsonrpc: '2.0', id: 24, method: 'resources/read', params: {} }, 'req-27');
+
+      expect(response?.error?.code).toBe(-32602);
+    });
+  });
+
+  describe('notifications/cancelled', () => {
+    test('should abort the running tool call and send no response', async () => {
+      let started: () => void = () => undefined;
+      const running = new Promise<void>(resolve => { started = resolve; });
+      const slowTool = vi.fn().mockImplementation(() => new Promise((_resolve, reject) => {
+        const signal = getRequestContext()?.signal;
+        signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        started();
+      }));
+      const dispatcher = createDispatcher({ slow_tool: slowTool });
+      const context = { protocol: {} };
+
+      const pending = dispatcher.processJsonRpcRequest({ jsonrpc: '2.0', id: 13, method: 'tools/call', params: { name: 'slow_tool' } }, 'req-10', context);
+      await running;
+      const ack = await dispatcher.processJsonRpcRequest(
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 13, reason: 'User gave up' } },
+        'req-11',
+        context
+      );
+
+      expect(ack).toBeNull();
+      await expect(pending).resolves.toBeNull();
+    });
+
+    test('should finish and answer a cancelled call that has already written', async () => {
+      let started: () => void = () => undefined;
+      const running = new Promise<void>(resolve => { started = resolve; });
+      const writingTool = vi.fn().mockImplementation(() => new Promise(resolve => {
+        const requestContext = getRequestContext();
+        if (requestContext) {
+          requestContext.writeStarted = true;
+        }
+        requestContext?.signal?.addEventListener('abort', () => resolve({ skipped_count: 1, failed_count: 0 }));
+        started();
+      }));
+      const dispatcher = createDispatcher({ writing_tool: writingTool });
+      const context = { protocol: {} };
+
+      const pending = dispatcher.processJsonRpcRequest({ jsonrpc: '2.0', id: 14, method: 'tools/call', params: { name: 'writing_tool' } }, 'req-14', context);
+      await running;
+      await dispatcher.processJsonRpcRequest({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 14 } }, 'req-15', context);
+
+      const response = await pending;
+      expect(response?.result).toMatchObject({ content: [{ type: 'text', text: expect.stringContaining('"skipped_count": 1') }] });
+    });
+
+    test('should not cancel requests from another connection', async () => {
+      const dispatcher = createDispatcher();
+
+      const ack = await dispatcher.processJsonRpcRequest(
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 2 } },
+        'req-12',
+        { protocol: {} }
+      );
+      const response = await dispatcher.processJsonRpcRequest(
+        { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'echo_tool', arguments: {} } },
+        'req-13',
+        { protocol: {} }
+      );
+
+      expect(ack).toBeNull();
+      expect(response?.result).toBeDefined();
+    });
+  });
+});
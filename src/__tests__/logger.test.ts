@@ -0,0 +1,90 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import type { AppstleClient } from '../appstle.js';
+import { createToolConfig } from '../config.js';
+import { logger } from '../logger.js';
+import { createTools } from '../tools.js';
+
+describe('logger masking', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function captureInfo(message: string, context: Record<string, unknown>): Record<string, unknown> {
+    const spy = vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    logger.info(message, context);
+    return JSON.parse(spy.mock.calls[0][0] as string);
+  }
+
+  test('should mask address fields in log context', () => {
+    const entry = captureInfo('Updating address', {
+      shipping_address: { address1: '12 Bark Street', city: 'Sydney' },
+      firstName: 'Jane',
+      zip: '2000',
+      phone: '+61 400 000 000',
+      tool: 'update_shipping_address'
+    });
+
+    expect(entry.shipping_address).toBe('[MASKED]');
+    expect(entry.firstName).toBe('[MASKED]');
+    expect(entry.zip).toBe('[MASKED]');
+    expect(entry.phone).toBe('[MASKED]');
+    expect(entry.tool).toBe('update_shipping_address');
+  });
+
+  test('should mask address fields inside logged JSON strings', () => {
+    const payload = {
+      id: 'gid://shopify/SubscriptionContract/123',
+      deliveryMethod: {
+        address: { address1: '12 Bark Street', lastName: 'Smith' }
+      },
+      status: 'ACTIVE'
+    };
+
+    const entry = captureInfo('Raw response', {
+      responseStructure: JSON.stringify(payload, null, 2),
+      rawInput: JSON.stringify({ subscription_contract_id: 123, shipping_address: { city: 'Sydney' } })
+    });
+
+    expect(entry.responseStructure).not.toContain('Bark Street');
+    expect(entry.responseStructure).not.toContain('Smith');
+    expect(JSON.parse(entry.responseStructure as string).status).toBe('ACTIVE');
+    expect(entry.rawInput).toBe('{"subscription_contract_id":123,"shipping_address":"[MASKED]"}');
+  });
+
+  test('should leave non-JSON strings to pattern masking', () => {
+    const entry = captureInfo('Lookup', { detail: '{not json} for jane@example.com' });
+
+    expect(entry.detail).toBe('{not json} for [EMAIL_MASKED]');
+  });
+
+  test('should keep addresses from address tool outputs out of every log line', async () => {
+    const lines: string[] = [];
+    for (const level of ['debug', 'info', 'warn', 'error'] as const) {
+      vi.spyOn(console, level).mockImplementation((line: string) => { lines.push(line); });
+    }
+
+    const contract = {
+      id: 'gid://shopify/SubscriptionContract/123456789',
+      deliveryMethod: {
+        address: { firstName: 'Jane', lastName: 'Smith', address1: '12 Bark Street', city: 'Sydney', zip: '2000', countryCode: 'AU' }
+      }
+    };
+    const client = {
+      getSubscriptionContract: vi.fn().mockResolvedValue(contract),
+      updateShippingAddress: vi.fn().mockResolvedValue(contract),
+    } as unknown as AppstleClient;
+    const tools = createTools(client, createToolConfig({}), undefined);
+    const shipping_address = { first_name: 'Jane', last_name: 'Smith', address1: '12 Bark Street', city: 'Sydney', zip: '2000', country_code: 'AU' };
+
+    const current = await tools.get_shipping_address({ subscription_contract_id: 123456789 }, 'req-1');
+    const preview = await tools.update_shipping_address({ subscription_contract_id: 123456789, shipping_address }, 'req-2');
+    const updated = await tools.update_shipping_address({ subscription_contract_id: 123456789, shipping_address, confirm_update: true }, 'req-3');
+
+    // The customer still sees the address; the logs never do
+    expect(current.next_step_guidance.ask_customer).toContain('12 Bark Street');
+    expect(preview.next_step_guidance.ask_customer).toContain('12 Bark Street');
+    expect(updated.next_step_guidance.ask_customer).toContain('12 Bark Street');
+    expect(lines.length).toBeGreaterThan(0);
+    expect(lines.filter(line => /Bark Street|Jane|Smith|Sydney/.test(line))).toEqual([]);
+  });
+});
@@ -5,6 +5,37 @@ import {
   validateNumericCustomerId,
   toSubscriptionsSummary,
   mapBillingAttempt,
+  toPastOrders,
+  resolveRescheduleDate,
+  mapRescheduleResponse,
+  mapFrequencyChangeResponse,
+  mapStatusChangeResponse,
+  buildRetentionOffers,
+  buildCancellationStep,
+  mapLineItemsResponse,
+  toUpcomingOrders,
+  mapOneOffResponse,
+  applyPreferenceAttributes,
+  mapPreferencesResponse,
+  formatShippingAddress,
+  mapShippingAddress,
+  buildAddressChangeStep,
+  mapShippingAddressUpdateResponse,
+  mapDiscountResponse,
+  toPaymentMethod,
+  toSubscriptionDetails,
+  toFailedPayments,
+  mapRetryBillingResponse,
+  mapPaymentEmailResponse,
+  normalizeCustomerIdentifier,
+  mapResolvedCustomer,
+  normalizeOrderName,
+  findOrderByName,
+  mapOrderLookup,
+  selectOrdersInRange,
+  mapRangeSkipResults,
+  mapMultiContractSkipResults,
+  toSubscriptionTimeline,
 } from '../mapping.js';
 
 describe('mapping utilities', () => {
@@ -104,6 +135,9 @@ describe('mapping utilities', () => {
             plan_name: '2 WEEKs',
             next_billing_date: '2025-01-15T10:00:00Z',
             items_summary: '2x 5kg Bag',
+            lines: [
+              { line_number: 1, line_id: undefined, variant_id: undefined, title: 'Premium Dog Food - 5kg Bag', quantity: 2 }
+            ],
             created_at: '2024-12-01T10:00:00Z',
             can_skip_orders: true,
             upcoming_orders_count: 1,
@@ -223,6 +257,9 @@ describe('mapping utilities', () => {
             plan_name: '2 WEEKs',
             next_billing_date: '2025-01-15T10:00:00Z',
             items_summary: '2x 5kg Bag',
+            lines: [
+              { line_number: 1, line_id: undefined, variant_id: undefined, title: '5kg Bag', quantity: 2 }
+            ],
             created_at: '2024-12-01T10:00:00Z',
             can_skip_orders: true,
             upcoming_orders_count: 1,
@@ -249,6 +286,44 @@ describe('mapping utilities', () => {
       });
     });
 
+    test('should include paused subscriptions when requested', () => {
+      const appstleResponse = {
+        subscriptionContracts: {
+          edges: [
+            {
+              node: {
+                id: 'gid://shopify/SubscriptionContract/555666777',
+                status: 'PAUSED',
+                nextBillingDate: '2025-02-01T10:00:00Z',
+                deliveryPolicy: {
+                  interval: 'WEEK',
+                  intervalCount: 1
+                }
+              }
+            }
+          ],
+          pageInfo: {
+            hasNextPage: false
+          }
+        }
+      };
+
+      const result = toSubscriptionsSummary(appstleResponse, { includePaused: true });
+
+      expect(result.subscriptions).toHaveLength(1);
+      expect(result.subscriptions[0]).toMatchObject({
+        subscription_contract_id: 555666777,
+        status: 'PAUSED',
+        can_skip_orders: false
+      });
+      expect(result.active_subscription_count).toBe(0);
+      expect(result.paused_subscription_count).toBe(1);
+      expect(result.next_step_guidance).toMatchObject({
+        next_tool: 'resume_subscription',
+        condition: 'OFFER_RESUME_DATE'
+      });
+    });
+
     test('should handle no active subscriptions', () => {
       const appstleResponseInactive = {
         subscriptionContracts: {
@@ -352,4 +427,859 @@ describe('mapping utilities', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('toPastOrders', () => {
+    test('should offer skipped orders for restoring', () => {
+      const result = toPastOrders([
+        { id: 111, billingDate: '2025-01-07T05:38:50Z', status: 'SUCCESS', orderName: '#1627' },
+        { id: 222, billingDate: '2025-01-21T05:38:50Z', status: 'SKIPPED' }
+      ]);
+
+      expect(result.past).toHaveLength(2);
+      expect(result.skipped_selection_map).toEqual([
+        { selection_number: 1, order_id: 222, billing_date: '2025-01-21T05:38:50Z' }
+      ]);
+      expect(result.next_step_guidance).toMatchObject({
+        show_options: true,
+        save_parameter: 'order_id',
+        next_tool: 'unskip_order',
+        condition: 'ONLY_IF_RESTORING'
+      });
+      expect(result.next_step_guidance?.ask_customer).toContain('1. January 21, 2025 (Order ID: 222)');
+    });
+
+    test('should omit restore guidance when nothing is skipped', () => {
+      const result = toPastOrders({
+        content: [{ id: 111, billingDate: '2025-01-07T05:38:50Z', status: 'SUCCESS' }],
+        size: 10,
+        number: 0
+      });
+
+      expect(result.skipped_selection_map).toBeUndefined();
+      expect(result.next_step_guidance).toBeUndefined();
+    });
+  });
+
+  describe('resolveRescheduleDate', () => {
+    const now = new Date('2025-01-10T00:00:00Z');
+    const upcoming = [
+      { order_id: 2, billing_date: '2025-01-29T10:00:00Z', status: 'QUEUED' },
+      { order_id: 1, billing_date: '2025-01-15T10:00:00Z', status: 'QUEUED' }
+    ];
+
+    test('should keep the original billing time for date-only input', () => {
+      expect(resolveRescheduleDate(upcoming, 1, '2025-01-18', now)).toEqual({
+        previous_billing_date: '2025-01-15T10:00:00Z',
+        new_billing_date: '2025-01-18T10:00:00Z'
+      });
+    });
+
+    test('should reject past dates', () => {
+      expect(() => resolveRescheduleDate(upcoming, 1, '2025-01-05', now)).toThrow('is in the past');
+    });
+
+    test('should reject dates on or after the following scheduled order', () => {
+      expect(() => resolveRescheduleDate(upcoming, 1, '2025-01-29', now)).toThrow('following scheduled delivery');
+    });
+
+    test('should reject unknown order IDs', () => {
+      expect(() => resolveRescheduleDate(upcoming, 99, '2025-01-18', now)).toThrow('not one of the upcoming orders');
+    });
+
+    test('should move the order to the requested store day when its UTC time falls on the previous day', () => {
+      // 14:00Z is midnight of the next day in Sydney
+      const lateOrders = [{ order_id: 5, billing_date: '2025-08-01T14:00:00Z', status: 'QUEUED' }];
+
+      expect(resolveRescheduleDate(lateOrders, 5, '2025-08-06', new Date('2025-07-20T00:00:00Z'), 'Australia/Sydney')).toEqual({
+        previous_billing_date: '2025-08-01T14:00:00Z',
+        new_billing_date: '2025-08-05T14:00:00Z'
+      });
+    });
+  });
+
+  describe('mapRescheduleResponse', () => {
+    test('should confirm old and new dates', () => {
+      const result = mapRescheduleResponse(
+        { id: 1, billingDate: '2025-01-18T10:00:00Z', status: 'QUEUED' },
+        '2025-01-15T10:00:00Z'
+      );
+
+      expect(result.message).toBe('Delivery moved from January 15, 2025 to January 18, 2025');
+      expect(result.next_step_guidance.condition).toBe('COMPLETE');
+    });
+  });
+
+  describe('mapFrequencyChangeResponse', () => {
+    test('should recompute plan name and next billing date', () => {
+      const result = mapFrequencyChangeResponse(
+        {
+          id: 'gid://shopify/SubscriptionContract/123456789',
+          nextBillingDate: '2025-02-12T10:00:00Z',
+          deliveryPolicy: { interval: 'WEEK', intervalCount: 4 }
+        },
+        { interval: 'WEEK', intervalCount: 4 }
+      );
+
+      expect(result).toMatchObject({
+        subscription_contract_id: 123456789,
+        plan_name: '4 WEEKs',
+        interval: 'WEEK',
+        interval_count: 4,
+        next_billing_date: '2025-02-12T10:00:00Z'
+      });
+      expect(result.next_step_guidance.ask_customer).toContain('February 12, 2025');
+    });
+  });
+
+  describe('mapStatusChangeResponse', () => {
+    test('should state the pause transition and offer a resume date', () => {
+      const result = mapStatusChangeResponse(
+        { id: 'gid://shopify/SubscriptionContract/123456789', status: 'PAUSED' },
+        'ACTIVE'
+      );
+
+      expect(result).toMatchObject({
+        subscription_contract_id: 123456789,
+        previous_status: 'ACTIVE',
+        status: 'PAUSED',
+        message: 'Subscription status changed from ACTIVE to PAUSED'
+      });
+      expect(result.next_step_guidance).toMatchObject({
+        save_parameter: 'resume_date',
+        next_tool: 'resume_subscription',
+        condition: 'OFFER_RESUME_DATE'
+      });
+    });
+
+    test('should confirm the next delivery after resuming', () => {
+      const result = mapStatusChangeResponse(
+        { id: 'gid://shopify/SubscriptionContract/123456789', status: 'ACTIVE', nextBillingDate: '2025-03-01T10:00:00Z' },
+        'PAUSED'
+      );
+
+      expect(result.message).toBe('Subscription status changed from PAUSED to ACTIVE');
+      expect(result.next_step_guidance.ask_customer).toContain('March 1, 2025');
+      expect(result.next_step_guidance.condition).toBe('COMPLETE');
+    });
+  });
+
+  describe('cancellation flow', () => {
+    const offerTypes = ['skip', 'pause', 'change_frequency', 'discount'] as const;
+
+    test('should lead with the offer that matches the reason', () => {
+      const offers = buildRetentionOffers('TOO_MUCH_FOOD', [...offerTypes], '15% off');
+
+      expect(offers.map(offer => offer.offer)).toEqual(['change_frequency', 'skip', 'pause', 'discount']);
+      expect(offers[0]).toMatchObject({ option_number: 1, next_tool: 'change_delivery_frequency' });
+    });
+
+    test('should route the discount offer to apply_discount_code when a code is configured', () => {
+      const withCode = buildRetentionOffers('TOO_EXPENSIVE', [...offerTypes], '15% off', 'STAY15');
+      expect(withCode[0]).toMatchObject({ offer: 'discount', next_tool: 'apply_discount_code', discount_code: 'STAY15' });
+      expect(withCode[1].discount_code).toBeUndefined();
+
+      const withoutCode = buildRetentionOffers('TOO_EXPENSIVE', [...offerTypes], '15% off');
+      expect(withoutCode[0]).toMatchObject({ offer: 'discount', next_tool: 'human_handoff' });
+    });
+
+    test('should not offer alternatives when a pet has passed away', () => {
+      expect(buildRetentionOffers('PET_PASSED_AWAY', [...offerTypes], '15% off')).toEqual([]);
+    });
+
+    test('should offer alternatives before asking for confirmation', () => {
+      const offers = buildRetentionOffers('TOO_EXPENSIVE', [...offerTypes], '15% off');
+
+      const first = buildCancellationStep(123, 'TOO_EXPENSIVE', offers, false);
+      expect(first.cancelled).toBe(false);
+      expect(first.retention_offers?.[0].offer).toBe('discount');
+      expect(first.next_step_guidance.condition).toBe('OFFER_ALTERNATIVES');
+
+      const second = buildCancellationStep(123, 'TOO_EXPENSIVE', offers, true);
+      expect(second.cancelled).toBe(false);
+      expect(second.retention_offers).toBeUndefined();
+      expect(second.next_step_guidance).toMatchObject({
+        save_parameter: 'confirm_cancellation',
+        next_tool: 'cancel_subscription',
+        condition: 'CONFIRM_CANCELLATION'
+      });
+    });
+  });
+
+  describe('mapLineItemsResponse', () => {
+    test('should return stable line IDs and the new items summary', () => {
+      const result = mapLineItemsResponse(
+        {
+          id: 'gid://shopify/SubscriptionContract/123456789',
+          lines: {
+            edges: [
+              {
+                node: {
+                  id: 'gid://shopify/SubscriptionLine/abc-123',
+                  variantId: 'gid://shopify/ProductVariant/111',
+                  productTitle: 'Premium Dog Food',
+                  variantTitle: 'Beef',
+                  quantity: 3
+                }
+              },
+              {
+                node: {
+                  id: 'gid://shopify/SubscriptionLine/def-456',
+                  productTitle: 'Dog Treats',
+                  quantity: 1
+                }
+              }
+            ]
+          }
+        },
+        'Quantity updated to 3'
+      );
+
+      expect(result.subscription_contract_id).toBe(123456789);
+      expect(result.items_summary).toBe('3x Beef, Dog Treats');
+      expect(result.lines).toEqual([
+        { line_number: 1, line_id: 'gid://shopify/SubscriptionLine/abc-123', variant_id: 'gid://shopify/ProductVariant/111', title: 'Premium Dog Food - Beef', quantity: 3 },
+        { line_number: 2, line_id: 'gid://shopify/SubscriptionLine/def-456', variant_id: undefined, title: 'Dog Treats', quantity: 1 }
+      ]);
+      expect(result.next_step_guidance.ask_customer).toBe('Quantity updated to 3. Your subscription now includes: 3x Beef, Dog Treats.');
+    });
+  });
+
+  describe('one-time items', () => {
+    test('should flag recurring and one-time items on upcoming orders', () => {
+      const result = toUpcomingOrders(
+        [
+          {
+            id: 1001,
+            billingDate: '2025-01-15T10:00:00Z',
+            status: 'QUEUED',
+            variantList: [{ productTitle: 'Premium Dog Food', quantity: 2 }]
+          },
+          {
+            id: 1002,
+            billingDate: '2025-01-29T10:00:00Z',
+            status: 'QUEUED'
+          }
+        ],
+        [{ billingAttemptId: 1001, variantId: 555, productTitle: 'Dog Treats', quantity: 1 }]
+      );
+
+      expect(result.upcoming[0].items).toEqual([
+        { title: 'Premium Dog Food', quantity: 2, purchase_type: 'RECURRING' },
+        { title: 'Dog Treats', quantity: 1, purchase_type: 'ONE_TIME' }
+      ]);
+      expect(result.upcoming[1].items).toBeUndefined();
+    });
+
+    test('should only return one-time items for the chosen order', () => {
+      const result = mapOneOffResponse(
+        [
+          { billingAttemptId: 1001, variantId: 555, productTitle: 'Dog Treats', quantity: 2 },
+          { billingAttemptId: 1002, variantId: 556, productTitle: 'Chew Toy', quantity: 1 }
+        ],
+        { order_id: 1001, billing_date: '2025-01-15T10:00:00Z' },
+        123456789
+      );
+
+      expect(result.one_time_items).toEqual([
+        { title: 'Dog Treats', quantity: 2, purchase_type: 'ONE_TIME' }
+      ]);
+      expect(result.next_step_guidance.ask_customer).toContain('January 15, 2025');
+      expect(result.next_step_guidance.ask_customer).toContain('2x Dog Treats');
+    });
+  });
+
+  describe('subscription preferences', () => {
+    const contractWith = (attributes: Array<{ key: string; value: string }>): Parameters<typeof mapPreferencesResponse>[0] => ({
+      id: 'gid://shopify/SubscriptionContract/123456789',
+      lines: {
+        edges: [
+          { node: { id: 'gid://shopify/SubscriptionLine/1', productTitle: 'Dog Food', quantity: 1, customAttributes: attributes } },
+          { node: { id: 'gid://shopify/SubscriptionLine/2', productTitle: 'Treats', quantity: 1, customAttributes: attributes } }
+        ]
+      }
+    });
+
+    const bothLinesUpdated = [
+      { line_id: 'gid://shopify/SubscriptionLine/1', result: 'UPDATED' as const },
+      { line_id: 'gid://shopify/SubscriptionLine/2', result: 'UPDATED' as const },
+    ];
+
+    test('should set, replace and remove preference attributes while keeping others', () => {
+      const result = applyPreferenceAttributes(
+        [
+          { key: 'Pet Name', value: 'Rex' },
+          { key: 'Allergies', value: 'Beef' },
+          { key: 'Protein Substitution', value: 'Lamb' }
+        ],
+        { proteinSubstitution: null, allergies: 'Beef, Grain' }
+      );
+
+      expect(result).toEqual([
+        { key: 'Pet Name', value: 'Rex' },
+        { key: 'Allergies', value: 'Beef, Grain' }
+      ]);
+    });
+
+    test('should leave attributes alone when no change is requested', () => {
+      const attributes = [{ key: 'Allergies', value: 'Beef' }];
+      expect(applyPreferenceAttributes(attributes, { proteinSubstitution: 'Chicken' })).toEqual([
+        { key: 'Allergies', value: 'Beef' },
+        { key: 'Protein Substitution', value: 'Chicken' }
+      ]);
+    });
+
+    test('should echo the stored values', () => {
+      const result = mapPreferencesResponse(
+        contractWith([
+          { key: 'Protein Substitution', value: 'Chicken' },
+          { key: 'Allergies', value: 'Beef, Grain' }
+        ]),
+        { proteinSubstitution: 'Chicken', allergies: 'Beef, Grain' },
+        bothLinesUpdated
+      );
+
+      expect(result.subscription_contract_id).toBe(123456789);
+      expect(result.protein_substitution).toBe('Chicken');
+      expect(result.allergies).toBe('Beef, Grain');
+      expect(result.lines_updated).toBe(2);
+      expect(result.next_step_guidance.ask_customer).toContain('allergies recorded as: Beef, Grain');
+    });
+
+    test('should fail when a line does not hold the requested value', () => {
+      expect(() => mapPreferencesResponse(
+        contractWith([{ key: 'Allergies', value: 'Beef' }]),
+        { allergies: 'Beef, Grain' },
+        bothLinesUpdated
+      )).toThrow('Allergies on gid://shopify/SubscriptionLine/1 is "Beef" but "Beef, Grain" was requested');
+    });
+
+    test('should only verify updated lines and report the ones that failed', () => {
+      // The failed line still holds the old value, which must not fail verification
+      const contract = {
+        id: 'gid://shopify/SubscriptionContract/123456789',
+        lines: {
+          edges: [
+            { node: { id: 'gid://shopify/SubscriptionLine/1', productTitle: 'Dog Food', quantity: 1, customAttributes: [{ key: 'Allergies', value: 'Beef' }] } },
+            { node: { id: 'gid://shopify/SubscriptionLine/2', productTitle: 'Treats', quantity: 1, customAttributes: [{ key: 'Allergies', value: 'Grain' }] } }
+          ]
+        }
+      };
+
+      const result = mapPreferencesResponse(contract, { allergies: 'Beef' }, [
+        { line_id: 'gid://shopify/SubscriptionLine/1', title: 'Dog Food', result: 'UPDATED' },
+        { line_id: 'gid://shopify/SubscriptionLine/2', title: 'Treats', result: 'FAILED', error: 'Server Error: Upstream timeout' },
+      ]);
+
+      expect(result).toMatchObject({ allergies: 'Beef', lines_updated: 1, lines_failed: 1 });
+      expect(result.next_step_guidance).toMatchObject({ next_tool: 'human_handoff', condition: 'PARTIAL_FAILURE' });
+      expect(result.next_step_guidance.ask_customer).toContain("I couldn't update: Treats");
+    });
+
+    test('should report cleared preferences as null', () => {
+      const result = mapPreferencesResponse(contractWith([]), { proteinSubstitution: null, allergies: null }, bothLinesUpdated);
+
+      expect(result.protein_substitution).toBeNull();
+      expect(result.allergies).toBeNull();
+      expect(result.next_step_guidance.ask_customer).toContain('no allergies recorded');
+    });
+  });
+
+  describe('shipping address', () => {
+    const requested = {
+      first_name: 'Jane',
+      last_name: 'Smith',
+      address1: '12 Bark Street',
+      address2: 'Unit 3',
+      city: 'Sydney',
+      province_code: 'NSW',
+      country_code: 'au',
+      zip: '2000'
+    };
+
+    test('should format an address on one line', () => {
+      expect(formatShippingAddress({
+        first_name: 'Jane',
+        last_name: 'Smith',
+        address1: '12 Bark Street',
+        city: 'Sydney',
+        province: 'New South Wales',
+        country: 'Australia',
+        zip: '2000'
+      })).toBe('Jane Smith, 12 Bark Street, Sydney New South Wales 2000, Australia');
+      expect(formatShippingAddress(null)).toBeNull();
+    });
+
+    test('should map the stored address and drop empty fields', () => {
+      const result = mapShippingAddress({
+        id: 'gid://shopify/SubscriptionContract/123456789',
+        deliveryMethod: {
+          address: { firstName: 'Jane', lastName: 'Smith', address1: '4 Old Road', address2: null, city: 'Newtown', provinceCode: 'NSW', countryCode: 'AU', zip: '2042' }
+        }
+      });
+
+      expect(result.subscription_contract_id).toBe(123456789);
+      expect(result.shipping_address).toEqual({
+        first_name: 'Jane',
+        last_name: 'Smith',
+        address1: '4 Old Road',
+        city: 'Newtown',
+        province_code: 'NSW',
+        country_code: 'AU',
+        zip: '2042'
+      });
+      expect(result.formatted_address).toBe('Jane Smith, 4 Old Road, Newtown NSW 2042, AU');
+    });
+
+    test('should show the full old and new address before changing anything', () => {
+      const result = buildAddressChangeStep(
+        123456789,
+        { first_name: 'Jane', last_name: 'Smith', address1: '4 Old Road', city: 'Newtown', province_code: 'NSW', country_code: 'AU', zip: '2042' },
+        requested
+      );
+
+      expect(result.updated).toBe(false);
+      expect(result.previous_address).toBe('Jane Smith, 4 Old Road, Newtown NSW 2042, AU');
+      expect(result.new_address).toBe('Jane Smith, 12 Bark Street, Unit 3, Sydney NSW 2000, AU');
+      expect(result.next_step_guidance.ask_customer).toContain('From: Jane Smith, 4 Old Road, Newtown NSW 2042, AU');
+      expect(result.next_step_guidance.ask_customer).toContain('To: Jane Smith, 12 Bark Street, Unit 3, Sydney NSW 2000, AU');
+      expect(result.next_step_guidance.condition).toBe('CONFIRM_ADDRESS_CHANGE');
+    });
+
+    test('should fall back to the requested address when the response omits it', () => {
+      const result = mapShippingAddressUpdateResponse(
+        { id: 'gid://shopify/SubscriptionContract/123456789' },
+        null,
+        requested
+      );
+
+      expect(result.updated).toBe(true);
+      expect(result.previous_address).toBeNull();
+      expect(result.new_address).toBe('Jane Smith, 12 Bark Street, Unit 3, Sydney NSW 2000, AU');
+      expect(result.next_step_guidance.condition).toBe('COMPLETE');
+    });
+  });
+
+  describe('mapDiscountResponse', () => {
+    test('should list applied discounts with their value and remaining deliveries', () => {
+      const result = mapDiscountResponse({
+        id: 'gid://shopify/SubscriptionContract/123456789',
+        discounts: {
+          edges: [
+            { node: { id: 'gid://shopify/SubscriptionManualDiscount/1', title: 'STAY15', value: { percentage: 15 }, recurringCycleLimit: 3, usageCount: 1 } },
+            { node: { id: 'gid://shopify/SubscriptionManualDiscount/2', title: 'FIVEOFF', value: { amount: { amount: '5.00', currencyCode: 'AUD' } } } }
+          ]
+        }
+      }, 'Discount code STAY15 applied');
+
+      expect(result.subscription_contract_id).toBe(123456789);
+      expect(result.discounts).toEqual([
+        { discount_id: 'gid://shopify/SubscriptionManualDiscount/1', title: 'STAY15', value: '15% off', remaining_cycles: 2 },
+        { discount_id: 'gid://shopify/SubscriptionManualDiscount/2', title: 'FIVEOFF', value: '5.00 AUD off', remaining_cycles: undefined }
+      ]);
+      expect(result.next_step_guidance.ask_customer).toBe(
+        'Discount code STAY15 applied. Discounts on your subscription: STAY15 (15% off), FIVEOFF (5.00 AUD off).'
+      );
+    });
+
+    test('should say when no discounts remain', () => {
+      const result = mapDiscountResponse({ id: 'gid://shopify/SubscriptionContract/123456789' }, 'Discount removed');
+
+      expect(result.discounts).toEqual([]);
+      expect(result.next_step_guidance.ask_customer).toBe('Discount removed. There are no discounts on your subscription now.');
+    });
+  });
+
+  describe('subscription details', () => {
+    const now = new Date('2025-01-10T00:00:00Z');
+
+    test('should derive the payment method status', () => {
+      expect(toPaymentMethod(null, now)).toEqual({ status: 'MISSING' });
+      expect(toPaymentMethod({ id: 'pm1', instrument: { brand: 'visa', lastDigits: '4242', expiryMonth: 1, expiryYear: 2025 } }, now))
+        .toEqual({ status: 'VALID', brand: 'visa', last_digits: '4242', expiry: '01/2025' });
+      expect(toPaymentMethod({ id: 'pm1', instrument: { expiryMonth: 12, expiryYear: 2024 } }, now).status).toBe('EXPIRED');
+      expect(toPaymentMethod({ id: 'pm1', revokedAt: '2025-01-01T00:00:00Z', instrument: null }, now).status).toBe('REVOKED');
+    });
+
+    test('should return every line with prices and the full contract', () => {
+      const lines = ['Chicken', 'Beef', 'Lamb', 'Fish'].map((flavor, index) => ({
+        node: {
+          id: `gid://shopify/SubscriptionLine/${index + 1}`,
+          variantId: `gid://shopify/ProductVariant/${index + 1}`,
+          productTitle: 'Premium Dog Food',
+          variantTitle: flavor,
+          quantity: 1,
+          currentPrice: { amount: '45.00', currencyCode: 'AUD' },
+          lineDiscountedPrice: { amount: '40.50', currencyCode: 'AUD' }
+        }
+      }));
+
+      const result = toSubscriptionDetails({
+        id: 'gid://shopify/SubscriptionContract/123456789',
+        status: 'ACTIVE',
+        nextBillingDate: '2025-01-15T10:00:00Z',
+        deliveryPolicy: { interval: 'WEEK', intervalCount: 2 },
+        billingPolicy: { interval: 'WEEK', intervalCount: 2, minCycles: null, maxCycles: 12 },
+        lines: { edges: lines },
+        customAttributes: [{ key: 'Pet Name', value: 'Rex' }],
+        originOrder: { id: 'gid://shopify/Order/555', name: '#1001' },
+        deliveryMethod: { address: { firstName: 'Jane', lastName: 'Smith', address1: '12 Bark Street', city: 'Sydney', countryCode: 'AU', zip: '2000' } },
+        customerPaymentMethod: { id: 'pm1', instrument: { brand: 'visa', lastDigits: '4242', expiryMonth: 12, expiryYear: 2026 } }
+      }, now);
+
+      expect(result.lines).toHaveLength(4);
+      expect(result.lines[3]).toMatchObject({
+        line_number: 4,
+        title: 'Premium Dog Food - Fish',
+        unit_price: { amount: '45.00', currency_code: 'AUD' },
+        line_price: { amount: '40.50', currency_code: 'AUD' }
+      });
+      expect(result.items_summary).toBe('Chicken, Beef, Lamb +1 more');
+      expect(result.billing_policy).toEqual({ interval: 'WEEK', interval_count: 2, min_cycles: undefined, max_cycles: 12 });
+      expect(result.origin_order).toEqual({ order_id: 555, order_name: '#1001' });
+      expect(result.custom_attributes).toEqual([{ key: 'Pet Name', value: 'Rex' }]);
+      expect(result.formatted_address).toBe('Jane Smith, 12 Bark Street, Sydney 2000, AU');
+      expect(result.payment_method.status).toBe('VALID');
+      expect(result.next_step_guidance.ask_customer).toBe(
+        'Your subscription includes: Chicken, Beef, Lamb, Fish. Your next delivery is on January 15, 2025.'
+      );
+    });
+
+    test('should warn when the card on file has expired', () => {
+      const result = toSubscriptionDetails({
+        id: 'gid://shopify/SubscriptionContract/123456789',
+        status: 'ACTIVE',
+        nextBillingDate: '2025-01-15T10:00:00Z',
+        customerPaymentMethod: { id: 'pm1', instrument: { expiryMonth: 11, expiryYear: 2024 } }
+      }, now);
+
+      expect(result.lines).toEqual([]);
+      expect(result.shipping_address).toBeNull();
+      expect(result.origin_order).toBeNull();
+      expect(result.next_step_guidance.ask_customer).toContain('The card on file is expired');
+    });
+  });
+
+  describe('failed payments', () => {
+    const pastOrders = (reason: string): Record<string, unknown> => ({
+      content: [
+        { id: 3003, billingDate: '2025-01-15T10:00:00Z', status: 'FAILURE', billingAttemptResponseMessage: reason, attemptCount: 2 },
+        { id: 3002, billingDate: '2025-01-01T10:00:00Z', status: 'SUCCESS', orderId: 555, orderName: '#1002' },
+        { id: 3001, billingDate: '2024-12-18T10:00:00Z', status: 'SKIPPED' }
+      ],
+      totalElements: 3,
+      size: 50,
+      number: 0
+    });
+
+    test('should only list failures and send card problems to a payment method update', () => {
+      const result = toFailedPayments(pastOrders('Your card was declined.'), 123456789);
+
+      expect(result.failed_payments).toEqual([
+        expect.objectContaining({
+          selection_number: 1,
+          order_id: 3003,
+          status: 'FAILURE',
+          failure_reason: 'Your card was declined.',
+          attempt_count: 2,
+          payment_method_issue: true
+        })
+      ]);
+      expect(result.payment_method_update_needed).toBe(true);
+      expect(result.next_step_guidance).toMatchObject({
+        next_tool: 'send_payment_update_email',
+        condition: 'PAYMENT_METHOD_UPDATE_NEEDED'
+      });
+    });
+
+    test('should offer a retry for failures not caused by the card', () => {
+      const result = toFailedPayments(pastOrders('Inventory not available'), 123456789);
+
+      expect(result.payment_method_update_needed).toBe(false);
+      expect(result.next_step_guidance).toMatchObject({
+        save_parameter: 'order_id',
+        next_tool: 'retry_billing_attempt',
+        condition: 'OFFER_RETRY'
+      });
+    });
+
+    test('should report when there are no failures', () => {
+      const result = toFailedPayments([], 123456789);
+
+      expect(result.failed_payments).toEqual([]);
+      expect(result.next_step_guidance.condition).toBe('COMPLETE');
+    });
+
+    test('should map retry outcomes', () => {
+      const success = mapRetryBillingResponse({ id: 3003, billingDate: '2025-01-15T10:00:00Z', status: 'SUCCESS', orderName: '#1003' });
+      expect(success.message).toBe('Payment succeeded');
+      expect(success.failure_reason).toBeUndefined();
+
+      const declined = mapRetryBillingResponse({
+        id: 3003,
+        billingDate: '2025-01-15T10:00:00Z',
+        status: 'FAILURE',
+        billingAttemptResponseMessage: 'Insufficient funds'
+      });
+      expect(declined.failure_reason).toBe('Insufficient funds');
+      expect(declined.next_step_guidance.condition).toBe('PAYMENT_METHOD_UPDATE_NEEDED');
+
+      const pending = mapRetryBillingResponse({ id: 3003, billingDate: '2025-01-15T10:00:00Z', status: 'REQUESTING' });
+      expect(pending.message).toBe('Payment retry in progress');
+    });
+  });
+
+  describe('mapPaymentEmailResponse', () => {
+    const sentAt = new Date('2025-01-15T10:00:00Z');
+
+    test('should tell the customer to check their inbox', () => {
+      const result = mapPaymentEmailResponse(123456789, sentAt, 60, true);
+
+      expect(result).toMatchObject({
+        subscription_contract_id: 123456789,
+        sent: true,
+        last_sent_at: '2025-01-15T10:00:00.000Z',
+        next_send_allowed_at: '2025-01-15T11:00:00.000Z',
+        message: 'Payment update email sent'
+      });
+      expect(result.next_step_guidance.ask_customer).toContain('check your inbox');
+    });
+
+    test('should not claim a new email was sent during the cooldown', () => {
+      const result = mapPaymentEmailResponse(123456789, sentAt, 60, false);
+
+      expect(result.sent).toBe(false);
+      expect(result.next_step_guidance.ask_customer).toContain("I haven't sent another one");
+    });
+  });
+
+  describe('customer identifiers', () => {
+    test('should accept numeric IDs, GIDs and emails', () => {
+      expect(normalizeCustomerIdentifier(123456)).toEqual({ type: 'ID', customerId: 123456 });
+      expect(normalizeCustomerIdentifier(' 789012 ')).toEqual({ type: 'ID', customerId: 789012 });
+      expect(normalizeCustomerIdentifier('gid://shopify/Customer/123456')).toEqual({ type: 'GID', customerId: 123456 });
+      expect(normalizeCustomerIdentifier(' Jane.Doe@Example.com ')).toEqual({ type: 'EMAIL', email: 'jane.doe@example.com' });
+    });
+
+    test('should reject other GIDs and malformed values', () => {
+      expect(() => normalizeCustomerIdentifier('gid://shopify/Order/123')).toThrow('Expected a Shopify Customer GID');
+      expect(() => normalizeCustomerIdentifier('jane@example')).toThrow('Email address is not valid');
+      expect(() => normalizeCustomerIdentifier('abc')).toThrow('Customer ID must be a positive integer');
+    });
+
+    test('should hand the numeric ID on to list_subscriptions_for_customer', () => {
+      const result = mapResolvedCustomer({ id: 123456, firstName: 'Jane' }, 'EMAIL');
+
+      expect(result).toMatchObject({
+        shopify_customer_id: 123456,
+        shopify_customer_gid: 'gid://shopify/Customer/123456',
+        resolved_from: 'EMAIL',
+        first_name: 'Jane'
+      });
+      expect(result.next_step_guidance).toMatchObject({
+        next_tool: 'list_subscriptions_for_customer',
+        save_parameter: 'shopify_customer_id',
+        condition: 'SKIP_CUSTOMER_CHOICE'
+      });
+    });
+  });
+
+  describe('order name lookup', () => {
+    const contract = {
+      id: 'gid://shopify/SubscriptionContract/123456789',
+      status: 'ACTIVE',
+      deliveryPolicy: { interval: 'WEEK', intervalCount: 2 }
+    };
+    const orders = [
+      { order_id: 2001, order_name: '#TGA1233', billing_date: '2025-01-01T10:00:00Z', status: 'SUCCESS' },
+      { order_id: 2002, order_name: '#TGA1234', billing_date: '2025-01-15T10:00:00Z', status: 'SUCCESS' }
+    ];
+
+    test('should match order names however the customer types them', () => {
+      expect(normalizeOrderName(' #tga 1234 ')).toBe('TGA1234');
+      expect(findOrderByName(orders, 'tga1234')?.order_id).toBe(2002);
+      expect(findOrderByName(orders, '#TGA9999')).toBeUndefined();
+    });
+
+    test('should hand a delivered order on with its subscription', () => {
+      const result = mapOrderLookup(contract, orders[1]);
+
+      expect(result).toMatchObject({
+        order_name: '#TGA1234',
+        subscription_contract_id: 123456789,
+        subscription_status: 'ACTIVE',
+        order: { order_id: 2002, status: 'SUCCESS' },
+        message: 'Found #TGA1234'
+      });
+      expect(result.next_step_guidance).toMatchObject({
+        save_parameter: 'subscription_contract_id',
+        condition: 'SKIP_CUSTOMER_CHOICE'
+      });
+    });
+
+    test('should route failed orders to the payment workflows', () => {
+      const declined = mapOrderLookup(contract, {
+        order_id: 2003,
+        order_name: '#TGA1235',
+        billing_date: '2025-01-29T10:00:00Z',
+        status: 'FAILURE',
+        failure_reason: 'Your card was declined.'
+      });
+      expect(declined.next_step_guidance.next_tool).toBe('send_payment_update_email');
+
+      const gatewayError = mapOrderLookup(contract, {
+        order_id: 2004,
+        order_name: '#TGA1236',
+        billing_date: '2025-01-29T10:00:00Z',
+        status: 'FAILURE',
+        failure_reason: 'Gateway timeout'
+      });
+      expect(gatewayError.next_step_guidance).toMatchObject({
+        next_tool: 'retry_billing_attempt',
+        save_parameter: 'order_id',
+        condition: 'OFFER_RETRY'
+      });
+    });
+  });
+
+  describe('skipping orders in a date range', () => {
+    const upcoming = [
+      { order_id: 3003, billing_date: '2025-08-22T10:00:00Z', status: 'QUEUED' },
+      { order_id: 3001, billing_date: '2025-08-01T10:00:00Z', status: 'QUEUED' },
+      { order_id: 3002, billing_date: '2025-08-15T10:00:00Z', status: 'SKIPPED' },
+      { order_id: 3000, billing_date: '2025-07-31T10:00:00Z', status: 'QUEUED' }
+    ];
+
+    test('should select orders on both boundary days, earliest first', () => {
+      const selected = selectOrdersInRange(upcoming, '2025-08-01', '2025-08-21');
+      expect(selected.map(order => order.order_id)).toEqual([3001, 3002]);
+    });
+
+    test('should place orders billed near midnight on the store\'s day', () => {
+      // 14:00Z on 1 August is midnight on 2 August in Sydney
+      const lateOrders = [{ order_id: 4001, billing_date: '2025-08-01T14:00:00Z', status: 'QUEUED' }];
+
+      expect(selectOrdersInRange(lateOrders, '2025-08-02', '2025-08-10', 'Australia/Sydney')).toHaveLength(1);
+      expect(selectOrdersInRange(lateOrders, '2025-07-25', '2025-08-01', 'Australia/Sydney')).toHaveLength(0);
+    });
+
+    test('should ask for confirmation before skipping', () => {
+      const result = mapRangeSkipResults(123456789, '2025-08-01', '2025-08-21', [
+        { order_id: 3001, billing_date: '2025-08-01T10:00:00Z', result: 'WOULD_SKIP', status: 'QUEUED' },
+        { order_id: 3002, billing_date: '2025-08-15T10:00:00Z', result: 'ALREADY_SKIPPED', status: 'SKIPPED' }
+      ], false);
+
+      expect(result.message).toBe('1 order to skip');
+      expect(result.next_step_guidance).toMatchObject({
+        next_tool: 'skip_orders_in_range',
+        condition: 'CONFIRM_SKIP_RANGE'
+      });
+      expect(result.next_step_guidance.ask_customer).toContain('August 1, 2025');
+    });
+
+    test('should name the dates that could not be skipped', () => {
+      const result = mapRangeSkipResults(123456789, '2025-08-01', '2025-08-31', [
+        { order_id: 3001, billing_date: '2025-08-01T10:00:00Z', result: 'SKIPPED', status: 'SKIPPED' },
+        { order_id: 3003, billing_date: '2025-08-22T10:00:00Z', result: 'FAILED', status: 'QUEUED', error: 'Server Error: Upstream timeout' }
+      ], true);
+
+      expect(result).toMatchObject({ skipped_count: 1, failed_count: 1, message: 'Skipped 1 of 2 orders' });
+      expect(result.next_step_guidance.condition).toBe('PARTIAL_FAILURE');
+      expect(result.next_step_guidance.ask_customer).toContain("couldn't skip the delivery on August 22, 2025");
+    });
+
+    test('should say when there is nothing to skip', () => {
+      const result = mapRangeSkipResults(123456789, '2025-09-01', '2025-09-07', [], true);
+
+      expect(result.message).toBe('No orders in range');
+      expect(result.next_step_guidance.condition).toBe('COMPLETE');
+    });
+  });
+
+  describe('mapMultiContractSkipResults', () => {
+    const subscription = (number: number, id: number, allergies?: string): Parameters<typeof mapMultiContractSkipResults>[1][number]['subscription'] => ({
+      subscription_contract_id: id,
+      subscription_contract_gid: `gid://shopify/SubscriptionContract/${id}`,
+      status: 'ACTIVE',
+      plan_name: '2 WEEKs',
+      next_billing_date: '2025-08-01T10:00:00Z',
+      can_skip_orders: true,
+      upcoming_orders_count: 1,
+      suggested_next_action: '',
+      subscription_number: number,
+      allergies,
+    });
+
+    test('should list every subscription with its differentiators before skipping', () => {
+      const result = mapMultiContractSkipResults(555, [
+        { subscription: subscription(1, 101, 'Chicken'), orders: [
+          { order_id: 1, billing_date: '2025-08-01T10:00:00Z', result: 'WOULD_SKIP', status: 'QUEUED' }
+        ] },
+        { subscription: subscription(2, 103), orders: [] }
+      ], false);
+
+      expect(result.subscriptions.map(sub => sub.result)).toEqual(['WOULD_SKIP', 'NOTHING_TO_SKIP']);
+      expect(result.next_step_guidance.condition).toBe('CONFIRM_SKIP_RANGE');
+      expect(result.next_step_guidance.ask_customer).toContain('1. Subscription ID 101 (Chicken): August 1, 2025');
+    });
+
+    test('should mark subscriptions with mixed outcomes as PARTIAL', () => {
+      const result = mapMultiContractSkipResults(555, [
+        { subscription: subscription(1, 101), orders: [
+          { order_id: 1, billing_date: '2025-08-01T10:00:00Z', result: 'SKIPPED', status: 'SKIPPED' },
+          { order_id: 2, billing_date: '2025-08-15T10:00:00Z', result: 'FAILED', status: 'QUEUED', error: 'Server Error: timeout' }
+        ] },
+        { subscription: subscription(2, 103), orders: [], error: 'Not Found: Contract not found' }
+      ], true);
+
+      expect(result.subscriptions.map(sub => sub.result)).toEqual(['PARTIAL', 'FAILED']);
+      expect(result).toMatchObject({ skipped_count: 1, failed_count: 2 });
+      expect(result.next_step_guidance.ask_customer).toContain('1. Subscription ID 101: August 15, 2025');
+      expect(result.next_step_guidance.ask_customer).toContain('2. Subscription ID 103');
+    });
+  });
+
+  describe('toSubscriptionTimeline', () => {
+    const now = new Date('2025-08-10T00:00:00Z');
+    const past = [
+      { order_id: 2003, billing_date: '2025-08-08T10:00:00Z', status: 'SKIPPED' },
+      { order_id: 2002, billing_date: '2025-08-01T10:00:00Z', status: 'SUCCESS', order_name: '#1042', shopify_order_id: 555 },
+      { order_id: 2001, billing_date: '2025-07-25T10:00:00Z', status: 'FAILURE', failure_reason: 'Card declined' },
+      { order_id: 2000, billing_date: '2025-01-03T10:00:00Z', status: 'SUCCESS' }
+    ];
+    const upcoming = [
+      { order_id: 2003, billing_date: '2025-08-08T10:00:00Z', status: 'QUEUED' },
+      { order_id: 2005, billing_date: '2025-08-22T10:00:00Z', status: 'QUEUED' },
+      { order_id: 2004, billing_date: '2025-08-15T10:00:00Z', status: 'SKIPPED' }
+    ];
+
+    test('should merge past and upcoming orders into one chronological list', () => {
+      const result = toSubscriptionTimeline(123456789, past, upcoming, { daysBefore: 90, daysAfter: 90 }, now);
+
+      expect(result.timeline.map(entry => [entry.order_id, entry.timeline_status, entry.is_past])).toEqual([
+        [2001, 'FAILED', true],
+        [2002, 'SHIPPED', true],
+        [2003, 'SKIPPED', true],
+        [2004, 'SKIPPED', false],
+        [2005, 'SCHEDULED', false]
+      ]);
+      expect(result.timeline[0].failure_reason).toBe('Card declined');
+      expect(result.last_shipped).toMatchObject({ order_id: 2002, order_name: '#1042' });
+      expect(result.next_scheduled?.order_id).toBe(2005);
+      expect(result.next_step_guidance.ask_customer).toBe(
+        'Your last delivery was billed on August 1, 2025 (order #1042). Your next delivery is scheduled for August 22, 2025.'
+      );
+    });
+
+    test('should only include orders inside the window', () => {
+      const result = toSubscriptionTimeline(123456789, past, upcoming, { daysBefore: 5, daysAfter: 7 }, now);
+
+      expect(result.timeline.map(entry => entry.order_id)).toEqual([2003, 2004]);
+      expect(result.window_start).toBe('2025-08-05T00:00:00.000Z');
+      expect(result.window_end).toBe('2025-08-17T00:00:00.000Z');
+      expect(result.last_shipped).toBeUndefined();
+      expect(result.next_step_guidance.ask_customer).toBe(
+        "I can't see a delivery in the last 5 days. There's no delivery scheduled in the next 7 days."
+      );
+    });
+  });
+});
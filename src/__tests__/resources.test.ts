@@ -0,0 +1,81 @@
+import { describe, test, expect, vi } from 'vitest';
+import { AppstleError } from '../appstle.js';
+import type { AppstleClient } from '../appstle.js';
+import { createResources } from '../resources.js';
+
+const customerContracts = {
+  subscriptionContracts: {
+    edges: [
+      {
+        node: {
+          id: 'gid://shopify/SubscriptionContract/101',
+          status: 'ACTIVE',
+          nextBillingDate: '2025-08-01T10:00:00Z',
+          deliveryPolicy: { interval: 'WEEK', intervalCount: 2 },
+          lines: { edges: [] }
+        }
+      },
+      {
+        node: {
+          id: 'gid://shopify/SubscriptionContract/102',
+          status: 'PAUSED',
+          deliveryPolicy: { interval: 'WEEK', intervalCount: 1 },
+          lines: { edges: [] }
+        }
+      },
+    ],
+    pageInfo: { hasNextPage: false }
+  }
+};
+
+const topOrders = [
+  { id: 3001, billingDate: '2025-08-01T10:00:00Z', status: 'QUEUED' },
+  { id: 3002, billingDate: '2025-08-15T10:00:00Z', status: 'SKIPPED' },
+];
+
+describe('resources', () => {
+  test('should publish a template per resource', () => {
+    const resources = createResources({} as AppstleClient);
+
+    expect(resources.listTemplates().map(template => template.uriTemplate)).toEqual([
+      'appstle://customer/{id}/subscriptions',
+      'appstle://contract/{id}/upcoming-orders',
+    ]);
+  });
+
+  test('should read a customer\'s subscriptions including paused ones', async () => {
+    const getSubscriptionCustomer = vi.fn().mockResolvedValue(customerContracts);
+    const resources = createResources({ getSubscriptionCustomer } as unknown as AppstleClient);
+
+    const contents = await resources.read('appstle://customer/7001/subscriptions', 'req-1');
+
+    expect(getSubscriptionCustomer).toHaveBeenCalledWith(7001, undefined, 'req-1');
+    expect(contents).toHaveLength(1);
+    expect(contents?.[0]).toMatchObject({ uri: 'appstle://customer/7001/subscriptions', mimeType: 'application/json' });
+
+    const data = JSON.parse(contents?.[0].text ?? '');
+    expect(data).toMatchObject({ active_subscription_count: 1, paused_subscription_count: 1 });
+    expect(data.next_step_guidance).toBeUndefined();
+  });
+
+  test('should read upcoming orders even when one-time items fail to load', async () => {
+    const client = {
+      getTopOrders: vi.fn().mockResolvedValue(topOrders),
+      getOneOffs: vi.fn().mockRejectedValue(new AppstleError(500, 'Server Error', 'Upstream timeout')),
+    } as unknown as AppstleClient;
+    const resources = createResources(client);
+
+    const contents = await resources.read('appstle://contract/101/upcoming-orders', 'req-2');
+
+    const data = JSON.parse(contents?.[0].text ?? '');
+    expect(data.upcoming.map((order: { order_id: number }) => order.order_id)).toEqual([3001, 3002]);
+    expect(data.next_step_guidance).toBeUndefined();
+  });
+
+  test('should return null for URIs that match no template', async () => {
+    const resources = createResources({} as AppstleClient);
+
+    await expect(resources.read('appstle://customer/abc/subscriptions', 'req-3')).resolves.toBeNull();
+    await expect(resources.read('https://example.test/customer/1/subscriptions', 'req-4')).resolves.toBeNull();
+  });
+});
@@ -3,7 +3,17 @@ import {
   ListSubscriptionsForCustomerInputSchema,
   ListUpcomingOrdersInputSchema,
   SkipOrderInputSchema,
+  SkipNextOrderInputSchema,
+  UnskipOrderInputSchema,
+  CancelSubscriptionInputSchema,
+  SwapLineVariantInputSchema,
+  UpdateSubscriptionPreferencesInputSchema,
+  UpdateShippingAddressInputSchema,
+  SkipOrdersInRangeInputSchema,
   ListSubscriptionsForCustomerOutputSchema,
+  RescheduleOrderInputSchema,
+  ResumeSubscriptionInputSchema,
+  isTodayOrLater,
 } from '../schemas.js';
 
 describe('schema validation', () => {
@@ -45,6 +55,19 @@ describe('schema validation', () => {
           shopify_customer_id: 'not-a-number'
         });
       }).toThrow();
+        });
+
+    test('should accept a Shopify Customer GID', () => {
+      const result = ListSubscriptionsForCustomerInputSchema.parse({
+        shopify_customer_id: 'gid://shopify/Customer/123456789'
+      });
+      expect(result.shopify_customer_id).toBe('gid://shopify/Customer/123456789');
+
+      expect(() => {
+        ListSubscriptionsForCustomerInputSchema.parse({
+          shopify_customer_id: 'gid://shopify/Order/123456789'
+        });
+      }).toThrow();
     });
   });
 
@@ -92,6 +115,145 @@ describe('schema validation', () => {
     });
   });
 
+  describe('SkipNextOrderInputSchema', () => {
+    test('should validate contract ID', () => {
+      const result = SkipNextOrderInputSchema.parse({ subscription_contract_id: 789012 });
+      expect(result).toEqual({ subscription_contract_id: 789012, confirm_skip: false });
+    });
+
+    test('should only preview a multi-contract skip unless confirmed', () => {
+      expect(SkipNextOrderInputSchema.parse({ shopify_customer_id: 123456789 }).confirm_skip).toBe(false);
+      expect(SkipNextOrderInputSchema.parse({ shopify_customer_id: 123456789, confirm_skip: true }).confirm_skip).toBe(true);
+    });
+
+    test('should reject missing contract ID', () => {
+      expect(() => {
+        SkipNextOrderInputSchema.parse({});
+      }).toThrow();
+    });
+  });
+
+  describe('UnskipOrderInputSchema', () => {
+    test('should validate with optional contract ID', () => {
+      const validInput = {
+        order_id: 123456,
+        subscription_contract_id: 789012
+      };
+
+      const result = UnskipOrderInputSchema.parse(validInput);
+      expect(result).toEqual(validInput);
+    });
+
+    test('should reject missing order ID', () => {
+      expect(() => {
+        UnskipOrderInputSchema.parse({ subscription_contract_id: 789012 });
+      }).toThrow();
+    });
+  });
+
+  describe('CancelSubscriptionInputSchema', () => {
+    test('should default to an unconfirmed cancellation', () => {
+      const result = CancelSubscriptionInputSchema.parse({
+        subscription_contract_id: 789012,
+        cancellation_reason: 'TOO_MUCH_FOOD'
+      });
+
+      expect(result).toEqual({
+        subscription_contract_id: 789012,
+        cancellation_reason: 'TOO_MUCH_FOOD',
+        alternatives_declined: false,
+        confirm_cancellation: false
+      });
+    });
+
+    test('should reject reasons outside the fixed list', () => {
+      expect(() => {
+        CancelSubscriptionInputSchema.parse({
+          subscription_contract_id: 789012,
+          cancellation_reason: 'BORED'
+        });
+      }).toThrow();
+    });
+  });
+
+  describe('SwapLineVariantInputSchema', () => {
+    test('should accept numeric and GID variant IDs', () => {
+      const base = {
+        subscription_contract_id: 789012,
+        line_id: 'gid://shopify/SubscriptionLine/abc-123'
+      };
+
+      expect(SwapLineVariantInputSchema.parse({ ...base, new_variant_id: 111 }).new_variant_id).toBe(111);
+      expect(SwapLineVariantInputSchema.parse({ ...base, new_variant_id: 'gid://shopify/ProductVariant/111' }).new_variant_id)
+        .toBe('gid://shopify/ProductVariant/111');
+    });
+
+    test('should reject line IDs that are not subscription line GIDs', () => {
+      expect(() => {
+        SwapLineVariantInputSchema.parse({
+          subscription_contract_id: 789012,
+          line_id: '1',
+          new_variant_id: 111
+        });
+      }).toThrow();
+    });
+  });
+
+  describe('UpdateSubscriptionPreferencesInputSchema', () => {
+    test('should accept clearing values with null and an empty list', () => {
+      const result = UpdateSubscriptionPreferencesInputSchema.parse({
+        subscription_contract_id: 789012,
+        protein_substitution: null,
+        allergies: []
+      });
+
+      expect(result.protein_substitution).toBeNull();
+      expect(result.allergies).toEqual([]);
+    });
+
+    test('should require at least one preference', () => {
+      expect(() => {
+        UpdateSubscriptionPreferencesInputSchema.parse({ subscription_contract_id: 789012 });
+      }).toThrow('Provide protein_substitution, allergies, or both');
+    });
+  });
+
+  describe('UpdateShippingAddressInputSchema', () => {
+    const address = {
+      first_name: 'Jane',
+      last_name: 'Smith',
+      address1: '12 Bark Street',
+      city: 'Sydney',
+      country_code: 'AU',
+      zip: '2000'
+    };
+
+    test('should default to a preview without confirm_update', () => {
+      const result = UpdateShippingAddressInputSchema.parse({
+        subscription_contract_id: 789012,
+        shipping_address: address
+      });
+
+      expect(result.confirm_update).toBe(false);
+    });
+
+    test('should reject incomplete addresses and invalid country codes', () => {
+      expect(() => {
+        UpdateShippingAddressInputSchema.parse({
+          subscription_contract_id: 789012,
+          shipping_address: { ...address, address1: '  ' }
+        });
+      }).toThrow();
+
+      expect(() => {
+        UpdateShippingAddressInputSchema.parse({
+          subscription_contract_id: 789012,
+          shipping_address: { ...address, country_code: 'Australia' }
+        });
+      }).toThrow('country_code must be a 2-letter ISO code');
+    });
+  });
+
   describe('ListSubscriptionsForCustomerOutputSchema', () => {
     test('should validate valid output', () => {
       const validOutput = {
@@ -165,4 +327,73 @@ describe('schema validation', () => {
       }).toThrow();
     });
   });
-});
\ No newline at end of file
+
+  describe('SkipOrdersInRangeInputSchema', () => {
+    test('should default to a preview', () => {
+      const result = SkipOrdersInRangeInputSchema.parse({
+        subscription_contract_id: 123456789,
+        start_date: '2025-08-01',
+        end_date: '2025-08-21'
+      });
+      expect(result.confirm_skip).toBe(false);
+    });
+
+    test('should reject reversed or malformed ranges', () => {
+      expect(() => SkipOrdersInRangeInputSchema.parse({
+        subscription_contract_id: 123456789,
+        start_date: '2025-08-21',
+        end_date: '2025-08-01'
+      })).toThrow('end_date must be on or after start_date');
+
+      expect(() => SkipOrdersInRangeInputSchema.parse({
+        subscription_contract_id: 123456789,
+        start_date: '1 August',
+        end_date: '2025-08-21'
+      })).toThrow();
+    });
+
+    test('should take exactly one of subscription_contract_id and shopify_customer_id', () => {
+      expect(SkipOrdersInRangeInputSchema.parse({
+        shopify_customer_id: 'gid://shopify/Customer/555',
+        start_date: '2025-08-01',
+        end_date: '2025-08-21'
+      }).shopify_customer_id).toBe('gid://shopify/Customer/555');
+
+      expect(() => SkipOrdersInRangeInputSchema.parse({
+        subscription_contract_id: 123456789,
+        shopify_customer_id: 555,
+        start_date: '2025-08-01',
+        end_date: '2025-08-21'
+      })).toThrow('Provide either subscription_contract_id or shopify_customer_id');
+
+      expect(() => SkipOrdersInRangeInputSchema.parse({
+        start_date: '2025-08-01',
+        end_date: '2025-08-21'
+      })).toThrow('Provide either subscription_contract_id or shopify_customer_id');
+    });
+  });
+
+  describe('dates that must not be in the past', () => {
+    // 2025-08-01T15:00:00Z is already August 2 in Sydney
+    const now = new Date('2025-08-01T15:00:00Z');
+
+    test('should compare date-only values with today in the store timezone', () => {
+      expect(isTodayOrLater('2025-08-02', now, 'Australia/Sydney')).toBe(true);
+      expect(isTodayOrLater('2025-08-01', now, 'Australia/Sydney')).toBe(false);
+      expect(isTodayOrLater('2025-08-01', now, 'America/New_York')).toBe(true);
+    });
+
+    test('should compare full datetimes with the current time', () => {
+      expect(isTodayOrLater('2025-08-01T15:30:00Z', now)).toBe(true);
+      expect(isTodayOrLater('2025-08-01T14:30:00Z', now)).toBe(false);
+    });
+
+    test('should accept today as a reschedule or resume date', () => {
+      const today = new Intl.DateTimeFormat('en-CA', { timeZone: 'Australia/Sydney', year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date());
+
+      expect(RescheduleOrderInputSchema.safeParse({ order_id: 1, subscription_contract_id: 2, new_billing_date: today }).success).toBe(true);
+      expect(ResumeSubscriptionInputSchema.safeParse({ subscription_contract_id: 2, resume_date: today }).success).toBe(true);
+      expect(ResumeSubscriptionInputSchema.safeParse({ subscription_contract_id: 2, resume_date: '2020-01-01' }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, test, expect, vi } from 'vitest';
+import { PassThrough } from 'node:stream';
+import type { McpServerDefinition } from '../dispatcher.js';
+import { StdioMcpTransport } from '../stdio.js';
+
+function createServer(): McpServerDefinition {
+  return {
+    tools: {
+      echo_tool: vi.fn().mockImplementation(async (input: unknown) => ({ echoed: input })),
+    },
+    listTools: () => [{ name: 'echo_tool', inputSchema: { type: 'object' } }],
+  };
+}
+
+// Feed the given lines through the transport and collect every line written to stdout
+async function run(lines: string[]): Promise<unknown[]> {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const written: string[] = [];
+  output.on('data', chunk => written.push(String(chunk)));
+
+  const done = new StdioMcpTransport(createServer(), input, output).start();
+  input.end(lines.map(line => `${line}\n`).join(''));
+  await done;
+
+  return written.join('').split('\n').filter(line => line.length > 0).map(line => JSON.parse(line));
+}
+
+describe('StdioMcpTransport', () => {
+  test('should answer requests with one JSON-RPC message per line', async () => {
+    const messages = await run([
+      JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+      JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+      JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'echo_tool', arguments: { a: 1 } } }),
+    ]);
+
+    expect(messages).toHaveLength(2);
+    expect(messages).toContainEqual({
+      jsonrpc: '2.0',
+      id: 1,
+      result: { tools: [{ name: 'echo_tool', inputSchema: { type: 'object' } }] }
+    });
+    expect(messages).toContainEqual({
+      jsonrpc: '2.0',
+      id: 2,
+      result: { content: [{ type: 'text', text: JSON.stringify({ echoed: { a: 1 } }, null, 2) }] }
+    });
+  });
+
+  test('should report unparseable lines and keep reading', async () => {
+    const messages = await run([
+      'not json',
+      '',
+      JSON.stringify({ jsonrpc: '2.0', id: 3, method: 'unknown/method' }),
+    ]);
+
+    expect(messages).toEqual([
+      { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } },
+      expect.objectContaining({ id: 3, error: expect.objectContaining({ code: -32601 }) }),
+    ]);
+  });
+
+  test('should reply to a batch with a single array', async () => {
+    const messages = await run([
+      JSON.stringify([
+        { jsonrpc: '2.0', id: 4, method: 'tools/list' },
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+      ]),
+    ]);
+
+    expect(messages).toEqual([[expect.objectContaining({ id: 4 })]]);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, test, expect } from 'vitest';
+import { atStoreTimeOfDay, toBillingDateTime, toStoreDate } from '../store-dates.js';
+
+describe('store dates', () => {
+  test('should read an instant as a day on the store calendar', () => {
+    expect(toStoreDate('2025-08-01T14:00:00Z', 'Australia/Sydney')).toBe('2025-08-02');
+    expect(toStoreDate('2025-08-01T02:00:00Z', 'America/Los_Angeles')).toBe('2025-07-31');
+  });
+
+  test('should keep the local billing time when moving to another store day', () => {
+    expect(atStoreTimeOfDay('2025-08-06', '2025-08-01T14:00:00Z', 'Australia/Sydney')).toBe('2025-08-05T14:00:00Z');
+    expect(atStoreTimeOfDay('2025-08-06', '2025-08-01T02:00:00Z', 'America/Los_Angeles')).toBe('2025-08-07T02:00:00Z');
+  });
+
+  test('should keep the local billing time across a daylight saving change', () => {
+    // 09:00 AEST (UTC+10) in September is 09:00 AEDT (UTC+11) in October
+    expect(atStoreTimeOfDay('2025-10-20', '2025-09-01T23:00:00Z', 'Australia/Sydney')).toBe('2025-10-19T22:00:00Z');
+  });
+
+  test('should use a full datetime as given', () => {
+    expect(toBillingDateTime('2025-08-06T09:30:00+10:00', '2025-08-01T14:00:00Z', 'Australia/Sydney')).toBe('2025-08-05T23:30:00.000Z');
+  });
+});
@@ -0,0 +1,539 @@
+import { describe, test, expect, vi } from 'vitest';
+import { AppstleError } from '../appstle.js';
+import type { AppstleClient } from '../appstle.js';
+import { createToolConfig } from '../config.js';
+import { createTools } from '../tools.js';
+
+const topOrders = [
+  { id: 3001, billingDate: '2025-08-01T10:00:00Z', status: 'QUEUED' },
+  { id: 3002, billingDate: '2025-08-08T10:00:00Z', status: 'QUEUED' },
+  { id: 3003, billingDate: '2025-08-15T10:00:00Z', status: 'SKIPPED' },
+  { id: 3004, billingDate: '2025-09-01T10:00:00Z', status: 'QUEUED' },
+];
+
+function createClient(skipBillingAttempt: AppstleClient['skipBillingAttempt']): AppstleClient {
+  return {
+    getTopOrders: vi.fn().mockResolvedValue(topOrders),
+    skipBillingAttempt,
+  } as unknown as AppstleClient;
+}
+
+function contractNode(id: number, status: string, allergies?: string): Record<string, unknown> {
+  return {
+    id: `gid://shopify/SubscriptionContract/${id}`,
+    status,
+    nextBillingDate: '2025-08-01T10:00:00Z',
+    deliveryPolicy: { interval: 'WEEK', intervalCount: 2 },
+    lines: {
+      edges: [{
+        node: {
+          id: `gid://shopify/SubscriptionLine/${id}`,
+          quantity: 1,
+          variantTitle: 'Beef',
+          customAttributes: allergies ? [{ key: 'Allergies', value: allergies }] : []
+        }
+      }]
+    }
+  };
+}
+
+const customerContracts = {
+  subscriptionContracts: {
+    edges: [
+      { node: contractNode(101, 'ACTIVE', 'Chicken') },
+      { node: contractNode(102, 'PAUSED') },
+      { node: contractNode(103, 'ACTIVE', 'Dairy') },
+      { node: contractNode(104, 'ACTIVE') },
+    ],
+    pageInfo: { hasNextPage: false }
+  }
+};
+
+describe('tools', () => {
+  describe('skip_orders_in_range', () => {
+    const input = { subscription_contract_id: 123456789, start_date: '2025-08-01', end_date: '2025-08-21' };
+
+    test('should only preview without confirm_skip', async () => {
+      const skipBillingAttempt = vi.fn();
+      const tools = createTools(createClient(skipBillingAttempt), createToolConfig({}), undefined);
+
+      const result = await tools.skip_orders_in_range(input, 'req-1');
+
+      expect(skipBillingAttempt).not.toHaveBeenCalled();
+      expect(result.results.map(entry => entry.result)).toEqual(['WOULD_SKIP', 'WOULD_SKIP', 'ALREADY_SKIPPED']);
+    });
+
+    test('should report each order when some skips fail', async () => {
+      const skipBillingAttempt = vi.fn()
+        .mockResolvedValueOnce({ id: 3001, billingDate: '2025-08-01T10:00:00Z', status: 'SKIPPED' })
+        .mockRejectedValueOnce(new AppstleError(500, 'Server Error', 'Upstream timeout'));
+      const tools = createTools(createClient(skipBillingAttempt), createToolConfig({}), undefined);
+
+      const result = await tools.skip_orders_in_range({ ...input, confirm_skip: true }, 'req-2');
+
+      expect(skipBillingAttempt).toHaveBeenCalledTimes(2);
+      expect(result.results).toEqual([
+        { order_id: 3001, billing_date: '2025-08-01T10:00:00Z', result: 'SKIPPED', status: 'SKIPPED' },
+        { order_id: 3002, billing_date: '2025-08-08T10:00:00Z', result: 'FAILED', status: 'QUEUED', error: 'Server Error: Upstream timeout' },
+        { order_id: 3003, billing_date: '2025-08-15T10:00:00Z', result: 'ALREADY_SKIPPED', status: 'SKIPPED' },
+      ]);
+      expect(result.failed_count).toBe(1);
+      expect(result.next_step_guidance.condition).toBe('PARTIAL_FAILURE');
+    });
+  });
+
+  describe('multi-contract skips', () => {
+    test('should list the next order of every ACTIVE subscription before skipping', async () => {
+      const skipUpcomingOrderForContract = vi.fn();
+      const client = {
+        getSubscriptionCustomer: vi.fn().mockResolvedValue(customerContracts),
+        getTopOrders: vi.fn().mockResolvedValue([
+          { id: 2, billingDate: '2025-08-15T10:00:00Z', status: 'QUEUED' },
+          { id: 1, billingDate: '2025-08-01T10:00:00Z', status: 'SKIPPED' },
+          { id: 3, billingDate: '2025-08-29T10:00:00Z', status: 'QUEUED' },
+        ]),
+        skipUpcomingOrderForContract,
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({}), undefined);
+
+      const result = await tools.skip_next_order({ shopify_customer_id: 555 }, 'req-26');
+
+      expect(skipUpcomingOrderForContract).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ confirmed: false, skipped_count: 0 });
+      expect(result.subscriptions[0]).toMatchObject({
+        result: 'WOULD_SKIP',
+        orders: [{ order_id: 2, billing_date: '2025-08-15T10:00:00Z', result: 'WOULD_SKIP', status: 'QUEUED' }]
+      });
+      expect(result.next_step_guidance).toMatchObject({ next_tool: 'skip_next_order', condition: 'CONFIRM_SKIP_NEXT' });
+    });
+
+    test('should skip the next order of every ACTIVE subscription and report failures per subscription', async () => {
+      const skipUpcomingOrderForContract = vi.fn().mockImplementation(async (contractId: number) => {
+        if (contractId === 103) {
+          throw new AppstleError(409, 'Conflict', 'Order already processed');
+        }
+        return { id: contractId * 10, billingDate: '2025-08-01T10:00:00Z', status: 'SKIPPED' };
+      });
+      const client = {
+        getSubscriptionCustomer: vi.fn().mockResolvedValue(customerContracts),
+        skipUpcomingOrderForContract,
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({}), undefined);
+
+      const result = await tools.skip_next_order({ shopify_customer_id: 'gid://shopify/Customer/555', confirm_skip: true }, 'req-3');
+
+      expect(skipUpcomingOrderForContract).toHaveBeenCalledTimes(3);
+      expect(result).toMatchObject({
+        shopify_customer_id: 555,
+        skipped_count: 2,
+        failed_count: 1,
+        subscriptions: [
+          { subscription_number: 1, subscription_contract_id: 101, allergies: 'Chicken', result: 'SKIPPED' },
+          { subscription_number: 2, subscription_contract_id: 103, allergies: 'Dairy', result: 'FAILED', error: 'Conflict: Order already processed' },
+          { subscription_number: 3, subscription_contract_id: 104, result: 'SKIPPED' },
+        ]
+      });
+      expect(result.next_step_guidance.condition).toBe('PARTIAL_FAILURE');
+    });
+
+    test('should skip nothing when the customer has more subscriptions than can be read', async () => {
+      const skipUpcomingOrderForContract = vi.fn();
+      const client = {
+        getSubscriptionCustomer: vi.fn().mockResolvedValue({
+          subscriptionContracts: { ...customerContracts.subscriptionContracts, pageInfo: { hasNextPage: true, endCursor: 'next' } }
+        }),
+        skipUpcomingOrderForContract,
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({}), undefined);
+
+      await expect(tools.skip_next_order({ shopify_customer_id: 555, confirm_skip: true }, 'req-27'))
+        .rejects.toMatchObject({ statusCode: 409, title: 'Too Many Subscriptions' });
+      expect(skipUpcomingOrderForContract).not.toHaveBeenCalled();
+    });
+
+    test('should limit how many subscriptions are updated at once', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const skipUpcomingOrderForContract = vi.fn().mockImplementation(async (contractId: number) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return { id: contractId * 10, billingDate: '2025-08-01T10:00:00Z', status: 'SKIPPED' };
+      });
+      const client = {
+        getSubscriptionCustomer: vi.fn().mockResolvedValue(customerContracts),
+        skipUpcomingOrderForContract,
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({ MULTI_CONTRACT_CONCURRENCY: '2' }), undefined);
+
+      const result = await tools.skip_next_order({ shopify_customer_id: 555, confirm_skip: true }, 'req-4');
+
+      expect(result.skipped_count).toBe(3);
+      expect(maxInFlight).toBe(2);
+    });
+  });
+
+  describe('get_customer_overview', () => {
+    test('should combine subscriptions and their next orders into one selection map', async () => {
+      const getTopOrders = vi.fn().mockImplementation(async (contractId: number) => {
+        if (contractId === 104) {
+          throw new AppstleError(503, 'Service Unavailable', 'Try again later');
+        }
+        return [
+          { id: contractId * 10 + 2, billingDate: '2025-08-15T10:00:00Z', status: 'QUEUED' },
+          { id: contractId * 10 + 1, billingDate: '2025-08-01T10:00:00Z', status: 'QUEUED' },
+        ];
+      });
+      const client = {
+        getSubscriptionCustomer: vi.fn().mockResolvedValue(customerContracts),
+        getTopOrders,
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({}), undefined);
+
+      const result = await tools.get_customer_overview({ shopify_customer_id: 555 }, 'req-5');
+
+      // Paused subscriptions are listed but their orders are not fetched
+      expect(getTopOrders).toHaveBeenCalledTimes(3);
+      expect(result).toMatchObject({ active_subscription_count: 3, paused_subscription_count: 1 });
+      expect(result.selection_map).toEqual([
+        { selection_number: 1, order_id: 1011, billing_date: '2025-08-01T10:00:00Z', status: 'QUEUED', subscription_contract_id: 101, subscription_number: 1 },
+        { selection_number: 2, order_id: 1012, billing_date: '2025-08-15T10:00:00Z', status: 'QUEUED', subscription_contract_id: 101, subscription_number: 1 },
+        { selection_number: 3, order_id: 1031, billing_date: '2025-08-01T10:00:00Z', status: 'QUEUED', subscription_contract_id: 103, subscription_number: 3 },
+        { selection_number: 4, order_id: 1032, billing_date: '2025-08-15T10:00:00Z', status: 'QUEUED', subscription_contract_id: 103, subscription_number: 3 },
+      ]);
+      expect(result.subscriptions[3]).toMatchObject({
+        subscription_contract_id: 104,
+        upcoming_orders: [],
+        upcoming_orders_error: 'Service Unavailable: Try again later'
+      });
+      expect(result.next_step_guidance.ask_customer).toContain('1. August 1, 2025 - Subscription ID 101 (Chicken)');
+      expect(result.subscriptions_truncated).toBe(false);
+    });
+
+    test('should flag an overview that stopped at the page limit', async () => {
+      const getSubscriptionCustomer = vi.fn().mockResolvedValue({
+        subscriptionContracts: { edges: [{ node: contractNode(102, 'PAUSED') }], pageInfo: { hasNextPage: true, endCursor: 'next' } }
+      });
+      const tools = createTools({ getSubscriptionCustomer } as unknown as AppstleClient, createToolConfig({}), undefined);
+
+      const result = await tools.get_customer_overview({ shopify_customer_id: 555 }, 'req-28');
+
+      expect(getSubscriptionCustomer).toHaveBeenCalledTimes(5);
+      expect(result.subscriptions_truncated).toBe(true);
+      expect(result.next_step_guidance.ask_customer).toContain('I could only load some of your subscriptions');
+    });
+  });
+
+  describe('retry_billing_attempt', () => {
+    test('should not charge again when the outcome of the charge is unknown', async () => {
+      const retryBillingAttempt = vi.fn().mockRejectedValue(new AppstleError(504, 'Service Unavailable', 'Gateway Timeout'));
+      const client = {
+        getPastOrders: vi.fn().mockResolvedValue([
+          { id: 3003, billingDate: '2025-01-15T10:00:00Z', status: 'FAILURE', billingAttemptResponseMessage: 'Gateway error' },
+        ]),
+        retryBillingAttempt,
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({}), undefined);
+
+      const result = await tools.retry_billing_attempt({ subscription_contract_id: 123456789, order_id: 3003 }, 'req-6');
+
+      expect(retryBillingAttempt).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({ order_id: 3003, status: 'UNKNOWN' });
+      expect(result.next_step_guidance).toMatchObject({ next_tool: 'list_failed_payments', condition: 'OUTCOME_UNKNOWN' });
+    });
+  });
+
+  describe('add_one_time_item', () => {
+    const input = { subscription_contract_id: 123456789, order_id: 3001, variant_id: 555, quantity: 1 };
+    const timeout = new AppstleError(504, 'Service Unavailable', 'Gateway Timeout');
+
+    test('should report the item as added when the order shows it after a timeout', async () => {
+      const addOneOff = vi.fn().mockRejectedValue(timeout);
+      const client = {
+        getTopOrders: vi.fn().mockResolvedValue(topOrders),
+        addOneOff,
+        getOneOffs: vi.fn().mockResolvedValue([{ billingAttemptId: 3001, variantId: 555, variantTitle: 'Treats', quantity: 1 }]),
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({}), undefined);
+
+      const result = await tools.add_one_time_item(input, 'req-23');
+
+      expect(addOneOff).toHaveBeenCalledTimes(1);
+      expect(result.one_time_items).toEqual([{ title: 'Treats', quantity: 1, purchase_type: 'ONE_TIME' }]);
+      expect(result.next_step_guidance.condition).toBe('COMPLETE');
+    });
+
+    test('should report an unknown outcome when the order cannot be checked', async () => {
+      const client = {
+        getTopOrders: vi.fn().mockResolvedValue(topOrders),
+        addOneOff: vi.fn().mockRejectedValue(timeout),
+        getOneOffs: vi.fn().mockRejectedValue(timeout),
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({}), undefined);
+
+      const result = await tools.add_one_time_item(input, 'req-24');
+
+      expect(result.next_step_guidance).toMatchObject({ next_tool: 'list_upcoming_orders', condition: 'OUTCOME_UNKNOWN' });
+    });
+
+    test('should return the error when the order does not show the item', async () => {
+      const client = {
+        getTopOrders: vi.fn().mockResolvedValue(topOrders),
+        addOneOff: vi.fn().mockRejectedValue(timeout),
+        getOneOffs: vi.fn().mockResolvedValue([]),
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({}), undefined);
+
+      await expect(tools.add_one_time_item(input, 'req-25')).rejects.toMatchObject({ statusCode: 504 });
+    });
+  });
+
+  describe('send_payment_update_email', () => {
+    const input = { subscription_contract_id: 123456789 };
+
+    test('should send one email when two requests arrive together', async () => {
+      let finishSend: (value: unknown) => void = () => undefined;
+      const sendPaymentMethodUpdateEmail = vi.fn().mockImplementation(() => new Promise(resolve => { finishSend = resolve; }));
+      const tools = createTools({ sendPaymentMethodUpdateEmail } as unknown as AppstleClient, createToolConfig({}), undefined);
+
+      const first = tools.send_payment_update_email(input, 'req-15');
+      const second = await tools.send_payment_update_email(input, 'req-16');
+      finishSend({});
+
+      expect(second.sent).toBe(false);
+      expect((await first).sent).toBe(true);
+      expect(sendPaymentMethodUpdateEmail).toHaveBeenCalledTimes(1);
+    });
+
+    test('should keep the cooldown when the outcome of the send is unknown', async () => {
+      const sendPaymentMethodUpdateEmail = vi.fn().mockRejectedValue(new AppstleError(504, 'Service Unavailable', 'Gateway Timeout'));
+      const tools = createTools({ sendPaymentMethodUpdateEmail } as unknown as AppstleClient, createToolConfig({}), undefined);
+
+      await expect(tools.send_payment_update_email(input, 'req-17')).rejects.toMatchObject({ statusCode: 504 });
+      await expect(tools.send_payment_update_email(input, 'req-18')).resolves.toMatchObject({ sent: false });
+      expect(sendPaymentMethodUpdateEmail).toHaveBeenCalledTimes(1);
+    });
+
+    test('should apply the cooldown from a last_sent_at that another instance returned', async () => {
+      const sendPaymentMethodUpdateEmail = vi.fn().mockResolvedValue({});
+      const tools = createTools({ sendPaymentMethodUpdateEmail } as unknown as AppstleClient, createToolConfig({}), undefined);
+      const lastSentAt = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+
+      const result = await tools.send_payment_update_email({ ...input, last_sent_at: lastSentAt }, 'req-21');
+
+      expect(result).toMatchObject({ sent: false, last_sent_at: lastSentAt });
+      expect(sendPaymentMethodUpdateEmail).not.toHaveBeenCalled();
+    });
+
+    test('should ignore a last_sent_at in the future', async () => {
+      const sendPaymentMethodUpdateEmail = vi.fn().mockResolvedValue({});
+      const tools = createTools({ sendPaymentMethodUpdateEmail } as unknown as AppstleClient, createToolConfig({}), undefined);
+
+      const result = await tools.send_payment_update_email({ ...input, last_sent_at: '2099-01-01T00:00:00Z' }, 'req-22');
+
+      expect(result.sent).toBe(true);
+      expect(result.next_step_guidance.save_parameter).toBe('last_sent_at');
+    });
+
+    test('should allow another attempt when Appstle rejects the send', async () => {
+      const sendPaymentMethodUpdateEmail = vi.fn()
+        .mockRejectedValueOnce(new AppstleError(400, 'Bad Request', 'Contract has no payment method'))
+        .mockResolvedValueOnce({});
+      const tools = createTools({ sendPaymentMethodUpdateEmail } as unknown as AppstleClient, createToolConfig({}), undefined);
+
+      await expect(tools.send_payment_update_email(input, 'req-19')).rejects.toMatchObject({ statusCode: 400 });
+      await expect(tools.send_payment_update_email(input, 'req-20')).resolves.toMatchObject({ sent: true });
+    });
+  });
+
+  describe('cancel_subscription', () => {
+    const input = { subscription_contract_id: 123456789, cancellation_reason: 'TOO_EXPENSIVE', confirm_cancellation: true };
+
+    test('should offer alternatives instead of cancelling when they were not declined', async () => {
+      const cancelSubscription = vi.fn();
+      const tools = createTools({ cancelSubscription } as unknown as AppstleClient, createToolConfig({}), undefined);
+
+      const result = await tools.cancel_subscription(input, 'req-7');
+
+      expect(cancelSubscription).not.toHaveBeenCalled();
+      expect(result.cancelled).toBe(false);
+      expect(result.retention_offers?.length).toBeGreaterThan(0);
+      expect(result.next_step_guidance.condition).toBe('OFFER_ALTERNATIVES');
+    });
+
+    test('should cancel once alternatives were declined and the customer confirmed', async () => {
+      const cancelSubscription = vi.fn().mockResolvedValue({ id: 'gid://shopify/SubscriptionContract/123456789', status: 'CANCELLED' });
+      const tools = createTools({ cancelSubscription } as unknown as AppstleClient, createToolConfig({}), undefined);
+
+      const result = await tools.cancel_subscription({ ...input, alternatives_declined: true }, 'req-8');
+
+      expect(cancelSubscription).toHaveBeenCalledTimes(1);
+      expect(result.cancelled).toBe(true);
+    });
+  });
+
+  describe('pause_subscription / resume_subscription', () => {
+    const contractGid = 'gid://shopify/SubscriptionContract/123456789';
+
+    test('should refuse to resume a subscription that is not paused', async () => {
+      const updateContractStatus = vi.fn();
+      const client = {
+        getSubscriptionContract: vi.fn().mockResolvedValue({ id: contractGid, status: 'CANCELLED' }),
+        updateContractStatus,
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({}), undefined);
+
+      await expect(tools.resume_subscription({ subscription_contract_id: 123456789 }, 'req-9'))
+        .rejects.toMatchObject({ statusCode: 409, title: 'Subscription Not Paused' });
+      expect(updateContractStatus).not.toHaveBeenCalled();
+    });
+
+    test('should report the status the contract actually had', async () => {
+      const client = {
+        getSubscriptionContract: vi.fn().mockResolvedValue({ id: contractGid, status: 'ACTIVE' }),
+        updateContractStatus: vi.fn().mockResolvedValue({ id: contractGid, status: 'PAUSED' }),
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({}), undefined);
+
+      const result = await tools.pause_subscription({ subscription_contract_id: 123456789 }, 'req-10');
+
+      expect(result).toMatchObject({ previous_status: 'ACTIVE', status: 'PAUSED' });
+    });
+
+    test('should move the resume date in the store timezone before activating', async () => {
+      const calls: string[] = [];
+      const updateNextBillingDate = vi.fn().mockImplementation(async () => { calls.push('date'); });
+      const client = {
+        getSubscriptionContract: vi.fn().mockResolvedValue({ id: contractGid, status: 'PAUSED', nextBillingDate: '2025-08-01T14:00:00Z' }),
+        updateNextBillingDate,
+        updateContractStatus: vi.fn().mockImplementation(async () => {
+          calls.push('status');
+          return { id: contractGid, status: 'ACTIVE', nextBillingDate: '2099-08-31T14:00:00Z' };
+        }),
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({}), undefined);
+
+      const result = await tools.resume_subscription({ subscription_contract_id: 123456789, resume_date: '2099-09-01' }, 'req-11');
+
+      // 14:00Z is midnight in Sydney, so 1 September there is 31 August in UTC
+      expect(updateNextBillingDate).toHaveBeenCalledWith(123456789, '2099-08-31T14:00:00Z', 'req-11');
+      expect(calls).toEqual(['date', 'status']);
+      expect(result).toMatchObject({ previous_status: 'PAUSED', status: 'ACTIVE' });
+    });
+
+    test('should leave the subscription paused when the resume date cannot be set', async () => {
+      const updateContractStatus = vi.fn();
+      const client = {
+        getSubscriptionContract: vi.fn().mockResolvedValue({ id: contractGid, status: 'PAUSED', nextBillingDate: '2025-08-01T10:00:00Z' }),
+        updateNextBillingDate: vi.fn().mockRejectedValue(new AppstleError(500, 'Server Error', 'Upstream timeout')),
+        updateContractStatus,
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({}), undefined);
+
+      await expect(tools.resume_subscription({ subscription_contract_id: 123456789, resume_date: '2099-09-01' }, 'req-12'))
+        .rejects.toMatchObject({ statusCode: 500 });
+      expect(updateContractStatus).not.toHaveBeenCalled();
+    });
+
+    test('should not activate a subscription whose next billing date has passed', async () => {
+      const updateContractStatus = vi.fn();
+      const client = {
+        getSubscriptionContract: vi.fn().mockResolvedValue({ id: contractGid, status: 'PAUSED', nextBillingDate: '2020-01-01T10:00:00Z' }),
+        updateContractStatus,
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({}), undefined);
+
+      await expect(tools.resume_subscription({ subscription_contract_id: 123456789 }, 'req-13'))
+        .rejects.toMatchObject({ statusCode: 409, title: 'Resume Date Required' });
+      expect(updateContractStatus).not.toHaveBeenCalled();
+    });
+
+    test('should refuse a resume date whose billing time today has already passed', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      // 13:00 in Sydney on 1 August; the contract bills at 10:00 local time
+      vi.setSystemTime(new Date('2025-08-01T03:00:00Z'));
+      const updateContractStatus = vi.fn();
+      const client = {
+        getSubscriptionContract: vi.fn().mockResolvedValue({ id: contractGid, status: 'PAUSED', nextBillingDate: '2025-09-01T00:00:00Z' }),
+        updateContractStatus,
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({}), undefined);
+
+      await expect(tools.resume_subscription({ subscription_contract_id: 123456789, resume_date: '2025-08-01' }, 'req-14'))
+        .rejects.toMatchObject({ statusCode: 400, title: 'Invalid Resume Date' });
+      expect(updateContractStatus).not.toHaveBeenCalled();
+      vi.useRealTimers();
+    });
+  });
+
+  describe('update_subscription_preferences', () => {
+    test('should keep writing the remaining lines and report which ones failed', async () => {
+      const line = (id: number, productTitle: string, allergies: string): Record<string, unknown> => ({
+        id: `gid://shopify/SubscriptionLine/${id}`,
+        productTitle,
+        quantity: 1,
+        customAttributes: [{ key: 'Allergies', value: allergies }]
+      });
+      const before = { id: 'gid://shopify/SubscriptionContract/123456789', lines: { edges: [
+        { node: line(1, 'Dog Food', 'Beef') },
+        { node: line(2, 'Treats', 'Beef') },
+        { node: line(3, 'Chews', 'Beef') },
+        { node: { productTitle: 'Gift card', quantity: 1 } },
+      ] } };
+      const after = { id: before.id, lines: { edges: [
+        { node: line(1, 'Dog Food', 'Chicken') },
+        { node: line(2, 'Treats', 'Beef') },
+        { node: line(3, 'Chews', 'Chicken') },
+        { node: { productTitle: 'Gift card', quantity: 1 } },
+      ] } };
+      const updateLineItemAttributes = vi.fn()
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(new AppstleError(500, 'Server Error', 'Upstream timeout'))
+        .mockResolvedValueOnce({});
+      const client = {
+        getSubscriptionContract: vi.fn().mockResolvedValueOnce(before).mockResolvedValueOnce(after),
+        updateLineItemAttributes,
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({}), undefined);
+
+      const result = await tools.update_subscription_preferences({ subscription_contract_id: 123456789, allergies: ['Chicken'] }, 'req-12');
+
+      expect(updateLineItemAttributes).toHaveBeenCalledTimes(3);
+      expect(result).toMatchObject({ allergies: 'Chicken', lines_updated: 2, lines_failed: 1 });
+      expect(result.line_results.map(entry => entry.result)).toEqual(['UPDATED', 'FAILED', 'UPDATED']);
+      expect(result.next_step_guidance.condition).toBe('PARTIAL_FAILURE');
+    });
+  });
+
+  describe('change_delivery_frequency', () => {
+    const input = { subscription_contract_id: 123456789, interval: 'WEEK', interval_count: 4 };
+    const contract = { id: 'gid://shopify/SubscriptionContract/123456789', billingPolicy: { interval: 'WEEK', intervalCount: 2 } };
+
+    test('should restore the billing interval when the delivery interval cannot be changed', async () => {
+      const updateBillingInterval = vi.fn().mockResolvedValue(contract);
+      const client = {
+        getSubscriptionContract: vi.fn().mockResolvedValue(contract),
+        updateBillingInterval,
+        updateDeliveryInterval: vi.fn().mockRejectedValue(new AppstleError(500, 'Server Error', 'Upstream timeout')),
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({}), undefined);
+
+      await expect(tools.change_delivery_frequency(input, 'req-13')).rejects.toMatchObject({ title: 'Frequency Not Changed' });
+      expect(updateBillingInterval).toHaveBeenLastCalledWith(123456789, 'WEEK', 2, 'req-13');
+    });
+
+    test('should report a mismatched schedule when the rollback fails too', async () => {
+      const client = {
+        getSubscriptionContract: vi.fn().mockResolvedValue(contract),
+        updateBillingInterval: vi.fn()
+          .mockResolvedValueOnce(contract)
+          .mockRejectedValueOnce(new AppstleError(503, 'Service Unavailable', 'Try again later')),
+        updateDeliveryInterval: vi.fn().mockRejectedValue(new AppstleError(500, 'Server Error', 'Upstream timeout')),
+      } as unknown as AppstleClient;
+      const tools = createTools(client, createToolConfig({}), undefined);
+
+      await expect(tools.change_delivery_frequency(input, 'req-14')).rejects.toMatchObject({ statusCode: 502, title: 'Frequency Change Incomplete' });
+    });
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, test, expect, vi } from 'vitest';
+import type { McpServerDefinition } from '../dispatcher.js';
+import { SessionManager } from '../session.js';
+import { VercelMcpTransport } from '../transport.js';
+
+const ENDPOINT = 'https://example.test/api/mcp';
+
+function createServer(): McpServerDefinition {
+  return {
+    tools: {
+      echo_tool: vi.fn().mockImplementation(async (input: unknown) => ({ echoed: input })),
+    },
+    listTools: () => [{ name: 'echo_tool', inputSchema: { type: 'object' } }],
+  };
+}
+
+function post(body: unknown, headers: Record<string, string> = {}): Request {
+  return new Request(ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test-client', version: '1.0.0' } }
+};
+
+// Initialize a session and return its ID
+async function openSession(transport: VercelMcpTransport): Promise<string> {
+  const response = await transport.handleRequest(post(initialize));
+  const sessionId = response.headers.get('Mcp-Session-Id');
+  expect(sessionId).toBeTruthy();
+  return sessionId ?? '';
+}
+
+// Parse every "data:" line of an SSE body
+function readEvents(text: string): unknown[] {
+  return text
+    .split('\n')
+    .filter(line => line.startsWith('data: '))
+    .map(line => JSON.parse(line.slice('data: '.length)));
+}
+
+describe('VercelMcpTransport', () => {
+  describe('sessions', () => {
+    test('should issue a session on initialize and require it afterwards', async () => {
+      const transport = new VercelMcpTransport(createServer(), new SessionManager());
+      const sessionId = await openSession(transport);
+
+      const listed = await transport.handleRequest(post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId }));
+      expect(listed.status).toBe(200);
+      expect(await listed.json()).toMatchObject({ id: 2, result: { tools: [{ name: 'echo_tool' }] } });
+
+      const missing = await transport.handleRequest(post({ jsonrpc: '2.0', id: 3, method: 'tools/list' }));
+      expect(missing.status).toBe(400);
+
+      const unknown = await transport.handleRequest(post({ jsonrpc: '2.0', id: 4, method: 'tools/list' }, { 'Mcp-Session-Id': 'nope' }));
+      expect(unknown.status).toBe(404);
+    });
+
+    test('should end a session on DELETE', async () => {
+      const transport = new VercelMcpTransport(createServer(), new SessionManager());
+      const sessionId = await openSession(transport);
+
+      const deleted = await transport.handleRequest(new Request(ENDPOINT, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } }));
+      expect(deleted.status).toBe(204);
+
+      const after = await transport.handleRequest(post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, { 'Mcp-Session-Id': sessionId }));
+      expect(after.status).toBe(404);
+    });
+
+    test('should accept notifications with 202 and no body', async () => {
+      const transport = new VercelMcpTransport(createServer(), new SessionManager());
+      const sessionId = await openSession(transport);
+
+      const response = await transport.handleRequest(post({ jsonrpc: '2.0', method: 'notifications/initialized' }, { 'Mcp-Session-Id': sessionId }));
+
+      expect(response.status).toBe(202);
+      expect(await response.text()).toBe('');
+    });
+
+    test('should stream server notifications on GET until the session ends', async () => {
+      const sessions = new SessionManager();
+      const transport = new VercelMcpTransport(createServer(), sessions);
+      const sessionId = await openSession(transport);
+
+      const stream = await transport.handleRequest(new Request(ENDPOINT, {
+        method: 'GET',
+        headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId },
+      }));
+      expect(stream.headers.get('Content-Type')).toBe('text/event-stream');
+
+      expect(sessions.notify(sessionId, { jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info' } })).toBe(true);
+      sessions.delete(sessionId);
+
+      expect(readEvents(await stream.text())).toEqual([
+        { jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info' } }
+      ]);
+    });
+
+    test('should forget idle sessions', () => {
+      let now = 0;
+      const sessions = new SessionManager(1000, () => now);
+      const session = sessions.create();
+
+      now = 999;
+      expect(sessions.get(session.id)).toBeDefined();
+      now = 2000;
+      expect(sessions.get(session.id)).toBeUndefined();
+    });
+  });
+
+  describe('stateless mode', () => {
+    test('should answer POSTs without sessions and refuse GET', async () => {
+      const transport = new VercelMcpTransport(createServer());
+
+      const initialized = await transport.handleRequest(post(initialize));
+      expect(initialized.headers.get('Mcp-Session-Id')).toBeNull();
+
+      const listed = await transport.handleRequest(post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }));
+      expect(listed.status).toBe(200);
+
+      const stream = await transport.handleRequest(new Request(ENDPOINT, { method: 'GET', headers: { Accept: 'text/event-stream' } }));
+      expect(stream.status).toBe(405);
+      expect(stream.headers.get('Allow')).toBe('POST');
+    });
+
+    test('should not offer logging without a session to keep the level', async () => {
+      const transport = new VercelMcpTransport(createServer());
+
+      const initialized = await transport.handleRequest(post(initialize));
+      expect(await initialized.json()).toMatchObject({ result: { capabilities: { tools: {} } } });
+
+      const setLevel = await transport.handleRequest(post({ jsonrpc: '2.0', id: 3, method: 'logging/setLevel', params: { level: 'debug' } }));
+      expect(await setLevel.json()).toMatchObject({ id: 3, error: { code: -32601 } });
+    });
+  });
+
+  describe('event stream replies', () => {
+    test('should send progress notifications before the tool result', async () => {
+      const transport = new VercelMcpTransport(createServer());
+
+      const response = await transport.handleRequest(post({
+        jsonrpc: '2.0',
+        id: 5,
+        method: 'tools/call',
+        params: { name: 'echo_tool', arguments: { a: 1 }, _meta: { progressToken: 'tok-1' } }
+      }));
+
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+      const events = readEvents(await response.text());
+      expect(events).toEqual([
+        { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 'tok-1', progress: 0, total: 1, message: 'Running echo_tool' } },
+        { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 'tok-1', progress: 1, total: 1, message: 'Finished echo_tool' } },
+        expect.objectContaining({ id: 5, result: expect.objectContaining({ content: expect.any(Array) }) }),
+      ]);
+    });
+
+    test('should stream tool calls once the session has set a log level', async () => {
+      const transport = new VercelMcpTransport(createServer(), new SessionManager());
+      const sessionId = await openSession(transport);
+
+      const setLevel = await transport.handleRequest(post(
+        { jsonrpc: '2.0', id: 8, method: 'logging/setLevel', params: { level: 'debug' } },
+        { 'Mcp-Session-Id': sessionId }
+      ));
+      expect(await setLevel.json()).toEqual({ jsonrpc: '2.0', id: 8, result: {} });
+
+      const response = await transport.handleRequest(post(
+        { jsonrpc: '2.0', id: 9, method: 'tools/call', params: { name: 'echo_tool', arguments: {} } },
+        { 'Mcp-Session-Id': sessionId }
+      ));
+
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+      expect(readEvents(await response.text())).toContainEqual(expect.objectContaining({ id: 9 }));
+    });
+
+    test('should reply with plain JSON when no progress is requested', async () => {
+      const transport = new VercelMcpTransport(createServer());
+
+      const response = await transport.handleRequest(post({
+        jsonrpc: '2.0',
+        id: 6,
+        method: 'tools/call',
+        params: { name: 'echo_tool', arguments: {} }
+      }));
+
+      expect(response.headers.get('Content-Type')).toBe('application/json');
+    });
+  });
+
+  describe('protocol version', () => {
+    const call = { jsonrpc: '2.0', id: 7, method: 'tools/call', params: { name: 'echo_tool', arguments: { a: 1 } } };
+
+    test('should keep the negotiated version on the session', async () => {
+      const sessions = new SessionManager();
+      const transport = new VercelMcpTransport(createServer(), sessions);
+      const initialized = await transport.handleRequest(post({
+        ...initialize,
+        params: { protocolVersion: '2024-11-05', capabilities: { sampling: {} } }
+      }));
+      const sessionId = initialized.headers.get('Mcp-Session-Id') ?? '';
+
+      expect(await initialized.json()).toMatchObject({ result: { protocolVersion: '2024-11-05' } });
+      expect(sessions.get(sessionId)?.protocol).toMatchObject({
+        protocolVersion: '2024-11-05',
+        clientCapabilities: { sampling: {} }
+      });
+
+      const called = await transport.handleRequest(post(call, { 'Mcp-Session-Id': sessionId }));
+      expect((await called.json()).result.structuredContent).toBeUndefined();
+    });
+
+    test('should use the version header for stateless requests', async () => {
+      const transport = new VercelMcpTransport(createServer());
+
+      const current = await transport.handleRequest(post(call, { 'MCP-Protocol-Version': '2025-06-18' }));
+      expect((await current.json()).result.structuredContent).toEqual({ echoed: { a: 1 } });
+
+      // Without a header the spec says to assume 2025-03-26
+      const assumed = await transport.handleRequest(post(call));
+      expect((await assumed.json()).result.structuredContent).toBeUndefined();
+
+      const unsupported = await transport.handleRequest(post(call, { 'MCP-Protocol-Version': '1999-01-01' }));
+      expect(unsupported.status).toBe(400);
+    });
+  });
+});
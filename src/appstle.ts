@@ -1,4 +1,5 @@
 import { logger } from './logger.js';
+import { getRequestContext } from './request-context.js';
 import type { ErrorOutput } from './schemas.js';
 
 interface AppstleConfig {
@@ -29,12 +30,133 @@ class AppstleError extends Error {
   }
 }
 
+// Shopify MoneyV2
+interface AppstleMoney {
+  amount: string;
+  currencyCode: string;
+}
+
+// Subscription line as returned inside contracts (Shopify GraphQL shape)
+interface AppstleContractLine {
+  id?: string; // gid://shopify/SubscriptionLine/... - stable identifier for line edits
+  variantId?: string;
+  productId?: string;
+  sku?: string | null;
+  productTitle?: string;
+  variantTitle?: string;
+  quantity: number;
+  currentPrice?: AppstleMoney;
+  lineDiscountedPrice?: AppstleMoney;
+  customAttributes?: Array<{
+    key: string;
+    value: string;
+  }>;
+}
+
+// Shopify MailingAddress as stored on a contract's delivery method
+interface AppstleMailingAddress {
+  firstName?: string | null;
+  lastName?: string | null;
+  company?: string | null;
+  address1?: string | null;
+  address2?: string | null;
+  city?: string | null;
+  province?: string | null;
+  provinceCode?: string | null;
+  country?: string | null;
+  countryCode?: string | null;
+  zip?: string | null;
+  phone?: string | null;
+}
+
+// Manual discount applied to a contract (Shopify SubscriptionManualDiscount)
+interface AppstleContractDiscount {
+  id: string;
+  title?: string | null;
+  type?: string;
+  targetType?: string;
+  recurringCycleLimit?: number | null;
+  usageCount?: number;
+  value?: {
+    percentage?: number;
+    amount?: {
+      amount: string;
+      currencyCode: string;
+    };
+  };
+}
+
+// Subscription contract as returned by Appstle's contract update endpoints (Shopify GraphQL shape)
+interface AppstleSubscriptionContract {
+  id: string;
+  status: string;
+  nextBillingDate: string;
+  createdAt?: string;
+  deliveryPolicy?: {
+    interval: string;
+    intervalCount: number;
+  };
+  billingPolicy?: {
+    interval: string;
+    intervalCount: number;
+    minCycles?: number | null;
+    maxCycles?: number | null;
+  };
+  customAttributes?: Array<{
+    key: string;
+    value: string;
+  }>;
+  originOrder?: {
+    id?: string;
+    name: string;
+  } | null;
+  customerPaymentMethod?: {
+    id: string;
+    revokedAt?: string | null;
+    instrument?: {
+      brand?: string;
+      lastDigits?: string;
+      expiryMonth?: number;
+      expiryYear?: number;
+    } | null;
+  } | null;
+  lines?: {
+    edges: Array<{
+      node: AppstleContractLine;
+    }>;
+  };
+  deliveryMethod?: {
+    address?: AppstleMailingAddress | null;
+  } | null;
+  discounts?: {
+    edges: Array<{
+      node: AppstleContractDiscount;
+    }>;
+  };
+}
+
+// One-time product attached to a single upcoming billing attempt
+interface AppstleOneOff {
+  id?: number;
+  billingAttemptId: number;
+  variantId: number;
+  variantHandle?: string;
+  productTitle?: string;
+  variantTitle?: string;
+  quantity: number;
+}
+
 interface RetryConfig {
   maxAttempts: number;
   baseDelayMs: number;
   maxDelayMs: number;
 }
 
+// Appstle's messages for discount problems a customer can fix; matched against the response detail
+const DISCOUNT_ALREADY_APPLIED_PATTERN = /already (been )?applied|already (exists|added)/i;
+const INVALID_DISCOUNT_CODE_PATTERN = /invalid (discount|code)|(discount|code)\b[^.]*\b(invalid|not found|does not exist|doesn't exist|expired|not valid|not applicable|not eligible)/i;
+const DISCOUNT_NOT_APPLIED_PATTERN = /discount\b[^.]*\b(not found|does not exist|doesn't exist|not applied|no longer applied)/i;
+
 export class AppstleClient {
   private config: AppstleConfig;
   private retryConfig: RetryConfig;
@@ -118,17 +240,71 @@ export class AppstleClient {
     return new AppstleError(statusCode, title, detail, requestId);
   }
 
+  // Appstle answers discount problems with generic 400/409s; turn the ones whose message names the problem
+  // into messages a customer can act on. Anything else (bad contract, missing parameter, ...) passes through unchanged.
+  private mapDiscountError(error: unknown, discountCode?: string): unknown {
+    if (!(error instanceof AppstleError) || (error.statusCode !== 400 && error.statusCode !== 409)) {
+      return error;
+    }
+
+    if (!discountCode) {
+      if (!DISCOUNT_NOT_APPLIED_PATTERN.test(error.detail)) {
+        return error;
+      }
+      return new AppstleError(
+        error.statusCode,
+        'Discount Not Applied',
+        'That discount is no longer applied to this subscription, so there is nothing to remove.',
+        error.requestId
+      );
+    }
+
+    if (DISCOUNT_ALREADY_APPLIED_PATTERN.test(error.detail)) {
+      return new AppstleError(
+        409,
+        'Discount Already Applied',
+        `"${discountCode}" is already applied to this subscription, so there's nothing more to add.`,
+        error.requestId
+      );
+    }
+
+    if (INVALID_DISCOUNT_CODE_PATTERN.test(error.detail)) {
+      return new AppstleError(
+        400,
+        'Invalid Discount Code',
+        `"${discountCode}" isn't a valid discount code for this subscription. It may be misspelled, expired, or not eligible for subscriptions.`,
+        error.requestId
+      );
+    }
+
+    return error;
+  }
+
+  private cancelledError(requestId: string): AppstleError {
+    return new AppstleError(499, 'Request Cancelled', 'The request was cancelled by the client', requestId);
+  }
+
   private async makeRequest<T>(
     method: string,
     path: string,
     options: {
       query?: Record<string, string>;
-      body?: Record<string, unknown>;
+      body?: Record<string, unknown> | unknown[];
       requestId?: string;
+      // false for calls that must not run twice (charges, emails): a timeout may hide a request that succeeded
+      retry?: boolean;
     } = {}
   ): Promise<T> {
     const requestId = options.requestId || logger.generateRequestId();
+    const maxAttempts = options.retry === false ? 1 : this.retryConfig.maxAttempts;
     const startTime = Date.now();
+    // Set while an MCP tool call runs; aborted when the client cancels it. Writes are never aborted:
+    // once one is sent, the rest of the call runs without the signal so no half-applied change goes unreported
+    const requestContext = getRequestContext();
+    if (requestContext && method !== 'GET') {
+      requestContext.writeStarted = true;
+    }
+    const signal = requestContext?.writeStarted ? undefined : requestContext?.signal;
     
     let url = `${this.config.baseUrl}${path}`;
     
@@ -144,7 +320,11 @@ export class AppstleClient {
       query: options.query,
     });
 
-    for (let attempt = 0; attempt < this.retryConfig.maxAttempts; attempt++) {
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      if (signal?.aborted) {
+        throw this.cancelledError(requestId);
+      }
+
       try {
         const requestInit: RequestInit = {
           method,
@@ -153,6 +333,7 @@ export class AppstleClient {
             'Content-Type': 'application/json',
             'User-Agent': 'TGA-Appstle-MCP/1.0.0',
           },
+          signal,
         };
 
         if (options.body && (method === 'POST' || method === 'PUT' || method === 'PATCH')) {
@@ -170,6 +351,10 @@ export class AppstleClient {
           responseText = '';
         }
 
+        if (signal?.aborted) {
+          throw this.cancelledError(requestId);
+        }
+
         if (!response.ok) {
           const error = this.mapHttpError(response.status, response.statusText, responseText, requestId);
           
@@ -181,11 +366,11 @@ export class AppstleClient {
             statusCode: response.status,
             duration,
             attempt: attempt + 1,
-            willRetry: this.shouldRetry(response.status) && attempt < this.retryConfig.maxAttempts - 1,
+            willRetry: this.shouldRetry(response.status) && attempt < maxAttempts - 1,
           });
 
           // Check if we should retry
-          if (this.shouldRetry(response.status) && attempt < this.retryConfig.maxAttempts - 1) {
+          if (this.shouldRetry(response.status) && attempt < maxAttempts - 1) {
             const delay = this.calculateBackoffDelay(attempt);
             logger.info(`Retrying request after ${delay}ms`, { requestId, attempt: attempt + 1 });
             await this.sleep(delay);
@@ -222,6 +407,12 @@ export class AppstleClient {
           throw error;
         }
 
+        // A cancelled request is not retried
+        if (signal?.aborted) {
+          logger.info('Appstle request cancelled', { requestId, method, path, duration });
+          throw this.cancelledError(requestId);
+        }
+
         // Network or other fetch errors
         logger.error(`Network error during Appstle request`, {
           requestId,
@@ -230,11 +421,11 @@ export class AppstleClient {
           duration,
           attempt: attempt + 1,
           error: error instanceof Error ? error.message : String(error),
-          willRetry: attempt < this.retryConfig.maxAttempts - 1,
+          willRetry: attempt < maxAttempts - 1,
         });
 
         // Retry network errors
-        if (attempt < this.retryConfig.maxAttempts - 1) {
+        if (attempt < maxAttempts - 1) {
           const delay = this.calculateBackoffDelay(attempt);
           await this.sleep(delay);
           continue;
@@ -269,11 +460,7 @@ export class AppstleClient {
           };
           lines?: {
             edges: Array<{
-              node: {
-                productTitle?: string;
-                variantTitle?: string;
-                quantity: number;
-              };
+              node: AppstleContractLine;
             }>;
           };
         };
@@ -401,9 +588,217 @@ export class AppstleClient {
       requestId,
     });
   }
+
+  async retryBillingAttempt(billingAttemptId: number, requestId?: string): Promise<{
+    id: number;
+    billingAttemptId?: string;
+    orderId?: number;
+    orderName?: string;
+    billingDate: string;
+    status: string;
+    billingAttemptResponseMessage?: string | null;
+    attemptCount?: number;
+  }> {
+    // Charges the card, so it is never retried automatically
+    return this.makeRequest('PUT', `/api/external/v2/subscription-billing-attempts/attempt-billing/${billingAttemptId}`, {
+      requestId,
+      retry: false,
+    });
+  }
+
+  async updateBillingAttemptDate(billingAttemptId: number, billingDate: string, subscriptionContractId?: number, requestId?: string): Promise<{
+    id: number;
+    billingAttemptId?: string;
+    orderId?: number;
+    orderName?: string;
+    billingDate: string;
+    status: string;
+  }> {
+    const query: Record<string, string> = { billingDate };
+    if (subscriptionContractId) {
+      query.subscriptionContractId = subscriptionContractId.toString();
+    }
+
+    return this.makeRequest('PUT', `/api/external/v2/subscription-billing-attempts/update-billing-date/${billingAttemptId}`, {
+      query,
+      requestId,
+    });
+  }
+
+  async updateBillingInterval(contractId: number, interval: string, intervalCount: number, requestId?: string): Promise<AppstleSubscriptionContract> {
+    return this.makeRequest('PUT', '/api/external/v2/subscription-contracts-update-billing-interval', {
+      query: {
+        contractId: contractId.toString(),
+        interval,
+        intervalCount: intervalCount.toString(),
+      },
+      requestId,
+    });
+  }
+
+  async updateContractStatus(contractId: number, status: 'ACTIVE' | 'PAUSED', requestId?: string): Promise<AppstleSubscriptionContract> {
+    return this.makeRequest('PUT', '/api/external/v2/subscription-contracts-update-status', {
+      query: {
+        contractId: contractId.toString(),
+        status,
+      },
+      requestId,
+    });
+  }
+
+  async cancelSubscription(contractId: number, cancellationFeedback: string, cancellationNote?: string, requestId?: string): Promise<Partial<AppstleSubscriptionContract>> {
+    const query: Record<string, string> = { cancellationFeedback };
+    if (cancellationNote) {
+      query.cancellationNote = cancellationNote;
+    }
+
+    return this.makeRequest('DELETE', `/api/external/v2/subscription-contracts/${contractId}`, {
+      query,
+      requestId,
+    });
+  }
+
+  async updateLineItemQuantity(contractId: number, lineId: string, quantity: number, requestId?: string): Promise<AppstleSubscriptionContract> {
+    return this.makeRequest('PUT', '/api/external/v2/subscription-contracts-update-line-item-quantity', {
+      query: {
+        contractId: contractId.toString(),
+        lineId,
+        quantity: quantity.toString(),
+      },
+      requestId,
+    });
+  }
+
+  async updateLineItemAttributes(contractId: number, lineId: string, customAttributes: Array<{ key: string; value: string }>, requestId?: string): Promise<AppstleSubscriptionContract> {
+    return this.makeRequest('PUT', '/api/external/v2/subscription-contracts-update-line-item-attributes', {
+      query: {
+        contractId: contractId.toString(),
+        lineId,
+      },
+      body: customAttributes,
+      requestId,
+    });
+  }
+
+  async updateLineItemVariant(contractId: number, lineId: string, variantId: string, requestId?: string): Promise<AppstleSubscriptionContract> {
+    return this.makeRequest('PUT', '/api/external/v2/subscription-contracts-update-line-item-variant', {
+      query: {
+        contractId: contractId.toString(),
+        lineId,
+        variantId,
+      },
+      requestId,
+    });
+  }
+
+  async removeLineItem(contractId: number, lineId: string, requestId?: string): Promise<AppstleSubscriptionContract> {
+    return this.makeRequest('PUT', '/api/external/v2/subscription-contracts-remove-line-item', {
+      query: {
+        contractId: contractId.toString(),
+        lineId,
+      },
+      requestId,
+    });
+  }
+
+  async getSubscriptionContract(contractId: number, requestId?: string): Promise<AppstleSubscriptionContract> {
+    return this.makeRequest('GET', '/api/external/v2/contract-raw-response', {
+      query: { contractId: contractId.toString() },
+      requestId,
+    });
+  }
+
+  async updateShippingAddress(contractId: number, address: AppstleMailingAddress, requestId?: string): Promise<AppstleSubscriptionContract> {
+    return this.makeRequest('PUT', '/api/external/v2/subscription-contracts-update-shipping-address', {
+      query: { contractId: contractId.toString() },
+      body: { ...address, methodType: 'SHIPPING' },
+      requestId,
+    });
+  }
+
+  async applyDiscountCode(contractId: number, discountCode: string, requestId?: string): Promise<AppstleSubscriptionContract> {
+    try {
+      return await this.makeRequest<AppstleSubscriptionContract>('PUT', '/api/external/v2/subscription-contracts-apply-discount', {
+        query: {
+          contractId: contractId.toString(),
+          discountCode,
+        },
+        requestId,
+      });
+    } catch (error) {
+      throw this.mapDiscountError(error, discountCode);
+    }
+  }
+
+  async removeDiscount(contractId: number, discountId: string, requestId?: string): Promise<AppstleSubscriptionContract> {
+    try {
+      return await this.makeRequest<AppstleSubscriptionContract>('PUT', '/api/external/v2/subscription-contracts-remove-discount', {
+        query: {
+          contractId: contractId.toString(),
+          discountId,
+        },
+        requestId,
+      });
+    } catch (error) {
+      throw this.mapDiscountError(error);
+    }
+  }
+
+  // Triggers Appstle's "update your payment method" email to the contract's customer.
+  // Not retried: a timed-out request may still have sent the email.
+  async sendPaymentMethodUpdateEmail(contractId: number, requestId?: string): Promise<unknown> {
+    return this.makeRequest('PUT', '/api/external/v2/subscription-contracts-update-payment-method', {
+      query: { contractId: contractId.toString() },
+      requestId,
+      retry: false,
+    });
+  }
+
+  async getOneOffs(contractId: number, requestId?: string): Promise<AppstleOneOff[]> {
+    return this.makeRequest('GET', '/api/external/v2/subscription-contract-one-offs-by-contractId', {
+      query: { contractId: contractId.toString() },
+      requestId,
+    });
+  }
+
+  // Not retried: a timed-out request may still have attached the item, and a second one would be charged
+  async addOneOff(contractId: number, billingAttemptId: number, variantId: number, quantity: number, requestId?: string): Promise<AppstleOneOff[]> {
+    return this.makeRequest('PUT', '/api/external/v2/subscription-contract-one-offs-by-contractId-and-billing-attempt-id', {
+      query: {
+        contractId: contractId.toString(),
+        billingAttemptId: billingAttemptId.toString(),
+        variantId: variantId.toString(),
+        quantity: quantity.toString(),
+      },
+      requestId,
+      retry: false,
+    });
+  }
+
+  async updateNextBillingDate(contractId: number, nextBillingDate: string, requestId?: string): Promise<AppstleSubscriptionContract> {
+    return this.makeRequest('PUT', '/api/external/v2/subscription-contracts-update-billing-date', {
+      query: {
+        contractId: contractId.toString(),
+        nextBillingDate,
+      },
+      requestId,
+    });
+  }
+
+  async updateDeliveryInterval(contractId: number, interval: string, intervalCount: number, requestId?: string): Promise<AppstleSubscriptionContract> {
+    return this.makeRequest('PUT', '/api/external/v2/subscription-contracts-update-delivery-interval', {
+      query: {
+        contractId: contractId.toString(),
+        interval,
+        intervalCount: intervalCount.toString(),
+      },
+      requestId,
+    });
+  }
 }
 
 export { AppstleError };
+export type { AppstleSubscriptionContract, AppstleContractLine, AppstleOneOff, AppstleMailingAddress, AppstleContractDiscount };
 
 export function createAppstleClient(): AppstleClient {
   const baseUrl = process.env.APPSTLE_API_BASE || 'https://subscription-admin.appstle.com';
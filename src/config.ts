@@ -0,0 +1,146 @@
+// Store-specific tool settings, read from environment variables with sensible defaults
+
+type IntervalUnit = 'DAY' | 'WEEK' | 'MONTH' | 'YEAR';
+
+interface DeliveryInterval {
+  interval: IntervalUnit;
+  intervalCount: number;
+}
+
+type RetentionOfferType = 'skip' | 'pause' | 'change_frequency' | 'discount';
+
+interface ToolConfig {
+  // Frequencies customers may switch to with change_delivery_frequency
+  allowedDeliveryIntervals: DeliveryInterval[];
+  // Alternatives offered by cancel_subscription before it cancels, in order of preference
+  retentionOffers: RetentionOfferType[];
+  // How the retention discount is described to the customer
+  retentionDiscountDescription: string;
+  // Code applied by apply_discount_code when the discount offer is accepted; without it the offer goes to a human
+  retentionDiscountCode?: string;
+  // Proteins a customer may ask us to leave out, stored in the "Protein Substitution" line attribute
+  proteinSubstitutionOptions: string[];
+  // Allergens a customer may record, stored in the "Allergies" line attribute
+  allergyOptions: string[];
+  // Minimum time between payment update emails for the same contract
+  paymentEmailCooldownMinutes: number;
+  // How many subscriptions are updated at once when a skip tool runs for all of a customer's subscriptions
+  multiContractConcurrency: number;
+}
+
+const INTERVAL_UNITS: IntervalUnit[] = ['DAY', 'WEEK', 'MONTH', 'YEAR'];
+const RETENTION_OFFER_TYPES: RetentionOfferType[] = ['skip', 'pause', 'change_frequency', 'discount'];
+
+const DEFAULT_DELIVERY_INTERVALS = '1 WEEK,2 WEEK,3 WEEK,4 WEEK,6 WEEK,8 WEEK';
+const DEFAULT_RETENTION_OFFERS = 'skip,pause,change_frequency,discount';
+const DEFAULT_RETENTION_DISCOUNT_DESCRIPTION = '15% off your next delivery';
+const DEFAULT_PROTEIN_SUBSTITUTION_OPTIONS = 'Chicken,Beef,Lamb,Kangaroo,Turkey,Fish,Pork';
+const DEFAULT_ALLERGY_OPTIONS = 'Chicken,Beef,Lamb,Kangaroo,Turkey,Fish,Pork,Egg,Dairy,Grain';
+const DEFAULT_PAYMENT_EMAIL_COOLDOWN_MINUTES = 60;
+const DEFAULT_MULTI_CONTRACT_CONCURRENCY = 3;
+const DEFAULT_STORE_TIMEZONE = 'Australia/Sydney';
+
+// Parse a comma-separated list such as "2 WEEK,4 WEEK,1 MONTH"
+export function parseDeliveryIntervals(value: string): DeliveryInterval[] {
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const match = entry.match(/^(\d+)\s+([A-Za-z]+?)S?$/i);
+      const unit = match?.[2].toUpperCase() as IntervalUnit | undefined;
+      if (!match || !unit || !INTERVAL_UNITS.includes(unit) || parseInt(match[1], 10) <= 0) {
+        throw new Error(`Invalid delivery interval "${entry}". Expected "<count> <DAY|WEEK|MONTH|YEAR>"`);
+      }
+      return { interval: unit, intervalCount: parseInt(match[1], 10) };
+    });
+}
+
+// Parse a comma-separated list such as "pause,discount"; an empty value disables retention offers
+export function parseRetentionOffers(value: string): RetentionOfferType[] {
+  return value
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      if (!RETENTION_OFFER_TYPES.includes(entry as RetentionOfferType)) {
+        throw new Error(`Invalid retention offer "${entry}". Expected one of: ${RETENTION_OFFER_TYPES.join(', ')}`);
+      }
+      return entry as RetentionOfferType;
+    });
+}
+
+// Parse a comma-separated list of display values such as "Chicken,Beef"; duplicates are dropped
+export function parseOptionList(value: string): string[] {
+  const options = value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0);
+  return options.filter((option, index) =>
+    options.findIndex(other => other.toLowerCase() === option.toLowerCase()) === index
+  );
+}
+
+// Return the configured spelling of an option, matching case-insensitively
+export function findAllowedOption(options: string[], value: string): string | undefined {
+  const wanted = value.trim().toLowerCase();
+  return options.find(option => option.toLowerCase() === wanted);
+}
+
+// Parse a whole number of minutes; 0 turns the cooldown off
+export function parseCooldownMinutes(value: string): number {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) {
+    throw new Error(`Invalid cooldown "${value}". Expected a whole number of minutes`);
+  }
+  return parseInt(trimmed, 10);
+}
+
+// Parse how many requests may run at once; must be at least 1
+export function parseConcurrency(value: string): number {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed) || parseInt(trimmed, 10) < 1) {
+    throw new Error(`Invalid concurrency "${value}". Expected a whole number of at least 1`);
+  }
+  return parseInt(trimmed, 10);
+}
+
+// Parse an IANA timezone name such as "Australia/Sydney"
+export function parseTimeZone(value: string): string {
+  const trimmed = value.trim();
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: trimmed });
+  } catch {
+    throw new Error(`Invalid timezone "${value}". Expected an IANA name such as "Australia/Sydney"`);
+  }
+  return trimmed;
+}
+
+// Timezone customers give calendar dates in. Read once at load because the input schemas that
+// check dates are module-level and have no ToolConfig
+export const STORE_TIMEZONE = parseTimeZone(process.env.STORE_TIMEZONE || DEFAULT_STORE_TIMEZONE);
+
+export function isAllowedDeliveryInterval(config: ToolConfig, interval: string, intervalCount: number): boolean {
+  return config.allowedDeliveryIntervals.some(allowed =>
+    allowed.interval === interval && allowed.intervalCount === intervalCount
+  );
+}
+
+export function createToolConfig(env: Record<string, string | undefined> = process.env): ToolConfig {
+  return {
+    allowedDeliveryIntervals: parseDeliveryIntervals(env.ALLOWED_DELIVERY_INTERVALS || DEFAULT_DELIVERY_INTERVALS),
+    retentionOffers: parseRetentionOffers(env.CANCELLATION_RETENTION_OFFERS ?? DEFAULT_RETENTION_OFFERS),
+    retentionDiscountDescription: env.RETENTION_DISCOUNT_DESCRIPTION || DEFAULT_RETENTION_DISCOUNT_DESCRIPTION,
+    retentionDiscountCode: env.RETENTION_DISCOUNT_CODE?.trim() || undefined,
+    proteinSubstitutionOptions: parseOptionList(env.PROTEIN_SUBSTITUTION_OPTIONS || DEFAULT_PROTEIN_SUBSTITUTION_OPTIONS),
+    allergyOptions: parseOptionList(env.ALLERGY_OPTIONS || DEFAULT_ALLERGY_OPTIONS),
+    paymentEmailCooldownMinutes: env.PAYMENT_EMAIL_COOLDOWN_MINUTES
+      ? parseCooldownMinutes(env.PAYMENT_EMAIL_COOLDOWN_MINUTES)
+      : DEFAULT_PAYMENT_EMAIL_COOLDOWN_MINUTES,
+    multiContractConcurrency: env.MULTI_CONTRACT_CONCURRENCY
+      ? parseConcurrency(env.MULTI_CONTRACT_CONCURRENCY)
+      : DEFAULT_MULTI_CONTRACT_CONCURRENCY,
+  };
+}
+
+export type { ToolConfig, DeliveryInterval, IntervalUnit, RetentionOfferType };
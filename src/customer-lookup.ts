@@ -0,0 +1,146 @@
+import { AppstleError } from './appstle.js';
+import { logger } from './logger.js';
+import { parseGidTail } from './mapping.js';
+import { getRequestContext } from './request-context.js';
+
+// Customer found by an email lookup
+interface CustomerRecord {
+  id: number; // Numeric Shopify customer ID, as Appstle expects it
+  gid: string; // gid://shopify/Customer/...
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+// Backend for finding customers by email - swap in a stub for tests or another store backend
+interface CustomerLookup {
+  findCustomerByEmail(email: string, requestId?: string): Promise<CustomerRecord | null>;
+}
+
+interface ShopifyLookupConfig {
+  shopDomain: string;
+  accessToken: string;
+  apiVersion: string;
+}
+
+const CUSTOMER_BY_EMAIL_QUERY = `
+  query CustomerByEmail($query: String!) {
+    customers(first: 5, query: $query) {
+      edges {
+        node {
+          id
+          email
+          firstName
+          lastName
+        }
+      }
+    }
+  }
+`;
+
+// Default backend: Shopify Admin GraphQL API
+export class ShopifyCustomerLookup implements CustomerLookup {
+  private config: ShopifyLookupConfig;
+
+  constructor(config: ShopifyLookupConfig) {
+    this.config = config;
+  }
+
+  async findCustomerByEmail(email: string, requestId?: string): Promise<CustomerRecord | null> {
+    const url = `https://${this.config.shopDomain}/admin/api/${this.config.apiVersion}/graphql.json`;
+    const startTime = Date.now();
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'X-Shopify-Access-Token': this.config.accessToken,
+          'Content-Type': 'application/json',
+          'User-Agent': 'TGA-Appstle-MCP/1.0.0',
+        },
+        body: JSON.stringify({
+          query: CUSTOMER_BY_EMAIL_QUERY,
+          variables: { query: `email:"${email}"` },
+        }),
+        signal: getRequestContext()?.signal,
+      });
+    } catch (error) {
+      throw new AppstleError(
+        500,
+        'Network Error',
+        error instanceof Error ? error.message : 'Customer lookup request failed',
+        requestId
+      );
+    }
+
+    const duration = Date.now() - startTime;
+    if (!response.ok) {
+      logger.error('Shopify customer lookup error', { requestId, statusCode: response.status, duration });
+      throw new AppstleError(
+        response.status,
+        'Customer Lookup Failed',
+        `Shopify customer search returned HTTP ${response.status}`,
+        requestId
+      );
+    }
+
+    const body = await response.json() as {
+      data?: {
+        customers?: {
+          edges: Array<{
+            node: { id: string; email?: string | null; firstName?: string | null; lastName?: string | null };
+          }>;
+        };
+      };
+      errors?: Array<{ message: string }>;
+    };
+
+    if (body.errors?.length) {
+      logger.error('Shopify customer lookup GraphQL error', { requestId, errorCount: body.errors.length, duration });
+      throw new AppstleError(
+        502,
+        'Customer Lookup Failed',
+        body.errors.map(error => error.message).join('; '),
+        requestId
+      );
+    }
+
+    logger.info('Shopify customer lookup success', { requestId, duration });
+
+    // Shopify's search is token-based, so only accept an exact (case-insensitive) email match
+    const match = body.data?.customers?.edges
+      .map(edge => edge.node)
+      .find(node => node.email?.toLowerCase() === email.toLowerCase());
+
+    if (!match) {
+      return null;
+    }
+
+    return {
+      id: parseGidTail(match.id),
+      gid: match.id,
+      email: match.email || undefined,
+      firstName: match.firstName || undefined,
+      lastName: match.lastName || undefined,
+    };
+  }
+}
+
+// Returns undefined when Shopify credentials are not configured; email lookups are then unavailable
+export function createCustomerLookup(env: Record<string, string | undefined> = process.env): CustomerLookup | undefined {
+  const shopDomain = env.SHOP_DOMAIN;
+  const accessToken = env.SHOPIFY_ADMIN_ACCESS_TOKEN;
+
+  if (!shopDomain || !accessToken) {
+    return undefined;
+  }
+
+  return new ShopifyCustomerLookup({
+    shopDomain,
+    accessToken,
+    apiVersion: env.SHOPIFY_API_VERSION || '2024-10',
+  });
+}
+
+export type { CustomerLookup, CustomerRecord };
@@ -0,0 +1,594 @@
+import { logger } from './logger.js';
+import type { LogSink } from './logger.js';
+import {
+  DEFAULT_PROTOCOL_VERSION,
+  MCP_LOG_LEVELS,
+  isLogLevelEnabled,
+  isMcpLogLevel,
+  isProtocolVersionAtLeast,
+  negotiateProtocolVersion,
+  supportsStructuredContent,
+  toMcpLogLevel,
+} from './protocol.js';
+import type { ProtocolState } from './protocol.js';
+import { runWithRequestContext } from './request-context.js';
+import type { RequestContext } from './request-context.js';
+import type { ResourceProvider } from './resources.js';
+import { AppstleError } from './appstle.js';
+
+// MCP JSON-RPC message types
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number;
+  method: string;
+  params?: unknown;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  result?: unknown;
+  error?: {
+    code: number;
+    message: string;
+    data?: unknown;
+  };
+}
+
+interface JsonRpcError {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  error: {
+    code: number;
+    message: string;
+    data?: unknown;
+  };
+}
+
+// Server-to-client message that expects no reply, e.g. notifications/progress
+interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+// Per-request transport state handed to the dispatcher
+interface DispatchContext {
+  sessionId?: string;
+  // Connection state written by initialize
+  protocol?: ProtocolState;
+  // HTTP request without a session: protocol holds only this request's state, so nothing set on it
+  // (log level) or registered against it (cancellable calls) is seen by later requests
+  stateless?: boolean;
+  // Delivers notifications while the request runs; absent when the transport cannot stream
+  notify?: (notification: JsonRpcNotification) => void;
+}
+
+type ToolHandler = (input: unknown, requestId: string) => Promise<unknown>;
+
+// What a transport needs from createSimpleServer()
+interface McpServerDefinition {
+  tools: Record<string, ToolHandler>;
+  listTools: () => unknown[];
+  // Read-only resources; servers without them do not advertise the capability
+  resources?: ResourceProvider;
+}
+
+// Result of a call the client cancelled before it changed anything; no response is sent for it
+const CANCELLED = Symbol('cancelled');
+
+// Transport-independent MCP method dispatch, shared by the HTTP and stdio transports
+export class McpDispatcher {
+  private tools: Record<string, ToolHandler>;
+  private simpleServer: McpServerDefinition;
+  // Running tool calls and resource reads per connection, by JSON-RPC id, so notifications/cancelled can abort them
+  private inFlight = new WeakMap<ProtocolState, Map<string | number, AbortController>>();
+
+  constructor(simpleServer: McpServerDefinition) {
+    this.tools = simpleServer.tools;
+    this.simpleServer = simpleServer; // Store reference to get dynamic tool definitions
+  }
+
+  // Process a single JSON-RPC message; returns null for notifications
+  async processJsonRpcRequest(
+    request: unknown,
+    requestId: string,
+    context: DispatchContext = {}
+  ): Promise<JsonRpcResponse | JsonRpcError | null> {
+    try {
+      // Validate JSON-RPC structure
+      if (!this.isValidJsonRpcRequest(request)) {
+        return {
+          jsonrpc: '2.0',
+          id: null,
+          error: {
+            code: -32600,
+            message: 'Invalid Request',
+            data: 'Request must be a valid JSON-RPC 2.0 object'
+          }
+        };
+      }
+
+      const req = request;
+
+      logger.debug('Processing JSON-RPC request', {
+        requestId,
+        method: req.method,
+        id: req.id,
+        hasParams: !!req.params
+      });
+
+      // Handle MCP-specific methods
+      switch (req.method) {
+        case 'initialize':
+          return await this.handleInitialize(req, requestId, context);
+
+        case 'tools/list':
+          return await this.handleToolsList(req, requestId);
+
+        case 'tools/call':
+          return await this.handleToolsCall(req, requestId, context);
+
+        case 'resources/list':
+        case 'resources/templates/list':
+        case 'resources/read':
+          return await this.handleResources(req, requestId, context);
+
+        case 'ping':
+          return { jsonrpc: '2.0', id: req.id, result: {} };
+
+        case 'logging/setLevel':
+          return this.handleSetLevel(req, requestId, context);
+
+        case 'notifications/initialized':
+          // Notification - no response needed
+          logger.debug('Received initialized notification', { requestId });
+          return null;
+
+        case 'notifications/cancelled':
+          this.handleCancelled(req, requestId, context);
+          return null;
+
+        default:
+          return {
+            jsonrpc: '2.0',
+            id: req.id,
+            error: {
+              code: -32601,
+              message: 'Method not found',
+              data: `Method '${req.method}' is not supported`
+            }
+          };
+      }
+
+    } catch (error) {
+      logger.error('Error processing JSON-RPC request', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      return {
+        jsonrpc: '2.0',
+        id: (request as Partial<JsonRpcRequest> | null)?.id || null,
+        error: {
+          code: -32603,
+          message: 'Internal error',
+          data: error instanceof Error ? error.message : String(error)
+        }
+      };
+    }
+  }
+
+  // Validate JSON-RPC request structure
+  private isValidJsonRpcRequest(obj: unknown): obj is JsonRpcRequest {
+    if (typeof obj !== 'object' || obj === null) {
+      return false;
+    }
+    const candidate = obj as Record<string, unknown>;
+    return candidate.jsonrpc === '2.0' && typeof candidate.method === 'string';
+  }
+
+  // Handle initialize method: agree on a protocol version and remember what the client supports
+  private async handleInitialize(req: JsonRpcRequest, requestId: string, context: DispatchContext): Promise<JsonRpcResponse> {
+    const params = (req.params ?? {}) as {
+      protocolVersion?: unknown;
+      capabilities?: unknown;
+      clientInfo?: { name?: string; version?: string };
+    };
+
+    if (typeof params.protocolVersion !== 'string') {
+      return {
+        jsonrpc: '2.0',
+        id: req.id,
+        error: {
+          code: -32602,
+          message: 'Invalid params',
+          data: 'protocolVersion is required'
+        }
+      };
+    }
+
+    const protocolVersion = negotiateProtocolVersion(params.protocolVersion);
+
+    if (context.protocol) {
+      context.protocol.protocolVersion = protocolVersion;
+      context.protocol.clientCapabilities = typeof params.capabilities === 'object' && params.capabilities !== null
+        ? params.capabilities as Record<string, unknown>
+        : {};
+      context.protocol.clientInfo = params.clientInfo;
+    }
+
+    // Only what is implemented is advertised; a log level needs a connection to be remembered on
+    const capabilities = {
+      tools: {},
+      ...(context.stateless ? {} : { logging: {} }),
+      ...(this.simpleServer.resources ? { resources: {} } : {})
+    };
+
+    logger.info('MCP client initialized', {
+      requestId,
+      requestedVersion: params.protocolVersion,
+      protocolVersion,
+      clientName: params.clientInfo?.name
+    });
+
+    return {
+      jsonrpc: '2.0',
+      id: req.id,
+      result: {
+        protocolVersion,
+        capabilities,
+        serverInfo: {
+          name: 'appstle-mcp-server',
+          version: '1.0.0',
+          // Implementation.title only exists from 2025-06-18
+          ...(isProtocolVersionAtLeast(protocolVersion, '2025-06-18') ? { title: 'Appstle Subscription Management' } : {})
+        }
+      }
+    };
+  }
+
+  // Handle tools/list method
+  private async handleToolsList(req: JsonRpcRequest, requestId: string): Promise<JsonRpcResponse> {
+    // Use the dynamic tool definitions from simpleServer instead of hardcoded ones
+    const toolDefinitions = this.simpleServer.listTools();
+
+    logger.info('Listed available tools', { requestId, toolCount: toolDefinitions.length });
+
+    return {
+      jsonrpc: '2.0',
+      id: req.id,
+      result: { tools: toolDefinitions }
+    };
+  }
+
+  // Handle resources/list, resources/templates/list and resources/read; returns null when the client cancelled the read
+  private async handleResources(req: JsonRpcRequest, requestId: string, context: DispatchContext): Promise<JsonRpcResponse | null> {
+    const resources = this.simpleServer.resources;
+
+    if (!resources) {
+      return {
+        jsonrpc: '2.0',
+        id: req.id,
+        error: {
+          code: -32601,
+          message: 'Method not found',
+          data: `Method '${req.method}' is not supported`
+        }
+      };
+    }
+
+    if (req.method === 'resources/list') {
+      // Every resource belongs to a customer or contract, so they are only discoverable as templates
+      return { jsonrpc: '2.0', id: req.id, result: { resources: [] } };
+    }
+
+    if (req.method === 'resources/templates/list') {
+      const resourceTemplates = resources.listTemplates();
+      logger.info('Listed resource templates', { requestId, templateCount: resourceTemplates.length });
+      return { jsonrpc: '2.0', id: req.id, result: { resourceTemplates } };
+    }
+
+    const uri = (req.params as { uri?: unknown } | undefined)?.uri;
+
+    if (typeof uri !== 'string') {
+      return {
+        jsonrpc: '2.0',
+        id: req.id,
+        error: {
+          code: -32602,
+          message: 'Invalid params',
+          data: 'uri is required'
+        }
+      };
+    }
+
+    try {
+      const contents = await this.runCancellable(req, context, () => resources.read(uri, requestId));
+      if (contents === CANCELLED) {
+        logger.info('Resource read cancelled', { requestId, uri });
+        return null;
+      }
+
+      if (!contents) {
+        return {
+          jsonrpc: '2.0',
+          id: req.id,
+          error: {
+            code: -32002,
+            message: 'Resource not found',
+            data: { uri }
+          }
+        };
+      }
+
+      return { jsonrpc: '2.0', id: req.id, result: { contents } };
+
+    } catch (error) {
+      logger.error('Resource read failed', {
+        requestId,
+        uri,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      // An unknown customer or contract is a missing resource, not a server fault
+      if (error instanceof AppstleError && error.statusCode === 404) {
+        return {
+          jsonrpc: '2.0',
+          id: req.id,
+          error: {
+            code: -32002,
+            message: 'Resource not found',
+            data: { uri }
+          }
+        };
+      }
+
+      return {
+        jsonrpc: '2.0',
+        id: req.id,
+        error: {
+          code: -32603,
+          message: 'Internal error',
+          data: error instanceof Error ? error.message : String(error)
+        }
+      };
+    }
+  }
+
+  // Handle logging/setLevel: the level applies to the rest of the connection
+  private handleSetLevel(req: JsonRpcRequest, requestId: string, context: DispatchContext): JsonRpcResponse {
+    if (context.stateless) {
+      return {
+        jsonrpc: '2.0',
+        id: req.id,
+        error: {
+          code: -32601,
+          message: 'Method not found',
+          data: 'logging/setLevel requires a session; the server is running stateless'
+        }
+      };
+    }
+
+    const level = (req.params as { level?: unknown } | undefined)?.level;
+
+    if (!isMcpLogLevel(level)) {
+      return {
+        jsonrpc: '2.0',
+        id: req.id,
+        error: {
+          code: -32602,
+          message: 'Invalid params',
+          data: `level must be one of: ${MCP_LOG_LEVELS.join(', ')}`
+        }
+      };
+    }
+
+    if (context.protocol) {
+      context.protocol.logLevel = level;
+    }
+
+    logger.info('Client log level set', { requestId, level });
+
+    return { jsonrpc: '2.0', id: req.id, result: {} };
+  }
+
+  // Handle notifications/cancelled: abort the named tool call if it is still running on this connection
+  private handleCancelled(req: JsonRpcRequest, requestId: string, context: DispatchContext): void {
+    const params = req.params as { requestId?: string | number; reason?: string } | undefined;
+    const cancelledId = params?.requestId;
+    const controller = context.protocol && cancelledId !== undefined
+      ? this.inFlight.get(context.protocol)?.get(cancelledId)
+      : undefined;
+
+    if (!controller) {
+      // Already finished, or never seen on this connection. Without a session every request is its own
+      // connection, so nothing can be cancelled
+      logger.debug('Ignoring cancellation for unknown request', { requestId, cancelledId, stateless: !!context.stateless });
+      return;
+    }
+
+    logger.info('Cancelling tool call', { requestId, cancelledId, reason: params?.reason });
+    controller.abort(params?.reason);
+  }
+
+  // Forward log entries at or above the connection's level to the client, when it asked for them
+  private createLogSink(context: DispatchContext): LogSink | undefined {
+    const threshold = context.protocol?.logLevel;
+    const notify = context.notify;
+    if (!threshold || !notify) {
+      return undefined;
+    }
+
+    return (level, entry) => {
+      const mcpLevel = toMcpLogLevel(level);
+      if (isLogLevelEnabled(mcpLevel, threshold)) {
+        notify({
+          jsonrpc: '2.0',
+          method: 'notifications/message',
+          params: { level: mcpLevel, logger: 'appstle-mcp-server', data: entry }
+        });
+      }
+    };
+  }
+
+  // Run a tool call or resource read that notifications/cancelled can abort until it sends its first write.
+  // After that the call finishes and its result is returned anyway, so the client learns what was changed.
+  private async runCancellable<T>(
+    req: JsonRpcRequest,
+    context: DispatchContext,
+    run: () => Promise<T>
+  ): Promise<T | typeof CANCELLED> {
+    const controller = new AbortController();
+    const requestContext: RequestContext = { signal: controller.signal, logSink: this.createLogSink(context) };
+    const id = req.id;
+
+    let calls: Map<string | number, AbortController> | undefined;
+    if (context.protocol && id !== undefined) {
+      calls = this.inFlight.get(context.protocol);
+      if (!calls) {
+        calls = new Map();
+        this.inFlight.set(context.protocol, calls);
+      }
+      calls.set(id, controller);
+    }
+
+    const cancelledBeforeWrite = (): boolean => controller.signal.aborted && !requestContext.writeStarted;
+
+    try {
+      const result = await runWithRequestContext(requestContext, run);
+      if (controller.signal.aborted && requestContext.writeStarted) {
+        logger.info('Cancellation arrived after a write; returning the result', { id });
+      }
+      return cancelledBeforeWrite() ? CANCELLED : result;
+    } catch (error) {
+      if (cancelledBeforeWrite()) {
+        return CANCELLED;
+      }
+      throw error;
+    } finally {
+      if (id !== undefined) {
+        calls?.delete(id);
+      }
+    }
+  }
+
+  // Handle tools/call method; returns null when the client cancelled the call
+  private async handleToolsCall(req: JsonRpcRequest, requestId: string, context: DispatchContext): Promise<JsonRpcResponse | null> {
+    const params = req.params as {
+      name: string;
+      arguments?: Record<string, unknown>;
+      _meta?: { progressToken?: string | number };
+    };
+
+    if (!params?.name) {
+      return {
+        jsonrpc: '2.0',
+        id: req.id,
+        error: {
+          code: -32602,
+          message: 'Invalid params',
+          data: 'Tool name is required'
+        }
+      };
+    }
+
+    logger.info('Calling tool', {
+      requestId,
+      toolName: params.name,
+      hasArguments: !!params.arguments
+    });
+
+    try {
+      // Get the tool implementation
+      const toolFunction = Object.prototype.hasOwnProperty.call(this.tools, params.name)
+        ? this.tools[params.name]
+        : undefined;
+
+      if (!toolFunction) {
+        return {
+          jsonrpc: '2.0',
+          id: req.id,
+          error: {
+            code: -32601,
+            message: 'Method not found',
+            data: `Tool '${params.name}' not found`
+          }
+        };
+      }
+
+      // Tools run as a single step, so progress is reported when the call starts and when it finishes
+      const progressToken = params._meta?.progressToken;
+      const reportProgress = (progress: number, message: string): void => {
+        if (progressToken !== undefined && context.notify) {
+          context.notify({
+            jsonrpc: '2.0',
+            method: 'notifications/progress',
+            params: { progressToken, progress, total: 1, message }
+          });
+        }
+      };
+
+      reportProgress(0, `Running ${params.name}`);
+
+      // Call the tool; its Appstle requests see the abort signal through the request context
+      const result = await this.runCancellable(req, context, () => toolFunction(params.arguments || {}, requestId));
+      if (result === CANCELLED) {
+        logger.info('Tool call cancelled', { requestId, toolName: params.name });
+        return null;
+      }
+
+      reportProgress(1, `Finished ${params.name}`);
+
+      logger.info('Tool call completed successfully', {
+        requestId,
+        toolName: params.name
+      });
+
+      const protocolVersion = context.protocol?.protocolVersion ?? DEFAULT_PROTOCOL_VERSION;
+      const isObjectResult = typeof result === 'object' && result !== null && !Array.isArray(result);
+
+      return {
+        jsonrpc: '2.0',
+        id: req.id,
+        result: {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ],
+          // Newer clients read the typed result directly; the text copy stays for older ones
+          ...(supportsStructuredContent(protocolVersion) && isObjectResult ? { structuredContent: result } : {})
+        }
+      };
+
+    } catch (error) {
+      logger.error('Tool call failed', {
+        requestId,
+        toolName: params.name,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      return {
+        jsonrpc: '2.0',
+        id: req.id,
+        error: {
+          code: -32603,
+          message: 'Internal error',
+          data: error instanceof Error ? error.message : String(error)
+        }
+      };
+    }
+  }
+}
+
+export type {
+  JsonRpcRequest,
+  JsonRpcResponse,
+  JsonRpcError,
+  JsonRpcNotification,
+  DispatchContext,
+  McpServerDefinition,
+  ToolHandler,
+};
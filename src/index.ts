@@ -0,0 +1,19 @@
+import { logger } from './logger.js';
+import { StdioMcpTransport } from './stdio.js';
+
+// Entry point for local MCP clients (desktop apps, scripts): speaks JSON-RPC over stdin/stdout.
+// Logs must be redirected before the server module loads, because creating the server logs.
+logger.useStderr();
+
+const { simpleServer } = await import('./server-simple.js');
+
+logger.info('Starting stdio MCP transport', {});
+
+try {
+  await new StdioMcpTransport(simpleServer).start();
+} catch (error) {
+  logger.error('stdio transport failed', {
+    error: error instanceof Error ? error.message : String(error),
+  });
+  process.exitCode = 1;
+}
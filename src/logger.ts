@@ -1,3 +1,5 @@
+import { getRequestContext } from './request-context.js';
+
 type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
 interface LogContext {
@@ -11,9 +13,33 @@ interface LogContext {
   [key: string]: unknown;
 }
 
+// Extra destination for log entries, e.g. an MCP client that asked for logs with logging/setLevel
+type LogSink = (level: LogLevel, entry: Record<string, unknown>) => void;
+
+const SENSITIVE_FIELDS = ['email', 'password', 'apiKey', 'api_key', 'token', 'authorization'];
+const ADDRESS_FIELDS = ['address', 'city', 'province', 'zip', 'postal', 'phone', 'firstName', 'lastName', 'first_name', 'last_name', 'company'];
+
 class Logger {
+  private stderrOnly = false;
+
+  // Send every level to stderr - required when stdout carries the stdio transport's JSON-RPC messages
+  useStderr(): void {
+    this.stderrOnly = true;
+  }
+
   private maskSensitiveData(data: unknown): unknown {
     if (typeof data === 'string') {
+      // Raw request/response payloads are logged as JSON strings, so mask their fields too
+      const trimmed = data.trim();
+      if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        try {
+          const parsed: unknown = JSON.parse(trimmed);
+          return JSON.stringify(this.maskSensitiveData(parsed), null, data.includes('\n') ? 2 : undefined);
+        } catch {
+          // Not JSON - fall through to pattern masking
+        }
+      }
+
       // Mask email addresses
       let maskedData = data.replace(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, '[EMAIL_MASKED]');
       
@@ -33,8 +59,8 @@ class Logger {
     if (data && typeof data === 'object') {
       const masked: Record<string, unknown> = {};
       for (const [key, value] of Object.entries(data)) {
-        // Mask specific sensitive fields
-        if (['email', 'password', 'apiKey', 'api_key', 'token', 'authorization'].some(field => 
+        // Mask specific sensitive fields, including every part of a postal address
+        if ([...SENSITIVE_FIELDS, ...ADDRESS_FIELDS].some(field => 
           key.toLowerCase().includes(field.toLowerCase())
         )) {
           masked[key] = '[MASKED]';
@@ -63,32 +89,44 @@ class Logger {
     return masked;
   }
 
-  private formatMessage(level: LogLevel, message: string, context?: LogContext): string {
+  private formatEntry(level: LogLevel, message: string, context?: LogContext): Record<string, unknown> {
     const timestamp = new Date().toISOString();
     const maskedContext = context ? this.maskIdentifiers(this.maskSensitiveData(context) as LogContext) : {};
     
-    return JSON.stringify({
+    return {
       timestamp,
       level: level.toUpperCase(),
       message: this.maskSensitiveData(message),
       ...maskedContext,
-    });
+    };
   }
 
   debug(message: string, context?: LogContext): void {
-    console.debug(this.formatMessage('debug', message, context));
+    this.write('debug', this.formatEntry('debug', message, context));
   }
 
   info(message: string, context?: LogContext): void {
-    console.info(this.formatMessage('info', message, context));
+    this.write('info', this.formatEntry('info', message, context));
   }
 
   warn(message: string, context?: LogContext): void {
-    console.warn(this.formatMessage('warn', message, context));
+    this.write('warn', this.formatEntry('warn', message, context));
   }
 
   error(message: string, context?: LogContext): void {
-    console.error(this.formatMessage('error', message, context));
+    this.write('error', this.formatEntry('error', message, context));
+  }
+
+  private write(level: LogLevel, entry: Record<string, unknown>): void {
+    // Entries are already masked, so the request's sink gets the same data as the console
+    getRequestContext()?.logSink?.(level, entry);
+
+    const line = JSON.stringify(entry);
+    if (this.stderrOnly) {
+      console.error(line);
+    } else {
+      console[level](line);
+    }
   }
 
   generateRequestId(): string {
@@ -97,4 +135,4 @@ class Logger {
 }
 
 export const logger = new Logger();
-export type { LogLevel, LogContext };
\ No newline at end of file
+export type { LogLevel, LogContext, LogSink };
\ No newline at end of file
@@ -4,8 +4,38 @@ import type {
   PastOrder, 
   OrderItem,
   PageInfo,
-  NextStepGuidance
+  NextStepGuidance,
+  SelectionMapEntry,
+  CancellationReason,
+  RetentionOffer,
+  SubscriptionLine,
+  ShippingAddress,
+  StoredShippingAddress,
+  SubscriptionDiscount,
+  SubscriptionDetailLine,
+  PaymentMethod,
+  GetSubscriptionDetailsOutput,
+  FailedPayment,
+  FindOrderByNameOutput,
+  RangeSkipResult,
+  PreferenceLineResult,
+  SkipOrdersInRangeOutput,
+  ContractSkipResult,
+  MultiContractSkipOutput,
+  GetCustomerOverviewOutput,
+  TimelineEntry,
+  GetSubscriptionTimelineOutput
 } from './schemas.js';
+import type { RetentionOfferType } from './config.js';
+import { STORE_TIMEZONE } from './config.js';
+import { isDateOnly, toBillingDateTime, toStoreDate } from './store-dates.js';
+import type {
+  AppstleContractLine,
+  AppstleOneOff,
+  AppstleMailingAddress,
+  AppstleContractDiscount,
+  AppstleSubscriptionContract
+} from './appstle.js';
 
 // Parse Shopify GID to extract numeric ID
 export function parseGidTail(gid: string): number {
@@ -42,6 +72,89 @@ export function buildPageableQueryJson(params: {
   });
 }
 
+// Build a plan name such as "2 WEEKs" from a delivery policy
+export function buildPlanName(deliveryPolicy?: { interval: string; intervalCount: number }): string {
+  if (!deliveryPolicy) {
+    return 'Subscription';
+  }
+  const { interval, intervalCount } = deliveryPolicy;
+  return `${intervalCount} ${interval}${intervalCount > 1 ? 's' : ''}`;
+}
+
+// Line attribute keys that hold the customer's preferences
+const PROTEIN_SUBSTITUTION_KEY = 'Protein Substitution';
+const ALLERGIES_KEY = 'Allergies';
+
+// Extract customAttributes from the first line (all lines should have same attributes)
+export function extractPreferences(lines: AppstleContractLine[]): { proteinSubstitution?: string; allergies?: string } {
+  const customAttrs = lines[0]?.customAttributes;
+  if (!customAttrs) {
+    return {};
+  }
+  return {
+    proteinSubstitution: customAttrs.find(attr => attr.key === PROTEIN_SUBSTITUTION_KEY)?.value,
+    allergies: customAttrs.find(attr => attr.key === ALLERGIES_KEY)?.value,
+  };
+}
+
+// Build a one-line items summary (first 3 items) with preferences appended for differentiation
+export function buildItemsSummary(lines: AppstleContractLine[]): string {
+  if (!lines.length) {
+    return '';
+  }
+
+  const items = lines.map(line => {
+    const title = line.variantTitle || line.productTitle || 'Item';
+    return line.quantity > 1 ? `${line.quantity}x ${title}` : title;
+  });
+  let itemsSummary = items.slice(0, 3).join(', ');
+  if (items.length > 3) {
+    itemsSummary += ` +${items.length - 3} more`;
+  }
+
+  const { proteinSubstitution, allergies } = extractPreferences(lines);
+  if (proteinSubstitution || allergies) {
+    const preferences = [];
+    if (proteinSubstitution) preferences.push(`No ${proteinSubstitution}`);
+    if (allergies) preferences.push(`Allergies: ${allergies}`);
+    itemsSummary += ` | ${preferences.join(' | ')}`;
+  }
+
+  return itemsSummary;
+}
+
+// Build numbered lines with their stable Shopify line IDs so the model can refer to individual items
+export function buildSubscriptionLines(lines: AppstleContractLine[]): SubscriptionLine[] {
+  return lines.map((line, index) => {
+    const title = line.productTitle && line.variantTitle
+      ? `${line.productTitle} - ${line.variantTitle}`
+      : line.variantTitle || line.productTitle || 'Item';
+    return {
+      line_number: index + 1,
+      line_id: line.id || undefined,
+      variant_id: line.variantId || undefined,
+      title,
+      quantity: line.quantity,
+    };
+  });
+}
+
+// Label a subscription as the customer sees it in a numbered list, with its protein/allergy differentiators
+function formatSubscriptionChoice(sub: {
+  subscription_number: number;
+  subscription_contract_id: number;
+  status?: string;
+  protein_substitution?: string;
+  allergies?: string;
+}): string {
+  const preferences = [];
+  if (sub.protein_substitution) preferences.push(`No ${sub.protein_substitution}`);
+  if (sub.allergies) preferences.push(`${sub.allergies}`);
+  const prefStr = preferences.length ? ` (${preferences.join(', ')})` : '';
+  const statusStr = sub.status === 'PAUSED' ? ' [PAUSED]' : '';
+  return `${sub.subscription_number}. Subscription ID ${sub.subscription_contract_id}${prefStr}${statusStr}`;
+}
+
 // Transform Appstle subscription response to our schema
 export function toSubscriptionsSummary(appstle: {
   subscriptionContracts: {
@@ -57,15 +170,7 @@ export function toSubscriptionsSummary(appstle: {
         };
         lines?: {
           edges: Array<{
-            node: {
-              productTitle?: string;
-              variantTitle?: string;
-              quantity: number;
-              customAttributes?: Array<{
-                key: string;
-                value: string;
-              }>;
-            };
+            node: AppstleContractLine;
           }>;
         };
         originOrder?: {
@@ -78,59 +183,27 @@ export function toSubscriptionsSummary(appstle: {
       endCursor?: string;
     };
   };
-}): { subscriptions: Subscription[]; page_info: PageInfo; active_subscription_count: number; workflow_guidance: string; next_step_guidance: NextStepGuidance } {
-  // Filter to only active subscriptions
+}, options: { includePaused?: boolean } = {}): { subscriptions: Subscription[]; page_info: PageInfo; active_subscription_count: number; paused_subscription_count?: number; workflow_guidance: string; next_step_guidance: NextStepGuidance } {
+  // Filter to only active subscriptions (plus paused ones when asked, so they can be resumed)
   const activeEdges = appstle.subscriptionContracts.edges.filter(edge => 
-    edge.node.status === 'ACTIVE'
+    edge.node.status === 'ACTIVE' || (options.includePaused && edge.node.status === 'PAUSED')
   );
 
   const subscriptions: Subscription[] = activeEdges.map((edge, index) => {
     const node = edge.node;
     const contractId = parseGidTail(node.id);
     
-    // Build plan name from delivery policy
-    let planName = 'Subscription';
-    if (node.deliveryPolicy) {
-      const { interval, intervalCount } = node.deliveryPolicy;
-      planName = `${intervalCount} ${interval}${intervalCount > 1 ? 's' : ''}`;
-    }
+    const planName = buildPlanName(node.deliveryPolicy);
     
-    // Extract customAttributes from the first line (all lines should have same attributes)
-    let proteinSubstitution: string | undefined;
-    let allergies: string | undefined;
+    const lines = node.lines?.edges.map(lineEdge => lineEdge.node) || [];
+    const { proteinSubstitution, allergies } = extractPreferences(lines);
     let originOrderName: string | undefined;
     
-    if (node.lines?.edges.length && node.lines.edges[0]?.node?.customAttributes) {
-      const customAttrs = node.lines.edges[0].node.customAttributes;
-      proteinSubstitution = customAttrs.find(attr => attr.key === 'Protein Substitution')?.value;
-      allergies = customAttrs.find(attr => attr.key === 'Allergies')?.value;
-    }
-    
     if (node.originOrder?.name) {
       originOrderName = node.originOrder.name;
     }
     
-    // Build items summary with preferences
-    let itemsSummary = '';
-    if (node.lines?.edges.length) {
-      const items = node.lines.edges.map(lineEdge => {
-        const line = lineEdge.node;
-        const title = line.variantTitle || line.productTitle || 'Item';
-        return line.quantity > 1 ? `${line.quantity}x ${title}` : title;
-      });
-      itemsSummary = items.slice(0, 3).join(', ');
-      if (items.length > 3) {
-        itemsSummary += ` +${items.length - 3} more`;
-      }
-      
-      // Add preferences to items summary for differentiation
-      if (proteinSubstitution || allergies) {
-        const preferences = [];
-        if (proteinSubstitution) preferences.push(`No ${proteinSubstitution}`);
-        if (allergies) preferences.push(`Allergies: ${allergies}`);
-        itemsSummary += ` | ${preferences.join(' | ')}`;
-      }
-    }
+    const itemsSummary = buildItemsSummary(lines);
 
     return {
       subscription_contract_id: contractId,
@@ -139,10 +212,13 @@ export function toSubscriptionsSummary(appstle: {
       plan_name: planName,
       next_billing_date: node.nextBillingDate,
       items_summary: itemsSummary || undefined,
+      lines: lines.length ? buildSubscriptionLines(lines) : undefined,
       created_at: node.createdAt || undefined,
-      can_skip_orders: true, // All active subscriptions can skip orders
-      upcoming_orders_count: 1, // Estimate - active subscriptions typically have at least 1 upcoming order
-      suggested_next_action: `Call list_upcoming_orders with subscription_contract_id: ${contractId} to see upcoming orders for this subscription`,
+      can_skip_orders: node.status === 'ACTIVE', // Only active subscriptions can skip orders
+      upcoming_orders_count: node.status === 'ACTIVE' ? 1 : 0, // Estimate - active subscriptions typically have at least 1 upcoming order
+      suggested_next_action: node.status === 'ACTIVE'
+        ? `Call list_upcoming_orders with subscription_contract_id: ${contractId} to see upcoming orders for this subscription`
+        : `This subscription is paused. Call resume_subscription with subscription_contract_id: ${contractId} if the customer wants deliveries to restart`,
       // Differentiation fields
       subscription_number: index + 1,
       protein_substitution: proteinSubstitution,
@@ -151,21 +227,35 @@ export function toSubscriptionsSummary(appstle: {
     };
   });
 
-  const activeCount = subscriptions.length;
+  const activeCount = subscriptions.filter(sub => sub.status === 'ACTIVE').length;
+  const pausedCount = subscriptions.length - activeCount;
   
-  // Generate workflow guidance based on number of active subscriptions
+  // Generate workflow guidance based on number of listed subscriptions
   let workflowGuidance: string;
   let next_step_guidance: NextStepGuidance;
   
-  if (activeCount === 0) {
-    workflowGuidance = "No active subscriptions found. Customer cannot skip orders.";
+  if (subscriptions.length === 0) {
+    workflowGuidance = options.includePaused
+      ? "No active or paused subscriptions found. Customer cannot skip or resume orders."
+      : "No active subscriptions found. Customer cannot skip orders.";
     next_step_guidance = {
-      ask_customer: "You don't have any active subscriptions to manage.",
+      ask_customer: options.includePaused
+        ? "You don't have any active or paused subscriptions to manage."
+        : "You don't have any active subscriptions to manage.",
       show_options: false,
       save_parameter: "none",
       next_tool: "none"
     };
-  } else if (activeCount === 1) {
+  } else if (subscriptions.length === 1 && pausedCount === 1) {
+    workflowGuidance = `Customer has 1 paused subscription. To restart deliveries: ask whether to resume now or from a specific date, then call resume_subscription with subscription_contract_id: ${subscriptions[0].subscription_contract_id}.`;
+    next_step_guidance = {
+      ask_customer: "Your subscription is currently paused. Would you like me to resume it? I can restart your deliveries right away or from a date you choose.",
+      show_options: false,
+      save_parameter: "subscription_contract_id",
+      next_tool: "resume_subscription",
+      condition: "OFFER_RESUME_DATE"
+    };
+  } else if (subscriptions.length === 1) {
     workflowGuidance = `Customer has 1 active subscription. To skip an order: call list_upcoming_orders with subscription_contract_id: ${subscriptions[0].subscription_contract_id}, then ask customer which order to skip, then call skip_order.`;
     next_step_guidance = {
       ask_customer: "I found your subscription. Let me check your upcoming deliveries.",
@@ -176,15 +266,11 @@ export function toSubscriptionsSummary(appstle: {
     };
   } else {
     // Build differentiation summary for multiple subscriptions
-    const subscriptionSummaries = subscriptions.map(sub => {
-      const preferences = [];
-      if (sub.protein_substitution) preferences.push(`No ${sub.protein_substitution}`);
-      if (sub.allergies) preferences.push(`${sub.allergies}`);
-      const prefStr = preferences.length ? ` (${preferences.join(', ')})` : '';
-      return `${sub.subscription_number}. Subscription ID ${sub.subscription_contract_id}${prefStr}`;
-    }).join('\n');
+    const subscriptionSummaries = subscriptions.map(formatSubscriptionChoice).join('\n');
     
-    workflowGuidance = `Customer has ${activeCount} active subscriptions. Ask customer which subscription they want to skip orders for, then call list_upcoming_orders with the chosen subscription_contract_id.`;
+    workflowGuidance = pausedCount > 0
+      ? `Customer has ${activeCount} active and ${pausedCount} paused subscriptions. Ask customer which subscription they want to manage, then call list_upcoming_orders for an active one or resume_subscription for a paused one.`
+      : `Customer has ${activeCount} active subscriptions. Ask customer which subscription they want to skip orders for, then call list_upcoming_orders with the chosen subscription_contract_id.`;
     next_step_guidance = {
       ask_customer: `Which subscription would you like to manage? Please select by number:\n\n${subscriptionSummaries}\n\nReply with the number (1, 2, 3, etc.) and I'll check that subscription's upcoming deliveries.`,
       show_options: true,
@@ -201,6 +287,7 @@ export function toSubscriptionsSummary(appstle: {
       end_cursor: appstle.subscriptionContracts.pageInfo.endCursor,
     },
     active_subscription_count: activeCount,
+    ...(options.includePaused ? { paused_subscription_count: pausedCount } : {}),
     workflow_guidance: workflowGuidance,
     next_step_guidance: next_step_guidance,
   };
@@ -215,6 +302,8 @@ export function mapBillingAttempt(attempt: {
   orderName?: string;
   billingDate: string;
   status: string;
+  billingAttemptResponseMessage?: string | null; // Gateway/Shopify error for FAILURE attempts
+  attemptCount?: number;
   variantList?: Array<{
     title?: string;
     quantity?: number;
@@ -239,6 +328,10 @@ export function mapBillingAttempt(attempt: {
     order_name: attempt.orderName || undefined,
     billing_date: attempt.billingDate,
     status: attempt.status,
+    failure_reason: attempt.status === 'FAILURE'
+      ? attempt.billingAttemptResponseMessage || 'Unknown error'
+      : undefined,
+    attempt_count: attempt.attemptCount || undefined,
   };
 
   // For upcoming orders, include items
@@ -260,7 +353,9 @@ function formatDateForCustomer(dateString: string): string {
     return date.toLocaleDateString('en-US', { 
       year: 'numeric', 
       month: 'long', 
-      day: 'numeric' 
+      day: 'numeric',
+      // Billing instants are shown on the store's calendar; a bare YYYY-MM-DD already is a calendar day
+      timeZone: isDateOnly(dateString) ? 'UTC' : STORE_TIMEZONE,
     });
   } catch {
     // Fallback to original string if parsing fails
@@ -268,6 +363,24 @@ function formatDateForCustomer(dateString: string): string {
   }
 }
 
+// Map one-time products to order items
+export function mapOneOffItems(oneOffs: AppstleOneOff[]): OrderItem[] {
+  return oneOffs.map(oneOff => ({
+    title: oneOff.variantTitle || oneOff.productTitle || oneOff.variantHandle || 'Item',
+    quantity: oneOff.quantity || 1,
+    purchase_type: 'ONE_TIME' as const,
+  }));
+}
+
+// Flag an upcoming order's items as recurring and append the one-time items attached to it
+function withOneOffItems(order: UpcomingOrder, oneOffs: AppstleOneOff[]): UpcomingOrder {
+  const recurring = (order.items || []).map(item => ({ ...item, purchase_type: 'RECURRING' as const }));
+  const oneTime = mapOneOffItems(oneOffs.filter(oneOff => oneOff.billingAttemptId === order.order_id));
+  const items = [...recurring, ...oneTime];
+
+  return items.length > 0 ? { ...order, items } : order;
+}
+
 // Transform Appstle top-orders response
 export function toUpcomingOrders(appstle: Array<{
   id: number;
@@ -282,10 +395,10 @@ export function toUpcomingOrders(appstle: Array<{
     productTitle?: string;
     variantTitle?: string;
   }>;
-}>): { upcoming: UpcomingOrder[]; next_step_guidance: NextStepGuidance; selection_map: Array<{ selection_number: number; order_id: number; billing_date: string }> } {
+}>, oneOffs: AppstleOneOff[] = []): { upcoming: UpcomingOrder[]; next_step_guidance: NextStepGuidance; selection_map: Array<{ selection_number: number; order_id: number; billing_date: string }> } {
   const upcoming = appstle
     .filter(attempt => attempt.id != null) // Filter out orders without valid IDs
-    .map(attempt => mapBillingAttempt(attempt) as UpcomingOrder);
+    .map(attempt => withOneOffItems(mapBillingAttempt(attempt) as UpcomingOrder, oneOffs));
     
   // Build selection map for numbered choices
   const selection_map = upcoming.map((order, index) => ({
@@ -315,7 +428,14 @@ export function toUpcomingOrders(appstle: Array<{
 }
 
 // Transform Appstle past-orders response
-export function toPastOrders(appstle: any): { past: PastOrder[]; page: number; size: number; has_more: boolean } {
+export function toPastOrders(appstle: any): {
+  past: PastOrder[];
+  page: number;
+  size: number;
+  has_more: boolean;
+  skipped_selection_map?: SelectionMapEntry[];
+  next_step_guidance?: NextStepGuidance;
+} {
   // Handle two possible response formats:
   // 1. Paginated object: {content: [...], totalElements: N, size: 10, number: 0}
   // 2. Direct array: [item1, item2, item3]
@@ -343,12 +463,249 @@ export function toPastOrders(appstle: any): { past: PastOrder[]; page: number; s
     .filter(attempt => attempt.id != null) // Filter out orders without valid IDs
     .map(attempt => mapBillingAttempt(attempt) as PastOrder);
   
-  return {
+  const result = {
     past,
     page: pageNumber,
     size: size,
     has_more: false, // For direct array format, we can't determine if there are more pages
   };
+
+  // Skipped orders can be restored with unskip_order - offer them as numbered choices
+  const skipped = past.filter(order => order.status === 'SKIPPED');
+  if (skipped.length === 0) {
+    return result;
+  }
+
+  const skipped_selection_map = skipped.map((order, index) => ({
+    selection_number: index + 1,
+    order_id: order.order_id,
+    billing_date: order.billing_date
+  }));
+
+  const selectionOptions = skipped.map((order, index) =>
+    `${index + 1}. ${formatDateForCustomer(order.billing_date)} (Order ID: ${order.order_id})`
+  ).join('\n');
+
+  const next_step_guidance: NextStepGuidance = {
+    ask_customer: `Which skipped delivery would you like to restore? Please select by number:\n\n${selectionOptions}\n\nReply with the number (1, 2, 3, etc.) and I'll restore that delivery.`,
+    show_options: true,
+    save_parameter: "order_id",
+    next_tool: "unskip_order",
+    condition: "ONLY_IF_RESTORING"
+  };
+
+  return {
+    ...result,
+    skipped_selection_map,
+    next_step_guidance,
+  };
+}
+
+// Gateway messages that mean the card itself is the problem, so a retry will fail again
+const PAYMENT_METHOD_FAILURE_PATTERN = /card|declin|insufficient|funds|expired|payment method|authenticat|do not hono(u)?r|cvc|cvv/i;
+
+export function isPaymentMethodFailure(reason: string): boolean {
+  return PAYMENT_METHOD_FAILURE_PATTERN.test(reason);
+}
+
+// Transform past orders into failed payments (FAILURE attempts only), most recent first
+export function toFailedPayments(appstle: unknown, contractId: number): {
+  subscription_contract_id: number;
+  failed_payments: FailedPayment[];
+  payment_method_update_needed: boolean;
+  next_step_guidance: NextStepGuidance;
+} {
+  const failed_payments = toPastOrders(appstle).past
+    .filter(order => order.status === 'FAILURE')
+    .sort((a, b) => Date.parse(b.billing_date) - Date.parse(a.billing_date))
+    .map((order, index) => {
+      const failureReason = order.failure_reason || 'Unknown error';
+      return {
+        ...order,
+        selection_number: index + 1,
+        failure_reason: failureReason,
+        payment_method_issue: isPaymentMethodFailure(failureReason),
+      };
+    });
+
+  const paymentMethodUpdateNeeded = failed_payments.some(payment => payment.payment_method_issue);
+  const base = {
+    subscription_contract_id: contractId,
+    failed_payments,
+    payment_method_update_needed: paymentMethodUpdateNeeded,
+  };
+
+  if (failed_payments.length === 0) {
+    return {
+      ...base,
+      next_step_guidance: {
+        ask_customer: "I can't see any failed payments on this subscription.",
+        show_options: false,
+        save_parameter: "none",
+        next_tool: "workflow_complete",
+        condition: "COMPLETE"
+      },
+    };
+  }
+
+  const latest = failed_payments[0];
+  if (paymentMethodUpdateNeeded) {
+    return {
+      ...base,
+      next_step_guidance: {
+        ask_customer: `Your payment for the order on ${formatDateForCustomer(latest.billing_date)} didn't go through (${latest.failure_reason}). The card on your subscription needs to be updated before we can send it. Shall I email you a secure link to update your payment details?`,
+        show_options: false,
+        save_parameter: "none",
+        next_tool: "send_payment_update_email",
+        condition: "PAYMENT_METHOD_UPDATE_NEEDED"
+      },
+    };
+  }
+
+  const options = failed_payments
+    .map(payment => `${payment.selection_number}. ${formatDateForCustomer(payment.billing_date)} (Order ID: ${payment.order_id}) - ${payment.failure_reason}`)
+    .join('\n');
+
+  return {
+    ...base,
+    next_step_guidance: {
+      ask_customer: failed_payments.length === 1
+        ? `Your payment for the order on ${formatDateForCustomer(latest.billing_date)} didn't go through (${latest.failure_reason}). Would you like me to try the payment again?`
+        : `These payments didn't go through:\n\n${options}\n\nWhich one would you like me to try again? Reply with the number.`,
+      show_options: failed_payments.length > 1,
+      save_parameter: "order_id",
+      next_tool: "retry_billing_attempt",
+      condition: "OFFER_RETRY"
+    },
+  };
+}
+
+// Transform a retried billing attempt
+export function mapRetryBillingResponse(attempt: {
+  id: number;
+  billingAttemptId?: string;
+  orderId?: number;
+  orderName?: string;
+  billingDate: string;
+  status: string;
+  billingAttemptResponseMessage?: string | null;
+  attemptCount?: number;
+}): {
+  order_id: number;
+  shopify_order_id?: number;
+  order_name?: string;
+  billing_date: string;
+  status: string;
+  failure_reason?: string;
+  message: string;
+  next_step_guidance: NextStepGuidance;
+} {
+  const order = mapBillingAttempt(attempt) as PastOrder;
+  const base = {
+    order_id: order.order_id,
+    shopify_order_id: order.shopify_order_id,
+    order_name: order.order_name,
+    billing_date: order.billing_date,
+    status: order.status,
+    failure_reason: order.failure_reason,
+  };
+
+  if (order.status === 'SUCCESS') {
+    return {
+      ...base,
+      message: 'Payment succeeded',
+      next_step_guidance: {
+        ask_customer: `Good news - the payment went through${order.order_name ? ` and your order ${order.order_name} has been placed` : ''}.`,
+        show_options: false,
+        save_parameter: "none",
+        next_tool: "workflow_complete",
+        condition: "COMPLETE"
+      },
+    };
+  }
+
+  if (order.status === 'FAILURE') {
+    const reason = order.failure_reason || 'Unknown error';
+    const cardProblem = isPaymentMethodFailure(reason);
+    return {
+      ...base,
+      message: 'Payment failed again',
+      next_step_guidance: {
+        ask_customer: cardProblem
+          ? `The payment was declined again (${reason}). The card on your subscription needs to be updated before we can send this order. Shall I email you a secure link to update your payment details?`
+          : `The payment didn't go through again (${reason}). I'll pass this to our team so they can look into it.`,
+        show_options: false,
+        save_parameter: "none",
+        next_tool: cardProblem ? "send_payment_update_email" : "human_handoff",
+        condition: cardProblem ? "PAYMENT_METHOD_UPDATE_NEEDED" : "COMPLETE"
+      },
+    };
+  }
+
+  return {
+    ...base,
+    message: 'Payment retry in progress',
+    next_step_guidance: {
+      ask_customer: "I've asked our system to retry the payment. It can take a few minutes to process - you'll get an order confirmation email once it goes through.",
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    },
+  };
+}
+
+// Result of a charge whose response never arrived (timeout, gateway or network error). The card may
+// already have been charged, so the agent checks list_failed_payments instead of charging again.
+export function mapRetryBillingOutcomeUnknown(orderId: number, billingDate: string): ReturnType<typeof mapRetryBillingResponse> {
+  return {
+    order_id: orderId,
+    billing_date: billingDate,
+    status: 'UNKNOWN',
+    message: 'Payment retry outcome unknown - check list_failed_payments before retrying',
+    next_step_guidance: {
+      ask_customer: "I've sent the payment retry, but I couldn't confirm whether it went through. I'll check the payment status before trying anything else, so you aren't charged twice.",
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "list_failed_payments",
+      condition: "OUTCOME_UNKNOWN"
+    },
+  };
+}
+
+// Transform the payment update email result; sent=false means the cooldown blocked a repeat send
+export function mapPaymentEmailResponse(
+  contractId: number,
+  lastSentAt: Date,
+  cooldownMinutes: number,
+  sent: boolean
+): {
+  subscription_contract_id: number;
+  sent: boolean;
+  last_sent_at: string;
+  next_send_allowed_at: string;
+  message: string;
+  next_step_guidance: NextStepGuidance;
+} {
+  const nextAllowed = new Date(lastSentAt.getTime() + cooldownMinutes * 60 * 1000);
+
+  return {
+    subscription_contract_id: contractId,
+    sent,
+    last_sent_at: lastSentAt.toISOString(),
+    next_send_allowed_at: nextAllowed.toISOString(),
+    message: sent ? 'Payment update email sent' : 'Payment update email already sent recently - not sent again',
+    next_step_guidance: {
+      ask_customer: sent
+        ? "I've emailed you a secure link to update your payment details. Please check your inbox (and your spam or promotions folder) in the next few minutes. Once your card is updated, your next order will go through as normal."
+        : "I sent you the secure link to update your payment details a little earlier, so I haven't sent another one. Please check your inbox, including your spam or promotions folder - the email comes from our store.",
+      show_options: false,
+      // Passed back on any later call in the conversation, so another server instance still applies the cooldown
+      save_parameter: "last_sent_at",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    },
+  };
 }
 
 // Transform skip/unskip response
@@ -372,7 +729,7 @@ export function mapSkipResponse(appstle: {
 } {
   const next_step_guidance: NextStepGuidance = {
     ask_customer: isSkip 
-      ? "Your delivery has been successfully skipped. To restore it later, visit account.thegourmetanimal.com → Manage Subscription → select your subscription → See more details → History tab to unskip."
+      ? "Your delivery has been successfully skipped. If you change your mind, just let me know and I can restore it for you."
       : "Your delivery has been successfully restored.",
     show_options: false,
     save_parameter: "none",
@@ -392,6 +749,1383 @@ export function mapSkipResponse(appstle: {
   };
 }
 
+// Upcoming orders billed between two YYYY-MM-DD dates (inclusive), earliest first.
+// The dates are days in the store's timezone, so billing dates are compared by their day there.
+export function selectOrdersInRange(
+  upcoming: UpcomingOrder[],
+  startDate: string,
+  endDate: string,
+  timeZone: string = STORE_TIMEZONE
+): UpcomingOrder[] {
+  return upcoming
+    .filter(order => {
+      const day = toStoreDate(order.billing_date, timeZone);
+      return day >= startDate && day <= endDate;
+    })
+    .sort((a, b) => Date.parse(a.billing_date) - Date.parse(b.billing_date));
+}
+
+// Summarise a vacation skip, reporting every order in the range - failures are listed, not thrown
+export function mapRangeSkipResults(
+  contractId: number,
+  startDate: string,
+  endDate: string,
+  results: RangeSkipResult[],
+  confirmed: boolean
+): SkipOrdersInRangeOutput {
+  const range = `${formatDateForCustomer(startDate)} and ${formatDateForCustomer(endDate)}`;
+  const datesWith = (result: RangeSkipResult['result']): string => results
+    .filter(entry => entry.result === result)
+    .map(entry => formatDateForCustomer(entry.billing_date))
+    .join(', ');
+
+  const skippedCount = results.filter(entry => entry.result === 'SKIPPED').length;
+  const failedCount = results.filter(entry => entry.result === 'FAILED').length;
+  const toSkipCount = results.filter(entry => entry.result === 'WOULD_SKIP').length;
+
+  let message: string;
+  let next_step_guidance: NextStepGuidance;
+
+  if (!confirmed && toSkipCount > 0) {
+    message = `${toSkipCount} order${toSkipCount > 1 ? 's' : ''} to skip`;
+    next_step_guidance = {
+      ask_customer: `You have ${toSkipCount === 1 ? 'a delivery' : 'deliveries'} scheduled between ${range} on: ${datesWith('WOULD_SKIP')}. Shall I skip ${toSkipCount === 1 ? 'it' : 'all of them'}?`,
+      show_options: true,
+      save_parameter: "none",
+      next_tool: "skip_orders_in_range",
+      condition: "CONFIRM_SKIP_RANGE"
+    };
+  } else if (failedCount > 0) {
+    message = `Skipped ${skippedCount} of ${skippedCount + failedCount} orders`;
+    next_step_guidance = {
+      ask_customer: `${skippedCount > 0 ? `I've skipped your ${skippedCount === 1 ? 'delivery' : 'deliveries'} on ${datesWith('SKIPPED')}, but I` : 'I'} couldn't skip the ${failedCount === 1 ? 'delivery' : 'deliveries'} on ${datesWith('FAILED')}, so ${failedCount === 1 ? 'it is' : 'they are'} still scheduled. I'll pass this to our team to sort out.`,
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "human_handoff",
+      condition: "PARTIAL_FAILURE"
+    };
+  } else if (skippedCount > 0) {
+    message = `Skipped ${skippedCount} order${skippedCount > 1 ? 's' : ''}`;
+    next_step_guidance = {
+      ask_customer: `All done - I've skipped your ${skippedCount === 1 ? 'delivery' : 'deliveries'} on ${datesWith('SKIPPED')}. Deliveries will carry on as normal after ${formatDateForCustomer(endDate)}.`,
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    };
+  } else {
+    message = results.length > 0 ? 'Orders already skipped' : 'No orders in range';
+    next_step_guidance = {
+      ask_customer: results.length > 0
+        ? `Your ${results.length === 1 ? 'delivery' : 'deliveries'} between ${range} ${results.length === 1 ? 'is' : 'are'} already skipped, so there's nothing more to do.`
+        : `You don't have any deliveries scheduled between ${range}, so there's nothing to skip.`,
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    };
+  }
+
+  return {
+    subscription_contract_id: contractId,
+    start_date: startDate,
+    end_date: endDate,
+    confirmed,
+    results,
+    skipped_count: skippedCount,
+    failed_count: failedCount,
+    message,
+    next_step_guidance,
+  };
+}
+
+// Combine the per-subscription outcomes of a skip run across all of a customer's ACTIVE subscriptions
+export function mapMultiContractSkipResults(
+  customerId: number,
+  outcomes: Array<{ subscription: Subscription; orders: RangeSkipResult[]; error?: string }>,
+  confirmed: boolean,
+  tool: 'skip_orders_in_range' | 'skip_next_order' = 'skip_orders_in_range'
+): MultiContractSkipOutput {
+  const nextOnly = tool === 'skip_next_order';
+
+  const subscriptions: ContractSkipResult[] = outcomes.map(({ subscription, orders, error }) => {
+    const has = (result: RangeSkipResult['result']): boolean => orders.some(order => order.result === result);
+
+    let result: ContractSkipResult['result'];
+    if (error) {
+      result = 'FAILED';
+    } else if (has('FAILED')) {
+      result = has('SKIPPED') ? 'PARTIAL' : 'FAILED';
+    } else if (has('WOULD_SKIP')) {
+      result = 'WOULD_SKIP';
+    } else if (has('SKIPPED')) {
+      result = 'SKIPPED';
+    } else {
+      result = 'NOTHING_TO_SKIP';
+    }
+
+    return {
+      subscription_number: subscription.subscription_number,
+      subscription_contract_id: subscription.subscription_contract_id,
+      plan_name: subscription.plan_name,
+      items_summary: subscription.items_summary,
+      protein_substitution: subscription.protein_substitution,
+      allergies: subscription.allergies,
+      result,
+      orders,
+      error,
+    };
+  });
+
+  // "1. Subscription ID 123 (No Chicken): August 1, 2025, August 15, 2025" for the orders with the given outcome
+  const listFor = (results: Array<ContractSkipResult['result']>, orderResult: RangeSkipResult['result']): string => subscriptions
+    .filter(sub => results.includes(sub.result))
+    .map(sub => {
+      const dates = sub.orders
+        .filter(order => order.result === orderResult)
+        .map(order => formatDateForCustomer(order.billing_date))
+        .join(', ');
+      return `${formatSubscriptionChoice(sub)}${dates ? `: ${dates}` : ''}`;
+    })
+    .join('\n');
+
+  const skippedCount = subscriptions.reduce((count, sub) =>
+    count + sub.orders.filter(order => order.result === 'SKIPPED').length, 0);
+  const failedCount = subscriptions.filter(sub => sub.result === 'FAILED' || sub.result === 'PARTIAL').length;
+  const toSkipCount = subscriptions.reduce((count, sub) =>
+    count + sub.orders.filter(order => order.result === 'WOULD_SKIP').length, 0);
+
+  let message: string;
+  let next_step_guidance: NextStepGuidance;
+
+  if (subscriptions.length === 0) {
+    message = 'No active subscriptions';
+    next_step_guidance = {
+      ask_customer: "You don't have any active subscriptions, so there's nothing to skip.",
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    };
+  } else if (!confirmed && toSkipCount > 0) {
+    message = `${toSkipCount} order${toSkipCount > 1 ? 's' : ''} to skip across ${subscriptions.length} subscriptions`;
+    next_step_guidance = {
+      ask_customer: `${nextOnly ? 'These are your next deliveries' : 'These deliveries are scheduled in your dates'}:\n\n${listFor(['WOULD_SKIP'], 'WOULD_SKIP')}\n\nShall I skip all of them?`,
+      show_options: true,
+      save_parameter: "none",
+      next_tool: tool,
+      condition: nextOnly ? "CONFIRM_SKIP_NEXT" : "CONFIRM_SKIP_RANGE"
+    };
+  } else if (failedCount > 0) {
+    message = `Skipped ${skippedCount} order${skippedCount === 1 ? '' : 's'}; ${failedCount} of ${subscriptions.length} subscriptions failed`;
+    next_step_guidance = {
+      ask_customer: `${skippedCount > 0 ? `I've skipped these deliveries:\n\n${listFor(['SKIPPED', 'PARTIAL'], 'SKIPPED')}\n\nBut I` : 'I'} couldn't skip the deliveries for:\n\n${listFor(['FAILED', 'PARTIAL'], 'FAILED')}\n\nThose are still scheduled. I'll pass this to our team to sort out.`,
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "human_handoff",
+      condition: "PARTIAL_FAILURE"
+    };
+  } else if (skippedCount > 0) {
+    message = `Skipped ${skippedCount} order${skippedCount === 1 ? '' : 's'} across ${subscriptions.length} subscriptions`;
+    next_step_guidance = {
+      ask_customer: `All done - I've skipped these deliveries:\n\n${listFor(['SKIPPED'], 'SKIPPED')}\n\nIf you change your mind, just let me know and I can restore them.`,
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    };
+  } else {
+    message = 'Nothing to skip';
+    next_step_guidance = {
+      ask_customer: `There's nothing to skip - none of your subscriptions have a delivery scheduled${nextOnly ? '' : ' in that time'} that isn't already skipped.`,
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    };
+  }
+
+  return {
+    shopify_customer_id: customerId,
+    confirmed,
+    subscriptions,
+    skipped_count: skippedCount,
+    failed_count: failedCount,
+    message,
+    next_step_guidance,
+  };
+}
+
+// Combine a customer's subscriptions and each one's next few orders into one overview with a
+// selection map numbered across all subscriptions
+export function toCustomerOverview(
+  customerId: number,
+  outcomes: Array<{ subscription: Subscription; upcoming: UpcomingOrder[]; error?: string }>,
+  ordersPerSubscription: number,
+  truncated = false
+): GetCustomerOverviewOutput {
+  const selection_map: GetCustomerOverviewOutput['selection_map'] = [];
+
+  const subscriptions = outcomes.map(({ subscription, upcoming, error }) => {
+    const upcoming_orders = [...upcoming]
+      .sort((a, b) => Date.parse(a.billing_date) - Date.parse(b.billing_date))
+      .slice(0, ordersPerSubscription)
+      .map(order => {
+        const entry = {
+          selection_number: selection_map.length + 1,
+          order_id: order.order_id,
+          billing_date: order.billing_date,
+          status: order.status,
+        };
+        selection_map.push({
+          ...entry,
+          subscription_contract_id: subscription.subscription_contract_id,
+          subscription_number: subscription.subscription_number,
+        });
+        return entry;
+      });
+
+    return {
+      subscription_number: subscription.subscription_number,
+      subscription_contract_id: subscription.subscription_contract_id,
+      status: subscription.status,
+      plan_name: subscription.plan_name,
+      next_billing_date: subscription.next_billing_date,
+      items_summary: subscription.items_summary,
+      protein_substitution: subscription.protein_substitution,
+      allergies: subscription.allergies,
+      upcoming_orders,
+      upcoming_orders_error: error,
+    };
+  });
+
+  const activeCount = subscriptions.filter(sub => sub.status === 'ACTIVE').length;
+  const pausedCount = subscriptions.length - activeCount;
+
+  let next_step_guidance: NextStepGuidance;
+  if (subscriptions.length === 0) {
+    next_step_guidance = {
+      ask_customer: "You don't have any active or paused subscriptions to manage.",
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "none"
+    };
+  } else if (activeCount === 0) {
+    next_step_guidance = {
+      ask_customer: `Your ${pausedCount === 1 ? 'subscription is' : 'subscriptions are'} currently paused. Would you like me to resume ${pausedCount === 1 ? 'it' : 'one of them'}? I can restart your deliveries right away or from a date you choose.`,
+      show_options: false,
+      save_parameter: "subscription_contract_id",
+      next_tool: "resume_subscription",
+      condition: "OFFER_RESUME_DATE"
+    };
+  } else if (selection_map.length === 0) {
+    next_step_guidance = {
+      ask_customer: "You don't have any upcoming deliveries scheduled at the moment.",
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    };
+  } else {
+    const labels = new Map(subscriptions.map(sub => [sub.subscription_contract_id, formatSubscriptionChoice(sub).replace(/^\d+\. /, '')]));
+    const options = selection_map.map(entry => {
+      const subscriptionLabel = activeCount > 1 ? ` - ${labels.get(entry.subscription_contract_id)}` : '';
+      const skipped = entry.status === 'SKIPPED' ? ' [SKIPPED]' : '';
+      return `${entry.selection_number}. ${formatDateForCustomer(entry.billing_date)}${subscriptionLabel}${skipped}`;
+    }).join('\n');
+
+    next_step_guidance = {
+      ask_customer: `Here are your upcoming deliveries:\n\n${options}\n\nWhich delivery would you like to change? Reply with the number.`,
+      show_options: true,
+      save_parameter: "order_id",
+      next_tool: "skip_order",
+      condition: "WAIT_FOR_CUSTOMER_CHOICE"
+    };
+  }
+
+  // Not every subscription could be read, so nothing here proves a subscription or delivery is missing
+  if (truncated) {
+    next_step_guidance.ask_customer += "\n\nI could only load some of your subscriptions, so if the one you mean isn't listed, let me know and I'll pass this to our team.";
+  }
+
+  return {
+    shopify_customer_id: customerId,
+    subscriptions,
+    active_subscription_count: activeCount,
+    paused_subscription_count: pausedCount,
+    subscriptions_truncated: truncated,
+    selection_map,
+    next_step_guidance,
+  };
+}
+
+// Collapse Appstle billing attempt statuses into the four states customers ask about
+function toTimelineStatus(status: string): TimelineEntry['timeline_status'] {
+  switch (status) {
+    case 'SUCCESS':
+      return 'SHIPPED';
+    case 'SKIPPED':
+      return 'SKIPPED';
+    case 'FAILURE':
+      return 'FAILED';
+    default:
+      return 'SCHEDULED'; // QUEUED, and in-progress statuses that have not been billed yet
+  }
+}
+
+// Merge past and upcoming orders into one chronological list covering a window around now.
+// An order present in both lists keeps its past-orders record, which has the order name and failure reason.
+export function toSubscriptionTimeline(
+  contractId: number,
+  past: PastOrder[],
+  upcoming: UpcomingOrder[],
+  window: { daysBefore: number; daysAfter: number },
+  now: Date = new Date()
+): GetSubscriptionTimelineOutput {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const windowStart = new Date(now.getTime() - window.daysBefore * dayMs);
+  const windowEnd = new Date(now.getTime() + window.daysAfter * dayMs);
+
+  const byId = new Map<number, PastOrder | UpcomingOrder>();
+  for (const order of [...upcoming, ...past]) {
+    byId.set(order.order_id, order);
+  }
+
+  const timeline: TimelineEntry[] = [...byId.values()]
+    .filter(order => {
+      const billedAt = Date.parse(order.billing_date);
+      return billedAt >= windowStart.getTime() && billedAt <= windowEnd.getTime();
+    })
+    .sort((a, b) => Date.parse(a.billing_date) - Date.parse(b.billing_date))
+    .map(order => ({
+      order_id: order.order_id,
+      billing_date: order.billing_date,
+      timeline_status: toTimelineStatus(order.status),
+      status: order.status,
+      is_past: Date.parse(order.billing_date) < now.getTime(),
+      order_name: order.order_name,
+      shopify_order_id: order.shopify_order_id,
+      failure_reason: 'failure_reason' in order ? order.failure_reason : undefined,
+    }));
+
+  const lastShipped = [...timeline].reverse().find(entry => entry.timeline_status === 'SHIPPED');
+  const nextScheduled = timeline.find(entry => entry.timeline_status === 'SCHEDULED' && !entry.is_past);
+
+  const sentences = [];
+  if (lastShipped) {
+    sentences.push(`Your last delivery was billed on ${formatDateForCustomer(lastShipped.billing_date)}${lastShipped.order_name ? ` (order ${lastShipped.order_name})` : ''}.`);
+  } else {
+    sentences.push(`I can't see a delivery in the last ${window.daysBefore} days.`);
+  }
+  if (nextScheduled) {
+    sentences.push(`Your next delivery is scheduled for ${formatDateForCustomer(nextScheduled.billing_date)}.`);
+  } else {
+    sentences.push(`There's no delivery scheduled in the next ${window.daysAfter} days.`);
+  }
+
+  return {
+    subscription_contract_id: contractId,
+    window_start: windowStart.toISOString(),
+    window_end: windowEnd.toISOString(),
+    timeline,
+    last_shipped: lastShipped,
+    next_scheduled: nextScheduled,
+    next_step_guidance: {
+      ask_customer: sentences.join(' '),
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    },
+  };
+}
+
+// Validate a requested reschedule date against the contract's upcoming orders.
+// The new date must be in the future and before the following scheduled order, otherwise
+// two deliveries would collapse into one. Date-only input is a day in the store's timezone and
+// keeps the order's local billing time.
+export function resolveRescheduleDate(
+  upcoming: UpcomingOrder[],
+  orderId: number,
+  requestedDate: string,
+  now: Date = new Date(),
+  timeZone: string = STORE_TIMEZONE
+): { previous_billing_date: string; new_billing_date: string } {
+  const ordered = [...upcoming].sort((a, b) => Date.parse(a.billing_date) - Date.parse(b.billing_date));
+  const index = ordered.findIndex(order => order.order_id === orderId);
+  if (index === -1) {
+    throw new Error(`Order ${orderId} is not one of the upcoming orders for this subscription. Call list_upcoming_orders for fresh order IDs.`);
+  }
+
+  const current = ordered[index];
+  if (isNaN(Date.parse(requestedDate))) {
+    throw new Error(`Invalid date: ${requestedDate}`);
+  }
+
+  const newBillingDate = toBillingDateTime(requestedDate, current.billing_date, timeZone);
+
+  if (Date.parse(newBillingDate) <= now.getTime()) {
+    throw new Error(`${formatDateForCustomer(newBillingDate)} is in the past. Please choose a future date.`);
+  }
+
+  const following = ordered.slice(index + 1).find(order => order.status !== 'SKIPPED');
+  if (following && Date.parse(newBillingDate) >= Date.parse(following.billing_date)) {
+    throw new Error(`${formatDateForCustomer(newBillingDate)} is on or after the following scheduled delivery on ${formatDateForCustomer(following.billing_date)}. Please choose an earlier date or skip this delivery instead.`);
+  }
+
+  return {
+    previous_billing_date: current.billing_date,
+    new_billing_date: newBillingDate,
+  };
+}
+
+// Transform reschedule response
+export function mapRescheduleResponse(appstle: {
+  id: number;
+  billingDate: string;
+  status: string;
+}, previousBillingDate: string): {
+  order_id: number;
+  previous_billing_date: string;
+  new_billing_date: string;
+  status: string;
+  message: string;
+  next_step_guidance: NextStepGuidance;
+} {
+  const previousDisplay = formatDateForCustomer(previousBillingDate);
+  const newDisplay = formatDateForCustomer(appstle.billingDate);
+
+  return {
+    order_id: appstle.id,
+    previous_billing_date: previousBillingDate,
+    new_billing_date: appstle.billingDate,
+    status: appstle.status,
+    message: `Delivery moved from ${previousDisplay} to ${newDisplay}`,
+    next_step_guidance: {
+      ask_customer: `Your delivery has been moved from ${previousDisplay} to ${newDisplay}.`,
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    },
+  };
+}
+
+// Transform delivery frequency change response
+export function mapFrequencyChangeResponse(appstle: {
+  id: string;
+  nextBillingDate: string;
+  deliveryPolicy?: {
+    interval: string;
+    intervalCount: number;
+  };
+}, requested: { interval: string; intervalCount: number }): {
+  subscription_contract_id: number;
+  plan_name: string;
+  interval: string;
+  interval_count: number;
+  next_billing_date: string;
+  message: string;
+  next_step_guidance: NextStepGuidance;
+} {
+  // Fall back to the requested policy if Appstle omits it from the response
+  const deliveryPolicy = appstle.deliveryPolicy || requested;
+  const planName = buildPlanName(deliveryPolicy);
+  const nextDelivery = formatDateForCustomer(appstle.nextBillingDate);
+
+  return {
+    subscription_contract_id: parseGidTail(appstle.id),
+    plan_name: planName,
+    interval: deliveryPolicy.interval,
+    interval_count: deliveryPolicy.intervalCount,
+    next_billing_date: appstle.nextBillingDate,
+    message: `Delivery frequency changed to every ${planName}`,
+    next_step_guidance: {
+      ask_customer: `Your subscription will now be delivered every ${planName}. Your next delivery is on ${nextDelivery}.`,
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    },
+  };
+}
+
+// Transform pause/resume response, stating the status transition explicitly
+export function mapStatusChangeResponse(appstle: {
+  id: string;
+  status: string;
+  nextBillingDate?: string;
+}, previousStatus: string): {
+  subscription_contract_id: number;
+  previous_status: string;
+  status: string;
+  next_billing_date?: string;
+  message: string;
+  next_step_guidance: NextStepGuidance;
+} {
+  const message = `Subscription status changed from ${previousStatus} to ${appstle.status}`;
+
+  let next_step_guidance: NextStepGuidance;
+  if (appstle.status === 'PAUSED') {
+    next_step_guidance = {
+      ask_customer: "Your subscription is now paused and no deliveries will be sent. Would you like to pick a date for your deliveries to start again? I can set that up now so you don't have to remember.",
+      show_options: false,
+      save_parameter: "resume_date",
+      next_tool: "resume_subscription",
+      condition: "OFFER_RESUME_DATE"
+    };
+  } else {
+    next_step_guidance = {
+      ask_customer: appstle.nextBillingDate
+        ? `Your subscription is active again. Your next delivery is on ${formatDateForCustomer(appstle.nextBillingDate)}.`
+        : "Your subscription is active again.",
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    };
+  }
+
+  return {
+    subscription_contract_id: parseGidTail(appstle.id),
+    previous_status: previousStatus,
+    status: appstle.status,
+    next_billing_date: appstle.nextBillingDate || undefined,
+    message,
+    next_step_guidance,
+  };
+}
+
+// Customer-facing labels for cancellation reasons (also sent to Appstle as cancellation feedback)
+export const CANCELLATION_REASON_LABELS: Record<CancellationReason, string> = {
+  TOO_MUCH_FOOD: 'Too much food',
+  TOO_EXPENSIVE: 'Too expensive',
+  PET_DOES_NOT_LIKE_IT: "Pet doesn't like it",
+  PET_DIET_OR_HEALTH_CHANGE: "Pet's diet or health changed",
+  PET_PASSED_AWAY: 'Pet passed away',
+  MOVING: 'Moving',
+  SWITCHING_BRANDS: 'Switching brands',
+  DELIVERY_ISSUES: 'Delivery issues',
+  OTHER: 'Other',
+};
+
+// Offers that speak most directly to a reason are moved to the front of the list
+const REASON_PREFERRED_OFFERS: Partial<Record<CancellationReason, RetentionOfferType>> = {
+  TOO_MUCH_FOOD: 'change_frequency',
+  TOO_EXPENSIVE: 'discount',
+  MOVING: 'pause',
+  DELIVERY_ISSUES: 'skip',
+};
+
+// Reasons where trying to retain the customer would be inappropriate
+const NO_RETENTION_REASONS: CancellationReason[] = ['PET_PASSED_AWAY'];
+
+// Build the numbered retention offers for a cancellation reason
+export function buildRetentionOffers(
+  reason: CancellationReason,
+  offerTypes: RetentionOfferType[],
+  discountDescription: string,
+  discountCode?: string
+): RetentionOffer[] {
+  if (NO_RETENTION_REASONS.includes(reason)) {
+    return [];
+  }
+
+  const preferred = REASON_PREFERRED_OFFERS[reason];
+  const ordered = preferred && offerTypes.includes(preferred)
+    ? [preferred, ...offerTypes.filter(type => type !== preferred)]
+    : offerTypes;
+
+  const descriptions: Record<RetentionOfferType, { description: string; next_tool: string }> = {
+    skip: { description: 'Skip your next delivery instead', next_tool: 'skip_next_order' },
+    pause: { description: 'Pause your subscription and resume whenever you like', next_tool: 'pause_subscription' },
+    change_frequency: { description: 'Get deliveries less often', next_tool: 'change_delivery_frequency' },
+    discount: {
+      description: `Stay with ${discountDescription}`,
+      next_tool: discountCode ? 'apply_discount_code' : 'human_handoff',
+    },
+  };
+
+  return ordered.map((type, index) => ({
+    option_number: index + 1,
+    offer: type,
+    description: descriptions[type].description,
+    next_tool: descriptions[type].next_tool,
+    discount_code: type === 'discount' ? discountCode : undefined,
+  }));
+}
+
+// Build the pending (not yet cancelled) step of the cancellation flow:
+// first offer alternatives, then ask for explicit confirmation
+export function buildCancellationStep(
+  contractId: number,
+  reason: CancellationReason,
+  offers: RetentionOffer[],
+  alternativesDeclined: boolean
+): {
+  subscription_contract_id: number;
+  cancellation_reason: CancellationReason;
+  cancelled: boolean;
+  status: string;
+  retention_offers?: RetentionOffer[];
+  message: string;
+  next_step_guidance: NextStepGuidance;
+} {
+  const base = {
+    subscription_contract_id: contractId,
+    cancellation_reason: reason,
+    cancelled: false,
+    status: 'PENDING_CONFIRMATION',
+  };
+
+  if (!alternativesDeclined && offers.length > 0) {
+    const options = offers.map(offer => `${offer.option_number}. ${offer.description}`).join('\n');
+    return {
+      ...base,
+      retention_offers: offers,
+      message: 'Subscription not cancelled yet - offer alternatives first',
+      next_step_guidance: {
+        ask_customer: `I can help with that. Before I cancel, would one of these work better for you?\n\n${options}\n\nReply with a number, or let me know if you'd still like to cancel.`,
+        show_options: true,
+        save_parameter: "alternatives_declined",
+        next_tool: "cancel_subscription",
+        condition: "OFFER_ALTERNATIVES"
+      },
+    };
+  }
+
+  const opening = reason === 'PET_PASSED_AWAY'
+    ? "I'm so sorry for your loss. "
+    : '';
+
+  return {
+    ...base,
+    message: 'Subscription not cancelled yet - waiting for customer confirmation',
+    next_step_guidance: {
+      ask_customer: `${opening}Just to confirm: shall I cancel this subscription? All future deliveries will stop.`,
+      show_options: false,
+      save_parameter: "confirm_cancellation",
+      next_tool: "cancel_subscription",
+      condition: "CONFIRM_CANCELLATION"
+    },
+  };
+}
+
+// Transform cancellation response
+export function mapCancellationResponse(appstle: {
+  status?: string;
+}, contractId: number, reason: CancellationReason): {
+  subscription_contract_id: number;
+  cancelled: boolean;
+  cancellation_reason: CancellationReason;
+  status: string;
+  message: string;
+  next_step_guidance: NextStepGuidance;
+} {
+  return {
+    subscription_contract_id: contractId,
+    cancellation_reason: reason,
+    cancelled: true,
+    status: appstle.status || 'CANCELLED',
+    message: 'Subscription cancelled',
+    next_step_guidance: {
+      ask_customer: "Your subscription has been cancelled and no further deliveries will be sent. Thank you for being a customer - you're always welcome back.",
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    },
+  };
+}
+
+// Transform a line item edit response into the refreshed items list
+export function mapLineItemsResponse(appstle: {
+  id: string;
+  lines?: {
+    edges: Array<{
+      node: AppstleContractLine;
+    }>;
+  };
+}, message: string): {
+  subscription_contract_id: number;
+  items_summary?: string;
+  lines: SubscriptionLine[];
+  message: string;
+  next_step_guidance: NextStepGuidance;
+} {
+  const lines = appstle.lines?.edges.map(edge => edge.node) || [];
+  const itemsSummary = buildItemsSummary(lines);
+
+  return {
+    subscription_contract_id: parseGidTail(appstle.id),
+    items_summary: itemsSummary || undefined,
+    lines: buildSubscriptionLines(lines),
+    message,
+    next_step_guidance: {
+      ask_customer: itemsSummary
+        ? `${message}. Your subscription now includes: ${itemsSummary}.`
+        : `${message}.`,
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    },
+  };
+}
+
+// Transform add-one-off response for the billing attempt it was added to
+export function mapOneOffResponse(appstle: AppstleOneOff[], order: {
+  order_id: number;
+  billing_date: string;
+}, contractId: number): {
+  subscription_contract_id: number;
+  order_id: number;
+  billing_date: string;
+  one_time_items: OrderItem[];
+  message: string;
+  next_step_guidance: NextStepGuidance;
+} {
+  const one_time_items = mapOneOffItems((appstle || []).filter(oneOff => oneOff.billingAttemptId === order.order_id));
+  const deliveryDate = formatDateForCustomer(order.billing_date);
+  const itemList = one_time_items
+    .map(item => item.quantity > 1 ? `${item.quantity}x ${item.title}` : item.title)
+    .join(', ');
+
+  return {
+    subscription_contract_id: contractId,
+    order_id: order.order_id,
+    billing_date: order.billing_date,
+    one_time_items,
+    message: 'One-time item added',
+    next_step_guidance: {
+      ask_customer: `Done! Your delivery on ${deliveryDate} will include these one-time extras: ${itemList}. Your regular subscription is unchanged.`,
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    },
+  };
+}
+
+// One-time item request that failed with a server error and could not be checked afterwards.
+// The item may have been attached, so the agent checks the order instead of adding it again.
+export function mapOneOffOutcomeUnknown(order: {
+  order_id: number;
+  billing_date: string;
+}, contractId: number): ReturnType<typeof mapOneOffResponse> {
+  return {
+    subscription_contract_id: contractId,
+    order_id: order.order_id,
+    billing_date: order.billing_date,
+    one_time_items: [],
+    message: 'One-time item outcome unknown - check list_upcoming_orders before adding it again',
+    next_step_guidance: {
+      ask_customer: `I've asked for the extra item to be added to your delivery on ${formatDateForCustomer(order.billing_date)}, but I couldn't confirm it went through. I'll check your upcoming order before trying again, so you aren't charged twice.`,
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "list_upcoming_orders",
+      condition: "OUTCOME_UNKNOWN"
+    },
+  };
+}
+
+// Preference changes: undefined leaves an attribute alone, null removes it
+interface PreferenceUpdate {
+  proteinSubstitution?: string | null;
+  allergies?: string | null;
+}
+
+// Apply preference changes to a line's custom attributes, keeping any unrelated attributes as they are
+export function applyPreferenceAttributes(
+  customAttributes: Array<{ key: string; value: string }> | undefined,
+  update: PreferenceUpdate
+): Array<{ key: string; value: string }> {
+  const changes: Array<[string, string | null | undefined]> = [
+    [PROTEIN_SUBSTITUTION_KEY, update.proteinSubstitution],
+    [ALLERGIES_KEY, update.allergies],
+  ];
+
+  let attributes = [...(customAttributes || [])];
+  for (const [key, value] of changes) {
+    if (value === undefined) continue;
+    const index = attributes.findIndex(attr => attr.key === key);
+    if (value === null) {
+      attributes = attributes.filter(attr => attr.key !== key);
+    } else if (index === -1) {
+      attributes.push({ key, value });
+    } else {
+      attributes[index] = { key, value };
+    }
+  }
+  return attributes;
+}
+
+// Transform the re-read contract after a preference update, verifying every updated line stored exactly what was sent.
+// Lines whose write failed are not verified; they are reported so the customer never hears that everything changed.
+export function mapPreferencesResponse(appstle: {
+  id: string;
+  lines?: {
+    edges: Array<{
+      node: AppstleContractLine;
+    }>;
+  };
+}, update: PreferenceUpdate, lineResults: PreferenceLineResult[]): {
+  subscription_contract_id: number;
+  protein_substitution: string | null;
+  allergies: string | null;
+  lines_updated: number;
+  lines_failed: number;
+  line_results: PreferenceLineResult[];
+  message: string;
+  next_step_guidance: NextStepGuidance;
+} {
+  const lines = appstle.lines?.edges.map(edge => edge.node) || [];
+  const checks: Array<[string, string | null | undefined]> = [
+    [PROTEIN_SUBSTITUTION_KEY, update.proteinSubstitution],
+    [ALLERGIES_KEY, update.allergies],
+  ];
+
+  const updatedLines: AppstleContractLine[] = [];
+  for (const lineResult of lineResults.filter(entry => entry.result === 'UPDATED')) {
+    const line = lines.find(candidate => candidate.id === lineResult.line_id);
+    if (!line) {
+      throw new Error(`${lineResult.line_id} is missing from the subscription after the update`);
+    }
+    for (const [key, expected] of checks) {
+      if (expected === undefined) continue;
+      const stored = line.customAttributes?.find(attr => attr.key === key)?.value ?? null;
+      if (stored !== expected) {
+        throw new Error(`${key} on ${lineResult.line_id} is "${stored ?? 'not set'}" but "${expected ?? 'not set'}" was requested`);
+      }
+    }
+    updatedLines.push(line);
+  }
+
+  const failed = lineResults.filter(entry => entry.result === 'FAILED');
+  // With nothing written, report what the subscription still holds
+  const { proteinSubstitution, allergies } = extractPreferences(updatedLines.length > 0 ? updatedLines : lines);
+  const base = {
+    subscription_contract_id: parseGidTail(appstle.id),
+    protein_substitution: proteinSubstitution ?? null,
+    allergies: allergies ?? null,
+    lines_updated: updatedLines.length,
+    lines_failed: failed.length,
+    line_results: lineResults,
+  };
+
+  if (failed.length > 0) {
+    const failedItems = failed.map(entry => entry.title || 'an item').join(', ');
+    return {
+      ...base,
+      message: `Preferences updated on ${updatedLines.length} of ${lineResults.length} lines`,
+      next_step_guidance: {
+        ask_customer: updatedLines.length > 0
+          ? `I've saved your new preferences on ${updatedLines.length} of ${lineResults.length} items, but I couldn't update: ${failedItems}. Those items still have your old preferences, so I'll pass this to our team to make sure every item has the right allergy information.`
+          : "I couldn't update your preferences, so nothing has changed yet. I'll pass this to our team to sort out.",
+        show_options: false,
+        save_parameter: "none",
+        next_tool: "human_handoff",
+        condition: "PARTIAL_FAILURE"
+      },
+    };
+  }
+
+  const proteinText = proteinSubstitution
+    ? `we'll leave out ${proteinSubstitution}`
+    : 'no protein substitution';
+  const allergiesText = allergies
+    ? `allergies recorded as: ${allergies}`
+    : 'no allergies recorded';
+
+  return {
+    ...base,
+    message: 'Subscription preferences updated',
+    next_step_guidance: {
+      ask_customer: `Done! Your subscription is updated: ${proteinText}, and ${allergiesText}. Please check this is exactly right.`,
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    },
+  };
+}
+
+// Convert a Shopify mailing address to snake_case, dropping empty fields
+export function toShippingAddress(address?: AppstleMailingAddress | null): StoredShippingAddress | null {
+  if (!address) {
+    return null;
+  }
+
+  const fields: Array<[keyof StoredShippingAddress, string | null | undefined]> = [
+    ['first_name', address.firstName],
+    ['last_name', address.lastName],
+    ['company', address.company],
+    ['address1', address.address1],
+    ['address2', address.address2],
+    ['city', address.city],
+    ['province', address.province],
+    ['province_code', address.provinceCode],
+    ['country', address.country],
+    ['country_code', address.countryCode],
+    ['zip', address.zip],
+    ['phone', address.phone],
+  ];
+
+  const result: StoredShippingAddress = {};
+  for (const [key, value] of fields) {
+    if (value) {
+      result[key] = value;
+    }
+  }
+  return Object.keys(result).length > 0 ? result : null;
+}
+
+// Convert a validated address into the body Appstle expects
+export function toAppstleMailingAddress(address: ShippingAddress): AppstleMailingAddress {
+  return {
+    firstName: address.first_name,
+    lastName: address.last_name,
+    company: address.company || null,
+    address1: address.address1,
+    address2: address.address2 || null,
+    city: address.city,
+    province: address.province || null,
+    provinceCode: address.province_code || null,
+    countryCode: address.country_code.toUpperCase(),
+    zip: address.zip,
+    phone: address.phone || null,
+  };
+}
+
+// Single-line address for reading back to the customer, e.g. "Jane Smith, 12 Bark St, Unit 3, Sydney NSW 2000, AU"
+export function formatShippingAddress(address: StoredShippingAddress | null): string | null {
+  if (!address) {
+    return null;
+  }
+
+  const name = [address.first_name, address.last_name].filter(Boolean).join(' ');
+  const locality = [address.city, address.province_code || address.province, address.zip].filter(Boolean).join(' ');
+  const parts = [
+    name,
+    address.company,
+    address.address1,
+    address.address2,
+    locality,
+    address.country_code || address.country,
+  ].filter((part): part is string => Boolean(part));
+
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+// Transform a contract into its current shipping address
+export function mapShippingAddress(appstle: {
+  id: string;
+  deliveryMethod?: {
+    address?: AppstleMailingAddress | null;
+  } | null;
+}): {
+  subscription_contract_id: number;
+  shipping_address: StoredShippingAddress | null;
+  formatted_address: string | null;
+  next_step_guidance: NextStepGuidance;
+} {
+  const shippingAddress = toShippingAddress(appstle.deliveryMethod?.address);
+  const formatted = formatShippingAddress(shippingAddress);
+
+  return {
+    subscription_contract_id: parseGidTail(appstle.id),
+    shipping_address: shippingAddress,
+    formatted_address: formatted,
+    next_step_guidance: {
+      ask_customer: formatted
+        ? `Your deliveries are currently sent to: ${formatted}. Would you like to change this address?`
+        : "I couldn't find a shipping address on this subscription. What address should we deliver to?",
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "update_shipping_address",
+      condition: "ONLY_IF_CHANGING"
+    },
+  };
+}
+
+// Confirmation step before an address change, showing the full old and new address
+export function buildAddressChangeStep(
+  contractId: number,
+  previous: StoredShippingAddress | null,
+  requested: ShippingAddress
+): {
+  subscription_contract_id: number;
+  updated: boolean;
+  previous_address: string | null;
+  new_address: string;
+  shipping_address: StoredShippingAddress;
+  message: string;
+  next_step_guidance: NextStepGuidance;
+} {
+  const shippingAddress = toShippingAddress(toAppstleMailingAddress(requested)) || {};
+  const previousAddress = formatShippingAddress(previous);
+  const newAddress = formatShippingAddress(shippingAddress) || '';
+
+  return {
+    subscription_contract_id: contractId,
+    updated: false,
+    previous_address: previousAddress,
+    new_address: newAddress,
+    shipping_address: shippingAddress,
+    message: 'Address not changed yet - waiting for customer confirmation',
+    next_step_guidance: {
+      ask_customer: `Just to confirm, I'll change your delivery address\nFrom: ${previousAddress || 'no address on file'}\nTo: ${newAddress}\n\nIs the new address exactly right?`,
+      show_options: false,
+      save_parameter: "confirm_update",
+      next_tool: "update_shipping_address",
+      condition: "CONFIRM_ADDRESS_CHANGE"
+    },
+  };
+}
+
+// Transform shipping address update response
+export function mapShippingAddressUpdateResponse(appstle: {
+  id: string;
+  deliveryMethod?: {
+    address?: AppstleMailingAddress | null;
+  } | null;
+}, previous: StoredShippingAddress | null, requested: ShippingAddress): {
+  subscription_contract_id: number;
+  updated: boolean;
+  previous_address: string | null;
+  new_address: string;
+  shipping_address: StoredShippingAddress;
+  message: string;
+  next_step_guidance: NextStepGuidance;
+} {
+  // Fall back to what was sent if Appstle's response omits the delivery method
+  const shippingAddress = toShippingAddress(appstle.deliveryMethod?.address)
+    || toShippingAddress(toAppstleMailingAddress(requested))
+    || {};
+  const newAddress = formatShippingAddress(shippingAddress) || '';
+
+  return {
+    subscription_contract_id: parseGidTail(appstle.id),
+    updated: true,
+    previous_address: formatShippingAddress(previous),
+    new_address: newAddress,
+    shipping_address: shippingAddress,
+    message: 'Shipping address updated',
+    next_step_guidance: {
+      ask_customer: `Done! Future deliveries will be sent to: ${newAddress}.`,
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    },
+  };
+}
+
+// Describe a discount's value for the customer, e.g. "15% off" or "5.00 AUD off"
+function formatDiscountValue(value: AppstleContractDiscount['value']): string | undefined {
+  if (value?.percentage !== undefined) {
+    return `${value.percentage}% off`;
+  }
+  if (value?.amount) {
+    return `${value.amount.amount} ${value.amount.currencyCode} off`;
+  }
+  return undefined;
+}
+
+// Transform the discounts applied to a contract
+export function mapDiscounts(discounts?: { edges: Array<{ node: AppstleContractDiscount }> }): SubscriptionDiscount[] {
+  return (discounts?.edges || []).map(({ node }) => ({
+    discount_id: node.id,
+    title: node.title || 'Discount',
+    value: formatDiscountValue(node.value),
+    remaining_cycles: typeof node.recurringCycleLimit === 'number'
+      ? Math.max(node.recurringCycleLimit - (node.usageCount || 0), 0)
+      : undefined,
+  }));
+}
+
+// Transform apply/remove discount responses
+export function mapDiscountResponse(appstle: {
+  id: string;
+  discounts?: {
+    edges: Array<{
+      node: AppstleContractDiscount;
+    }>;
+  };
+}, message: string): {
+  subscription_contract_id: number;
+  discounts: SubscriptionDiscount[];
+  message: string;
+  next_step_guidance: NextStepGuidance;
+} {
+  const discounts = mapDiscounts(appstle.discounts);
+  const applied = discounts
+    .map(discount => discount.value ? `${discount.title} (${discount.value})` : discount.title)
+    .join(', ');
+
+  return {
+    subscription_contract_id: parseGidTail(appstle.id),
+    discounts,
+    message,
+    next_step_guidance: {
+      ask_customer: applied
+        ? `${message}. Discounts on your subscription: ${applied}.`
+        : `${message}. There are no discounts on your subscription now.`,
+      show_options: false,
+      save_parameter: "none",
+      next_tool: "workflow_complete",
+      condition: "COMPLETE"
+    },
+  };
+}
+
+// Derive the state of the card on file; expiry is checked against the end of the expiry month
+export function toPaymentMethod(
+  method: AppstleSubscriptionContract['customerPaymentMethod'],
+  now: Date = new Date()
+): PaymentMethod {
+  if (!method) {
+    return { status: 'MISSING' };
+  }
+
+  const instrument = method.instrument || {};
+  const expiry = instrument.expiryMonth && instrument.expiryYear
+    ? `${String(instrument.expiryMonth).padStart(2, '0')}/${instrument.expiryYear}`
+    : undefined;
+
+  let status: PaymentMethod['status'] = 'VALID';
+  if (method.revokedAt) {
+    status = 'REVOKED';
+  } else if (instrument.expiryMonth && instrument.expiryYear
+    && Date.UTC(instrument.expiryYear, instrument.expiryMonth) <= now.getTime()) {
+    status = 'EXPIRED';
+  }
+
+  return {
+    status,
+    brand: instrument.brand || undefined,
+    last_digits: instrument.lastDigits || undefined,
+    expiry,
+  };
+}
+
+// Build every line with prices and attributes for the detail view
+function buildSubscriptionDetailLines(lines: AppstleContractLine[]): SubscriptionDetailLine[] {
+  const numbered = buildSubscriptionLines(lines);
+  return lines.map((line, index) => ({
+    ...numbered[index],
+    product_title: line.productTitle || undefined,
+    variant_title: line.variantTitle || undefined,
+    sku: line.sku || undefined,
+    unit_price: line.currentPrice
+      ? { amount: line.currentPrice.amount, currency_code: line.currentPrice.currencyCode }
+      : undefined,
+    line_price: line.lineDiscountedPrice
+      ? { amount: line.lineDiscountedPrice.amount, currency_code: line.lineDiscountedPrice.currencyCode }
+      : undefined,
+    custom_attributes: line.customAttributes?.length ? line.customAttributes : undefined,
+  }));
+}
+
+// Transform a raw contract into the full detail view
+export function toSubscriptionDetails(appstle: AppstleSubscriptionContract, now: Date = new Date()): GetSubscriptionDetailsOutput {
+  const lines = appstle.lines?.edges.map(edge => edge.node) || [];
+  const { proteinSubstitution, allergies } = extractPreferences(lines);
+  const shippingAddress = toShippingAddress(appstle.deliveryMethod?.address);
+  const formattedAddress = formatShippingAddress(shippingAddress);
+  const paymentMethod = toPaymentMethod(appstle.customerPaymentMethod, now);
+  const planName = buildPlanName(appstle.deliveryPolicy);
+
+  const itemList = lines
+    .map(line => {
+      const title = line.variantTitle || line.productTitle || 'Item';
+      return line.quantity > 1 ? `${line.quantity}x ${title}` : title;
+    })
+    .join(', ');
+
+  let askCustomer = itemList
+    ? `Your subscription includes: ${itemList}. Your next delivery is on ${formatDateForCustomer(appstle.nextBillingDate)}.`
+    : `Your subscription has no items. Your next delivery is on ${formatDateForCustomer(appstle.nextBillingDate)}.`;
+  if (paymentMethod.status !== 'VALID') {
+    askCustomer += paymentMethod.status === 'MISSING'
+      ? ' There is no payment method on file, so the next order will fail until one is added.'
+      : ` The card on file is ${paymentMethod.status.toLowerCase()}, so the next order will fail until it is updated.`;
+    askCustomer += ' Shall I email you a secure link to update your payment details?';
+  }
+
+  return {
+    subscription_contract_id: parseGidTail(appstle.id),
+    subscription_contract_gid: appstle.id,
+    status: appstle.status,
+    plan_name: planName,
+    next_billing_date: appstle.nextBillingDate,
+    created_at: appstle.createdAt || undefined,
+    delivery_policy: appstle.deliveryPolicy
+      ? { interval: appstle.deliveryPolicy.interval, interval_count: appstle.deliveryPolicy.intervalCount }
+      : undefined,
+    billing_policy: appstle.billingPolicy
+      ? {
+        interval: appstle.billingPolicy.interval,
+        interval_count: appstle.billingPolicy.intervalCount,
+        min_cycles: appstle.billingPolicy.minCycles ?? undefined,
+        max_cycles: appstle.billingPolicy.maxCycles ?? undefined,
+      }
+      : undefined,
+    lines: buildSubscriptionDetailLines(lines),
+    items_summary: buildItemsSummary(lines) || undefined,
+    protein_substitution: proteinSubstitution,
+    allergies,
+    custom_attributes: appstle.customAttributes || [],
+    shipping_address: shippingAddress,
+    formatted_address: formattedAddress,
+    payment_method: paymentMethod,
+    discounts: mapDiscounts(appstle.discounts),
+    origin_order: appstle.originOrder?.name
+      ? {
+        order_id: appstle.originOrder.id ? parseGidTail(appstle.originOrder.id) : undefined,
+        order_name: appstle.originOrder.name,
+      }
+      : null,
+    next_step_guidance: {
+      ask_customer: askCustomer,
+      show_options: false,
+      save_parameter: "none",
+      next_tool: paymentMethod.status === 'VALID' ? "workflow_complete" : "send_payment_update_email",
+      condition: paymentMethod.status === 'VALID' ? "COMPLETE" : "PAYMENT_METHOD_UPDATE_NEEDED"
+    },
+  };
+}
+
+// Accept a numeric customer ID, a Shopify customer GID or an email address.
+// IDs and GIDs resolve locally; emails need a customer lookup.
+export function normalizeCustomerIdentifier(value: unknown):
+  | { type: 'ID' | 'GID'; customerId: number }
+  | { type: 'EMAIL'; email: string } {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+
+    if (trimmed.startsWith('gid://')) {
+      if (!trimmed.startsWith('gid://shopify/Customer/')) {
+        throw new Error(`Expected a Shopify Customer GID, got ${trimmed}`);
+      }
+      return { type: 'GID', customerId: parseGidTail(trimmed) };
+    }
+
+    if (trimmed.includes('@')) {
+      if (!/^[^\s@"]+@[^\s@"]+\.[^\s@"]+$/.test(trimmed)) {
+        throw new Error('Email address is not valid');
+      }
+      return { type: 'EMAIL', email: trimmed.toLowerCase() };
+    }
+
+    return { type: 'ID', customerId: validateNumericCustomerId(trimmed) };
+  }
+
+  return { type: 'ID', customerId: validateNumericCustomerId(value) };
+}
+
+// Transform a resolved customer into the hand-off to list_subscriptions_for_customer
+export function mapResolvedCustomer(customer: {
+  id: number;
+  firstName?: string;
+}, resolvedFrom: 'ID' | 'GID' | 'EMAIL'): {
+  shopify_customer_id: number;
+  shopify_customer_gid: string;
+  resolved_from: 'ID' | 'GID' | 'EMAIL';
+  first_name?: string;
+  next_step_guidance: NextStepGuidance;
+} {
+  return {
+    shopify_customer_id: customer.id,
+    shopify_customer_gid: `gid://shopify/Customer/${customer.id}`,
+    resolved_from: resolvedFrom,
+    first_name: customer.firstName,
+    next_step_guidance: {
+      ask_customer: customer.firstName
+        ? `Thanks ${customer.firstName}, I've found your account.`
+        : "Thanks, I've found your account.",
+      show_options: false,
+      save_parameter: "shopify_customer_id",
+      next_tool: "list_subscriptions_for_customer",
+      condition: "SKIP_CUSTOMER_CHOICE"
+    },
+  };
+}
+
+// Compare order names the way customers type them: "#TGA1234", "tga1234" and "TGA 1234" are the same order
+export function normalizeOrderName(name: string): string {
+  return name.trim().replace(/^#/, '').replace(/\s+/g, '').toUpperCase();
+}
+
+// Find the billing attempt whose Shopify order has the given name
+export function findOrderByName(orders: PastOrder[], orderName: string): PastOrder | undefined {
+  const wanted = normalizeOrderName(orderName);
+  return orders.find(order => order.order_name && normalizeOrderName(order.order_name) === wanted);
+}
+
+// Transform a matched order into the hand-off to the past-order, skip or payment workflows
+export function mapOrderLookup(contract: {
+  id: string;
+  status: string;
+  deliveryPolicy?: { interval: string; intervalCount: number };
+}, order: PastOrder): FindOrderByNameOutput {
+  const contractId = parseGidTail(contract.id);
+  const orderName = order.order_name || `Order ${order.order_id}`;
+  const billingDate = formatDateForCustomer(order.billing_date);
+
+  let next_step_guidance: NextStepGuidance;
+  let message: string;
+
+  if (order.status === 'FAILURE') {
+    const failureReason = order.failure_reason || 'Unknown error';
+    message = `Payment failed for ${orderName}`;
+    next_step_guidance = isPaymentMethodFailure(failureReason)
+      ? {
+          ask_customer: `The payment for ${orderName} on ${billingDate} didn't go through (${failureReason}). The card on your subscription needs to be updated before we can send it. Shall I email you a secure link to update your payment details?`,
+          show_options: false,
+          save_parameter: "subscription_contract_id",
+          next_tool: "send_payment_update_email",
+          condition: "PAYMENT_METHOD_UPDATE_NEEDED"
+        }
+      : {
+          ask_customer: `The payment for ${orderName} on ${billingDate} didn't go through (${failureReason}). Would you like me to try the payment again?`,
+          show_options: false,
+          save_parameter: "order_id",
+          next_tool: "retry_billing_attempt",
+          condition: "OFFER_RETRY"
+        };
+  } else if (order.status === 'SKIPPED') {
+    message = `${orderName} was skipped`;
+    next_step_guidance = {
+      ask_customer: `${orderName} on ${billingDate} was skipped, so it wasn't sent. Would you like me to restore it?`,
+      show_options: false,
+      save_parameter: "order_id",
+      next_tool: "unskip_order",
+      condition: "ONLY_IF_RESTORING"
+    };
+  } else {
+    message = `Found ${orderName}`;
+    next_step_guidance = {
+      ask_customer: `I found ${orderName}, billed on ${billingDate}. How can I help with it?`,
+      show_options: false,
+      save_parameter: "subscription_contract_id",
+      next_tool: "list_upcoming_orders",
+      condition: "SKIP_CUSTOMER_CHOICE"
+    };
+  }
+
+  return {
+    order_name: orderName,
+    subscription_contract_id: contractId,
+    subscription_contract_gid: contract.id,
+    subscription_status: contract.status,
+    plan_name: buildPlanName(contract.deliveryPolicy),
+    order,
+    message,
+    next_step_guidance,
+  };
+}
+
 // Validate that a value is a numeric Shopify customer ID (not a GID)
 export function validateNumericCustomerId(value: unknown): number {
   if (typeof value === 'string' && value.startsWith('gid://')) {
@@ -0,0 +1,57 @@
+import type { LogLevel } from './logger.js';
+
+// MCP protocol revisions this server speaks, newest first
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+// Assumed for HTTP requests that carry no session and no MCP-Protocol-Version header, as the spec requires
+export const DEFAULT_PROTOCOL_VERSION = '2025-03-26';
+
+// Severities used by logging/setLevel and notifications/message, lowest first (RFC 5424 order)
+export const MCP_LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'] as const;
+
+type McpLogLevel = typeof MCP_LOG_LEVELS[number];
+
+// Negotiated during initialize and kept for the rest of the connection
+interface ProtocolState {
+  protocolVersion?: string;
+  clientCapabilities?: Record<string, unknown>;
+  clientInfo?: { name?: string; version?: string };
+  // Set by logging/setLevel; log entries at or above it are sent to the client
+  logLevel?: McpLogLevel;
+}
+
+export function isSupportedProtocolVersion(version: string): boolean {
+  return SUPPORTED_PROTOCOL_VERSIONS.includes(version);
+}
+
+// Use the client's version when we support it, otherwise offer our latest and let the client decide
+export function negotiateProtocolVersion(requested: string): string {
+  return isSupportedProtocolVersion(requested) ? requested : LATEST_PROTOCOL_VERSION;
+}
+
+// Revision dates sort as strings, so "at least" is a plain comparison
+export function isProtocolVersionAtLeast(version: string, minimum: string): boolean {
+  return version >= minimum;
+}
+
+// Tool results carry structuredContent from 2025-06-18 on
+export function supportsStructuredContent(version: string): boolean {
+  return isProtocolVersionAtLeast(version, '2025-06-18');
+}
+
+export function isMcpLogLevel(value: unknown): value is McpLogLevel {
+  return typeof value === 'string' && (MCP_LOG_LEVELS as readonly string[]).includes(value);
+}
+
+// The logger's "warn" is MCP's "warning"; the other levels share names
+export function toMcpLogLevel(level: LogLevel): McpLogLevel {
+  return level === 'warn' ? 'warning' : level;
+}
+
+export function isLogLevelEnabled(level: McpLogLevel, threshold: McpLogLevel): boolean {
+  return MCP_LOG_LEVELS.indexOf(level) >= MCP_LOG_LEVELS.indexOf(threshold);
+}
+
+export type { ProtocolState, McpLogLevel };
@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { LogSink } from './logger.js';
+
+// State of the MCP request currently running, visible to everything it calls without extra parameters
+interface RequestContext {
+  // Aborted when the client cancels the request; outgoing API calls pass it to fetch
+  signal?: AbortSignal;
+  // Receives every log entry written while the request runs
+  logSink?: LogSink;
+  // Set by the Appstle client when the first write is sent. From then on the signal is ignored, so a
+  // cancelled call still finishes and reports which changes were made
+  writeStarted?: boolean;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+export type { RequestContext };
@@ -0,0 +1,108 @@
+import type { AppstleClient } from './appstle.js';
+import { logger } from './logger.js';
+import { toSubscriptionsSummary, toUpcomingOrders } from './mapping.js';
+
+// Parameterised resource URI advertised by resources/templates/list (RFC 6570 level 1)
+interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title: string;
+  description: string;
+  mimeType: string;
+}
+
+interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+// What the dispatcher needs to serve resources
+interface ResourceProvider {
+  listTemplates(): ResourceTemplate[];
+  // Returns null when the URI matches no template
+  read(uri: string, requestId: string): Promise<ResourceContents[] | null>;
+}
+
+interface ResourceDefinition {
+  template: ResourceTemplate;
+  pattern: RegExp;
+  load: (id: number, requestId: string) => Promise<unknown>;
+}
+
+const JSON_MIME_TYPE = 'application/json';
+
+// next_step_guidance tells an agent which tool to call next; it means nothing to a resource reader
+function withoutGuidance<T extends { next_step_guidance: unknown }>(result: T): Omit<T, 'next_step_guidance'> {
+  const copy: Partial<T> = { ...result };
+  delete copy.next_step_guidance;
+  return copy as Omit<T, 'next_step_guidance'>;
+}
+
+// Read-only subscription state for MCP clients that attach context instead of calling tools.
+// Contents are the same mapped shapes the matching tools return.
+export function createResources(appstleClient: AppstleClient): ResourceProvider {
+  const definitions: ResourceDefinition[] = [
+    {
+      template: {
+        uriTemplate: 'appstle://customer/{id}/subscriptions',
+        name: 'customer-subscriptions',
+        title: 'Customer subscriptions',
+        description: 'ACTIVE and PAUSED subscriptions of a Shopify customer (numeric customer ID), as returned by list_subscriptions_for_customer',
+        mimeType: JSON_MIME_TYPE,
+      },
+      pattern: /^appstle:\/\/customer\/(\d+)\/subscriptions$/,
+      load: async (customerId, requestId): Promise<unknown> => {
+        const appstle = await appstleClient.getSubscriptionCustomer(customerId, undefined, requestId);
+        return withoutGuidance(toSubscriptionsSummary(appstle, { includePaused: true }));
+      },
+    },
+    {
+      template: {
+        uriTemplate: 'appstle://contract/{id}/upcoming-orders',
+        name: 'contract-upcoming-orders',
+        title: 'Upcoming orders',
+        description: 'Scheduled orders of a subscription contract, with one-time items, as returned by list_upcoming_orders',
+        mimeType: JSON_MIME_TYPE,
+      },
+      pattern: /^appstle:\/\/contract\/(\d+)\/upcoming-orders$/,
+      load: async (contractId, requestId): Promise<unknown> => {
+        // One-time items are optional detail - a failed lookup should not hide the schedule
+        const [appstle, oneOffs] = await Promise.all([
+          appstleClient.getTopOrders(contractId, requestId),
+          appstleClient.getOneOffs(contractId, requestId).catch(error => {
+            logger.warn('Could not load one-time items for upcoming orders resource', {
+              requestId,
+              contractId,
+              error: error instanceof Error ? error.message : String(error),
+            });
+            return [];
+          }),
+        ]);
+        return withoutGuidance(toUpcomingOrders(appstle, oneOffs));
+      },
+    },
+  ];
+
+  return {
+    listTemplates: () => definitions.map(definition => definition.template),
+
+    read: async (uri, requestId): Promise<ResourceContents[] | null> => {
+      for (const definition of definitions) {
+        const match = uri.match(definition.pattern);
+        if (!match) {
+          continue;
+        }
+
+        logger.info('Reading resource', { requestId, resource: definition.template.name });
+        const data = await definition.load(parseInt(match[1], 10), requestId);
+
+        return [{ uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(data, null, 2) }];
+      }
+
+      return null;
+    },
+  };
+}
+
+export type { ResourceProvider, ResourceTemplate, ResourceContents };
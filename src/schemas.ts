@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { STORE_TIMEZONE } from './config.js';
+import { isDateOnly, toStoreDate } from './store-dates.js';
 
 // Shared schemas
 const ErrorSchema = z.object({
@@ -10,19 +12,41 @@ const ErrorSchema = z.object({
   }),
 });
 
+// A date-only value is a calendar date in the store's timezone, so today is accepted; a full datetime
+// must be after now. The exact billing time is checked again against the order when it is rescheduled.
+export function isTodayOrLater(value: string, now: Date = new Date(), timeZone: string = STORE_TIMEZONE): boolean {
+  if (!isDateOnly(value)) {
+    return Date.parse(value) > now.getTime();
+  }
+  // YYYY-MM-DD compares correctly as a string
+  return value >= toStoreDate(now, timeZone);
+}
+
 // Next step guidance schema for helping Fin navigate workflows
 const NextStepGuidanceSchema = z.object({
   ask_customer: z.string(),                    // Exact question to ask the customer
   show_options: z.boolean(),                   // Whether to show a list of options
   save_parameter: z.string(),                  // Which field value to save for next tool
   next_tool: z.string(),                       // Which tool to call next
-  condition: z.string().optional(),            // When to use this guidance (SKIP_CUSTOMER_CHOICE, WAIT_FOR_CUSTOMER_CHOICE, ALWAYS_ASK)
+  condition: z.string().optional(),            // When to use this guidance (SKIP_CUSTOMER_CHOICE, WAIT_FOR_CUSTOMER_CHOICE, ALWAYS_ASK, ONLY_IF_RESTORING, OFFER_ALTERNATIVES, CONFIRM_CANCELLATION)
 });
 
 // 1. list_subscriptions_for_customer schemas
 export const ListSubscriptionsForCustomerInputSchema = z.object({
-  shopify_customer_id: z.number().int().positive(),
+  shopify_customer_id: z.union([
+    z.number().int().positive(),
+    z.string().regex(/^gid:\/\/shopify\/Customer\/\d+$/), // Normalized to the numeric ID by the tool
+  ]),
   cursor: z.string().optional(),
+  include_paused: z.boolean().optional(), // Also list PAUSED contracts so they can be resumed
+});
+
+const SubscriptionLineSchema = z.object({
+  line_number: z.number().int().positive(), // 1-based position for customer-facing choices
+  line_id: z.string().optional(), // Shopify SubscriptionLine GID - pass to line item tools
+  variant_id: z.string().optional(), // Shopify ProductVariant GID
+  title: z.string(),
+  quantity: z.number().int().positive(),
 });
 
 const SubscriptionSchema = z.object({
@@ -32,6 +56,7 @@ const SubscriptionSchema = z.object({
   plan_name: z.string(),
   next_billing_date: z.string().datetime(),
   items_summary: z.string().optional(),
+  lines: z.array(SubscriptionLineSchema).optional(),
   created_at: z.string().datetime().optional(),
   can_skip_orders: z.boolean(),
   upcoming_orders_count: z.number().int().min(0),
@@ -52,6 +77,7 @@ export const ListSubscriptionsForCustomerOutputSchema = z.object({
   subscriptions: z.array(SubscriptionSchema),
   page_info: PageInfoSchema,
   active_subscription_count: z.number().int().min(0),
+  paused_subscription_count: z.number().int().min(0).optional(), // Only present when include_paused was requested
   workflow_guidance: z.string(),
   next_step_guidance: NextStepGuidanceSchema,
 });
@@ -64,6 +90,7 @@ export const ListUpcomingOrdersInputSchema = z.object({
 const OrderItemSchema = z.object({
   title: z.string(),
   quantity: z.number().int().positive(),
+  purchase_type: z.enum(['RECURRING', 'ONE_TIME']).optional(), // ONE_TIME items ship with this order only
 });
 
 const UpcomingOrderSchema = z.object({
@@ -108,6 +135,8 @@ const PastOrderSchema = z.object({
   order_name: z.string().optional(),
   billing_date: z.string().datetime(),
   status: z.string(),
+  failure_reason: z.string().optional(), // Only for FAILURE - the payment gateway's error message
+  attempt_count: z.number().int().nonnegative().optional(),
 });
 
 export const ListPastOrdersOutputSchema = z.object({
@@ -115,6 +144,9 @@ export const ListPastOrdersOutputSchema = z.object({
   page: z.number().int().min(0),
   size: z.number().int(), // Removed min validation - size can be 0 if no results
   has_more: z.boolean(),
+  // Only present when the page contains SKIPPED orders that can be restored with unskip_order
+  skipped_selection_map: z.array(SelectionMapSchema).optional(),
+  next_step_guidance: NextStepGuidanceSchema.optional(),
 });
 
 // 4. skip_order schemas
@@ -135,6 +167,587 @@ export const SkipOrderOutputSchema = z.object({
   next_step_guidance: NextStepGuidanceSchema,
 });
 
+// 5. skip_next_order schemas (output reuses SkipOrderOutputSchema, or MultiContractSkipOutputSchema for all subscriptions)
+// Multi-contract tools take exactly one of subscription_contract_id and shopify_customer_id.
+// As a type guard it lets handlers narrow the input on whichever one was given.
+type ContractOrCustomer<T> = T & (
+  | { subscription_contract_id: number; shopify_customer_id?: undefined }
+  | { subscription_contract_id?: undefined; shopify_customer_id: number | string }
+);
+
+function hasContractOrCustomer<T extends { subscription_contract_id?: number; shopify_customer_id?: number | string }>(
+  input: T
+): input is ContractOrCustomer<T> {
+  return (input.subscription_contract_id === undefined) !== (input.shopify_customer_id === undefined);
+}
+
+export const SkipNextOrderInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive().optional(),
+  // Instead of subscription_contract_id: skip the next order of every ACTIVE subscription
+  shopify_customer_id: ListSubscriptionsForCustomerInputSchema.shape.shopify_customer_id.optional(),
+  confirm_skip: z.boolean().default(false), // With shopify_customer_id: false only lists the orders that would be skipped
+}).refine(hasContractOrCustomer, {
+  message: 'Provide either subscription_contract_id or shopify_customer_id, not both',
+});
+
+// 6. unskip_order schemas
+export const UnskipOrderInputSchema = z.object({
+  order_id: z.number().int().positive(), // The 'id' of a SKIPPED order from list_past_orders
+  subscription_contract_id: z.number().int().positive().optional(),
+});
+
+export const UnskipOrderOutputSchema = z.object({
+  order_id: z.number().int().positive(), // This is the 'id' field from Appstle API
+  billing_attempt_ref: z.string().optional(), // This is 'billingAttemptId' from API
+  shopify_order_id: z.number().int().optional(), // This is 'orderId' from API
+  order_name: z.string().optional(),
+  billing_date: z.string().datetime(),
+  status: z.string(),
+  message: z.string().default('Order unskipped'),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 7. reschedule_order schemas
+export const RescheduleOrderInputSchema = z.object({
+  order_id: z.number().int().positive(), // The 'id' of an upcoming order from list_upcoming_orders
+  subscription_contract_id: z.number().int().positive(), // Needed to check the following scheduled order
+  new_billing_date: z.string()
+    .refine(value => !isNaN(Date.parse(value)), { message: 'new_billing_date must be a valid date (YYYY-MM-DD or ISO 8601)' })
+    .refine(value => isTodayOrLater(value), { message: 'new_billing_date must not be in the past' }),
+});
+
+export const RescheduleOrderOutputSchema = z.object({
+  order_id: z.number().int().positive(),
+  previous_billing_date: z.string().datetime(),
+  new_billing_date: z.string().datetime(),
+  status: z.string(),
+  message: z.string(),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 8. change_delivery_frequency schemas
+export const ChangeDeliveryFrequencyInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  interval: z.enum(['DAY', 'WEEK', 'MONTH', 'YEAR']),
+  interval_count: z.number().int().positive(),
+});
+
+export const ChangeDeliveryFrequencyOutputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  plan_name: z.string(), // Recomputed the same way as list_subscriptions_for_customer
+  interval: z.string(),
+  interval_count: z.number().int().positive(),
+  next_billing_date: z.string().datetime(),
+  message: z.string(),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 9. pause_subscription / resume_subscription schemas
+export const PauseSubscriptionInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+});
+
+export const ResumeSubscriptionInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  resume_date: z.string()
+    .refine(value => !isNaN(Date.parse(value)), { message: 'resume_date must be a valid date (YYYY-MM-DD or ISO 8601)' })
+    .refine(value => isTodayOrLater(value), { message: 'resume_date must not be in the past' })
+    .optional(), // First billing date after resuming; omit to resume on the current schedule
+});
+
+export const SubscriptionStatusChangeOutputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  previous_status: z.string(),
+  status: z.string(),
+  next_billing_date: z.string().datetime().optional(),
+  message: z.string(),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 10. cancel_subscription schemas
+export const CancellationReasonSchema = z.enum([
+  'TOO_MUCH_FOOD',
+  'TOO_EXPENSIVE',
+  'PET_DOES_NOT_LIKE_IT',
+  'PET_DIET_OR_HEALTH_CHANGE',
+  'PET_PASSED_AWAY',
+  'MOVING',
+  'SWITCHING_BRANDS',
+  'DELIVERY_ISSUES',
+  'OTHER',
+]);
+
+export const CancelSubscriptionInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  cancellation_reason: CancellationReasonSchema,
+  cancellation_note: z.string().max(500).optional(), // Customer's own words, stored with the cancellation
+  alternatives_declined: z.boolean().default(false), // Customer has heard the retention offers and still wants to cancel
+  confirm_cancellation: z.boolean().default(false), // Explicit customer confirmation - nothing is cancelled without it
+});
+
+const RetentionOfferSchema = z.object({
+  option_number: z.number().int().positive(),
+  offer: z.string(),
+  description: z.string(),
+  next_tool: z.string(),
+  discount_code: z.string().optional(), // Pass to apply_discount_code when the customer accepts the discount offer
+});
+
+export const CancelSubscriptionOutputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  cancellation_reason: CancellationReasonSchema,
+  cancelled: z.boolean(),
+  status: z.string(), // PENDING_CONFIRMATION until confirm_cancellation is sent, then CANCELLED
+  retention_offers: z.array(RetentionOfferSchema).optional(),
+  message: z.string(),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 11. update_line_quantity / swap_line_variant / remove_line_item schemas
+const LineIdSchema = z.string().startsWith('gid://shopify/SubscriptionLine/');
+
+export const UpdateLineQuantityInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  line_id: LineIdSchema,
+  quantity: z.number().int().positive(),
+});
+
+export const SwapLineVariantInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  line_id: LineIdSchema,
+  new_variant_id: z.union([
+    z.number().int().positive(),
+    z.string().startsWith('gid://shopify/ProductVariant/'),
+  ]),
+});
+
+export const RemoveLineItemInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  line_id: LineIdSchema,
+});
+
+export const LineItemsUpdateOutputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  items_summary: z.string().optional(),
+  lines: z.array(SubscriptionLineSchema),
+  message: z.string(),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 12. add_one_time_item schemas
+export const AddOneTimeItemInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  order_id: z.number().int().positive(), // Upcoming order from list_upcoming_orders
+  variant_id: z.union([
+    z.number().int().positive(),
+    z.string().startsWith('gid://shopify/ProductVariant/'),
+  ]),
+  quantity: z.number().int().positive().default(1),
+});
+
+export const AddOneTimeItemOutputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  order_id: z.number().int().positive(),
+  billing_date: z.string().datetime(),
+  one_time_items: z.array(OrderItemSchema), // All one-time items now attached to this order
+  message: z.string(),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 13. update_subscription_preferences schemas
+export const UpdateSubscriptionPreferencesInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  protein_substitution: z.string().min(1).nullable().optional(), // null clears the substitution
+  allergies: z.array(z.string().min(1)).optional(), // Replaces the full list; [] clears it
+}).refine(
+  input => input.protein_substitution !== undefined || input.allergies !== undefined,
+  { message: 'Provide protein_substitution, allergies, or both' }
+);
+
+const PreferenceLineResultSchema = z.object({
+  line_id: z.string(),
+  title: z.string().optional(),
+  result: z.enum(['UPDATED', 'FAILED']), // FAILED lines still hold their previous preferences
+  error: z.string().optional(),
+});
+
+export const UpdateSubscriptionPreferencesOutputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  protein_substitution: z.string().nullable(), // Exactly as stored on the updated lines
+  allergies: z.string().nullable(), // Exactly as stored on the updated lines
+  lines_updated: z.number().int().nonnegative(),
+  lines_failed: z.number().int().nonnegative(),
+  line_results: z.array(PreferenceLineResultSchema), // Every line the update was attempted on
+  message: z.string(),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 14. get_shipping_address / update_shipping_address schemas
+export const ShippingAddressSchema = z.object({
+  first_name: z.string().trim().min(1).max(255),
+  last_name: z.string().trim().min(1).max(255),
+  company: z.string().trim().max(255).optional(),
+  address1: z.string().trim().min(1).max(255),
+  address2: z.string().trim().max(255).optional(),
+  city: z.string().trim().min(1).max(255),
+  province: z.string().trim().max(255).optional(), // State/territory name, e.g. "New South Wales"
+  province_code: z.string().trim().max(10).optional(), // e.g. "NSW"
+  country_code: z.string().regex(/^[A-Za-z]{2}$/, 'country_code must be a 2-letter ISO code such as AU'),
+  zip: z.string().trim().min(1).max(20),
+  phone: z.string().regex(/^\+?[0-9 ()-]{6,20}$/, 'phone must contain only digits, spaces, brackets, dashes and an optional leading +').optional(),
+});
+
+// Addresses read back from Shopify are not re-validated - older records may be incomplete
+const StoredShippingAddressSchema = z.object({
+  first_name: z.string().optional(),
+  last_name: z.string().optional(),
+  company: z.string().optional(),
+  address1: z.string().optional(),
+  address2: z.string().optional(),
+  city: z.string().optional(),
+  province: z.string().optional(),
+  province_code: z.string().optional(),
+  country: z.string().optional(),
+  country_code: z.string().optional(),
+  zip: z.string().optional(),
+  phone: z.string().optional(),
+});
+
+export const GetShippingAddressInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+});
+
+export const GetShippingAddressOutputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  shipping_address: StoredShippingAddressSchema.nullable(),
+  formatted_address: z.string().nullable(),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+export const UpdateShippingAddressInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  shipping_address: ShippingAddressSchema,
+  confirm_update: z.boolean().default(false), // Only true after the customer approved the old/new address comparison
+});
+
+export const UpdateShippingAddressOutputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  updated: z.boolean(),
+  previous_address: z.string().nullable(), // Formatted, as stored before the change
+  new_address: z.string(), // Formatted, as stored after the change (or as requested before confirmation)
+  shipping_address: StoredShippingAddressSchema,
+  message: z.string(),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 15. apply_discount_code / remove_discount schemas
+const SubscriptionDiscountSchema = z.object({
+  discount_id: z.string(), // gid://shopify/SubscriptionManualDiscount/...
+  title: z.string(), // Usually the discount code
+  value: z.string().optional(), // e.g. "15% off" or "5.00 AUD off"
+  remaining_cycles: z.number().int().nonnegative().optional(), // Deliveries left before the discount expires
+});
+
+export const ApplyDiscountCodeInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  discount_code: z.string().trim().min(1).max(255),
+});
+
+export const RemoveDiscountInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  discount_id: z.string().startsWith('gid://shopify/SubscriptionManualDiscount/').optional(),
+  discount_code: z.string().trim().min(1).optional(), // Resolved against the discounts currently applied
+}).refine(
+  input => input.discount_id !== undefined || input.discount_code !== undefined,
+  { message: 'Provide discount_id or discount_code' }
+);
+
+export const DiscountUpdateOutputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  discounts: z.array(SubscriptionDiscountSchema), // All discounts applied after the change
+  message: z.string(),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 16. get_subscription_details schemas
+export const GetSubscriptionDetailsInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+});
+
+const MoneySchema = z.object({
+  amount: z.string(), // Decimal string as returned by Shopify, e.g. "45.00"
+  currency_code: z.string(),
+});
+
+const CustomAttributeSchema = z.object({
+  key: z.string(),
+  value: z.string(),
+});
+
+const SubscriptionDetailLineSchema = SubscriptionLineSchema.extend({
+  product_title: z.string().optional(),
+  variant_title: z.string().optional(),
+  sku: z.string().optional(),
+  unit_price: MoneySchema.optional(),
+  line_price: MoneySchema.optional(), // Price for the full quantity after line discounts
+  custom_attributes: z.array(CustomAttributeSchema).optional(),
+});
+
+const PolicySchema = z.object({
+  interval: z.string(),
+  interval_count: z.number().int().positive(),
+});
+
+const PaymentMethodSchema = z.object({
+  status: z.enum(['VALID', 'EXPIRED', 'REVOKED', 'MISSING']),
+  brand: z.string().optional(),
+  last_digits: z.string().optional(),
+  expiry: z.string().optional(), // MM/YYYY
+});
+
+export const GetSubscriptionDetailsOutputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  subscription_contract_gid: z.string(),
+  status: z.string(),
+  plan_name: z.string(),
+  next_billing_date: z.string().datetime(),
+  created_at: z.string().datetime().optional(),
+  delivery_policy: PolicySchema.optional(),
+  billing_policy: PolicySchema.extend({
+    min_cycles: z.number().int().optional(),
+    max_cycles: z.number().int().optional(),
+  }).optional(),
+  lines: z.array(SubscriptionDetailLineSchema), // Every line - not truncated like items_summary
+  items_summary: z.string().optional(),
+  protein_substitution: z.string().optional(),
+  allergies: z.string().optional(),
+  custom_attributes: z.array(CustomAttributeSchema), // Contract-level attributes
+  shipping_address: StoredShippingAddressSchema.nullable(),
+  formatted_address: z.string().nullable(),
+  payment_method: PaymentMethodSchema,
+  discounts: z.array(SubscriptionDiscountSchema),
+  origin_order: z.object({
+    order_id: z.number().int().positive().optional(),
+    order_name: z.string(),
+  }).nullable(),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 17. list_failed_payments / retry_billing_attempt schemas
+export const ListFailedPaymentsInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+});
+
+const FailedPaymentSchema = PastOrderSchema.extend({
+  selection_number: z.number().int().positive(),
+  failure_reason: z.string(),
+  payment_method_issue: z.boolean(), // true when the card must be updated - retrying will not help
+});
+
+export const ListFailedPaymentsOutputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  failed_payments: z.array(FailedPaymentSchema),
+  payment_method_update_needed: z.boolean(),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+export const RetryBillingAttemptInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  order_id: z.number().int().positive(), // FAILURE order from list_failed_payments
+});
+
+export const RetryBillingAttemptOutputSchema = z.object({
+  order_id: z.number().int().positive(),
+  shopify_order_id: z.number().int().optional(),
+  order_name: z.string().optional(),
+  billing_date: z.string().datetime(),
+  status: z.string(), // SUCCESS, FAILURE, or an in-progress status while the charge is processed
+  failure_reason: z.string().optional(),
+  message: z.string(),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 18. send_payment_update_email schemas
+export const SendPaymentUpdateEmailInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  // last_sent_at from an earlier call in the same conversation; the server's own record is per instance
+  last_sent_at: z.string().datetime({ offset: true }).optional(),
+});
+
+export const SendPaymentUpdateEmailOutputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  sent: z.boolean(), // false when an email for this contract was sent within the cooldown
+  last_sent_at: z.string().datetime(),
+  next_send_allowed_at: z.string().datetime(),
+  message: z.string(),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 19. resolve_customer schemas
+export const ResolveCustomerInputSchema = z.object({
+  customer_identifier: z.union([
+    z.number().int().positive(),
+    z.string().trim().min(1), // Numeric ID, gid://shopify/Customer/... or email address
+  ]),
+});
+
+export const ResolveCustomerOutputSchema = z.object({
+  shopify_customer_id: z.number().int().positive(), // Numeric ID for list_subscriptions_for_customer
+  shopify_customer_gid: z.string(),
+  resolved_from: z.enum(['ID', 'GID', 'EMAIL']),
+  first_name: z.string().optional(), // Only for email lookups
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 20. find_order_by_name schemas
+export const FindOrderByNameInputSchema = z.object({
+  order_name: z.string().trim().min(1), // As printed on the confirmation email, e.g. "#TGA1234"
+  shopify_customer_id: ListSubscriptionsForCustomerInputSchema.shape.shopify_customer_id,
+  subscription_contract_id: z.number().int().positive().optional(), // Only search this subscription
+});
+
+export const FindOrderByNameOutputSchema = z.object({
+  order_name: z.string(),
+  subscription_contract_id: z.number().int().positive(),
+  subscription_contract_gid: z.string(),
+  subscription_status: z.string(),
+  plan_name: z.string(),
+  order: PastOrderSchema, // order_id is the billing attempt ID used by unskip_order and retry_billing_attempt
+  message: z.string(),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 21. skip_orders_in_range schemas
+const RangeDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Dates must be in YYYY-MM-DD format' })
+  .refine(value => !isNaN(Date.parse(value)), { message: 'Dates must be valid calendar dates' });
+
+export const SkipOrdersInRangeInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive().optional(),
+  // Instead of subscription_contract_id: skip the range on every ACTIVE subscription
+  shopify_customer_id: ListSubscriptionsForCustomerInputSchema.shape.shopify_customer_id.optional(),
+  start_date: RangeDateSchema, // First day away (inclusive)
+  end_date: RangeDateSchema, // Last day away (inclusive)
+  confirm_skip: z.boolean().default(false), // false only lists the orders that would be skipped
+}).refine(hasContractOrCustomer, {
+  message: 'Provide either subscription_contract_id or shopify_customer_id, not both',
+}).refine(input => input.start_date <= input.end_date, {
+  message: 'end_date must be on or after start_date',
+  path: ['end_date'],
+});
+
+const RangeSkipResultSchema = z.object({
+  order_id: z.number().int().positive(),
+  billing_date: z.string().datetime(),
+  // WOULD_SKIP only in previews; FAILED orders are still scheduled
+  result: z.enum(['WOULD_SKIP', 'SKIPPED', 'ALREADY_SKIPPED', 'FAILED']),
+  status: z.string(), // Order status after this call
+  error: z.string().optional(), // Why the skip failed
+});
+
+export const SkipOrdersInRangeOutputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  start_date: z.string(),
+  end_date: z.string(),
+  confirmed: z.boolean(),
+  results: z.array(RangeSkipResultSchema),
+  skipped_count: z.number().int().nonnegative(),
+  failed_count: z.number().int().nonnegative(),
+  message: z.string(),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 22. Multi-contract skip schemas (skip_next_order / skip_orders_in_range called with shopify_customer_id)
+const ContractSkipResultSchema = z.object({
+  subscription_number: z.number().int().positive(), // Same numbering as list_subscriptions_for_customer
+  subscription_contract_id: z.number().int().positive(),
+  plan_name: z.string(),
+  items_summary: z.string().optional(),
+  protein_substitution: z.string().optional(),
+  allergies: z.string().optional(),
+  result: z.enum(['WOULD_SKIP', 'SKIPPED', 'NOTHING_TO_SKIP', 'PARTIAL', 'FAILED']),
+  orders: z.array(RangeSkipResultSchema),
+  error: z.string().optional(), // Set when this subscription could not be processed at all
+});
+
+export const MultiContractSkipOutputSchema = z.object({
+  shopify_customer_id: z.number().int().positive(),
+  confirmed: z.boolean(),
+  subscriptions: z.array(ContractSkipResultSchema), // One entry per ACTIVE subscription
+  skipped_count: z.number().int().nonnegative(), // Orders skipped across all subscriptions
+  failed_count: z.number().int().nonnegative(), // Subscriptions with a FAILED or PARTIAL result
+  message: z.string(),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 23. get_customer_overview schemas
+export const GetCustomerOverviewInputSchema = z.object({
+  shopify_customer_id: ListSubscriptionsForCustomerInputSchema.shape.shopify_customer_id,
+});
+
+const OverviewOrderSchema = z.object({
+  selection_number: z.number().int().positive(), // Position in the merged selection_map
+  order_id: z.number().int().positive(),
+  billing_date: z.string().datetime(),
+  status: z.string(),
+});
+
+const OverviewSubscriptionSchema = z.object({
+  subscription_number: z.number().int().positive(),
+  subscription_contract_id: z.number().int().positive(),
+  status: z.string(), // ACTIVE or PAUSED
+  plan_name: z.string(),
+  next_billing_date: z.string().datetime(),
+  items_summary: z.string().optional(),
+  protein_substitution: z.string().optional(),
+  allergies: z.string().optional(),
+  upcoming_orders: z.array(OverviewOrderSchema), // Next few orders only; empty for PAUSED subscriptions
+  upcoming_orders_error: z.string().optional(), // Set when this subscription's orders could not be loaded
+});
+
+export const GetCustomerOverviewOutputSchema = z.object({
+  shopify_customer_id: z.number().int().positive(),
+  subscriptions: z.array(OverviewSubscriptionSchema),
+  active_subscription_count: z.number().int().nonnegative(),
+  paused_subscription_count: z.number().int().nonnegative(),
+  subscriptions_truncated: z.boolean(), // true when the customer has more subscriptions than were read
+  // Every listed order across all subscriptions, numbered for customer choices
+  selection_map: z.array(SelectionMapSchema.extend({
+    subscription_contract_id: z.number().int().positive(),
+    subscription_number: z.number().int().positive(),
+    status: z.string(),
+  })),
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
+// 24. get_subscription_timeline schemas
+export const GetSubscriptionTimelineInputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  days_before: z.number().int().min(0).max(365).default(90), // How far back from today to include
+  days_after: z.number().int().min(0).max(365).default(90), // How far ahead from today to include
+});
+
+const TimelineEntrySchema = z.object({
+  order_id: z.number().int().positive(),
+  billing_date: z.string().datetime(),
+  timeline_status: z.enum(['SHIPPED', 'SKIPPED', 'FAILED', 'SCHEDULED']),
+  status: z.string(), // Raw Appstle status (SUCCESS, SKIPPED, FAILURE, QUEUED, ...)
+  is_past: z.boolean(), // Billing date is before now
+  order_name: z.string().optional(),
+  shopify_order_id: z.number().int().optional(),
+  failure_reason: z.string().optional(),
+});
+
+export const GetSubscriptionTimelineOutputSchema = z.object({
+  subscription_contract_id: z.number().int().positive(),
+  window_start: z.string().datetime(),
+  window_end: z.string().datetime(),
+  timeline: z.array(TimelineEntrySchema), // Oldest first
+  last_shipped: TimelineEntrySchema.optional(), // Most recent SHIPPED order in the window
+  next_scheduled: TimelineEntrySchema.optional(), // Soonest SCHEDULED order in the window
+  next_step_guidance: NextStepGuidanceSchema,
+});
+
 // Export error schema and guidance schema
 export { ErrorSchema, NextStepGuidanceSchema };
 
@@ -151,6 +764,76 @@ export type ListPastOrdersOutput = z.infer<typeof ListPastOrdersOutputSchema>;
 export type SkipOrderInput = z.infer<typeof SkipOrderInputSchema>;
 export type SkipOrderOutput = z.infer<typeof SkipOrderOutputSchema>;
 
+export type SkipNextOrderInput = z.infer<typeof SkipNextOrderInputSchema>;
+
+export type UnskipOrderInput = z.infer<typeof UnskipOrderInputSchema>;
+export type UnskipOrderOutput = z.infer<typeof UnskipOrderOutputSchema>;
+
+export type RescheduleOrderInput = z.infer<typeof RescheduleOrderInputSchema>;
+export type RescheduleOrderOutput = z.infer<typeof RescheduleOrderOutputSchema>;
+
+export type ChangeDeliveryFrequencyInput = z.infer<typeof ChangeDeliveryFrequencyInputSchema>;
+export type ChangeDeliveryFrequencyOutput = z.infer<typeof ChangeDeliveryFrequencyOutputSchema>;
+
+export type PauseSubscriptionInput = z.infer<typeof PauseSubscriptionInputSchema>;
+export type ResumeSubscriptionInput = z.infer<typeof ResumeSubscriptionInputSchema>;
+export type SubscriptionStatusChangeOutput = z.infer<typeof SubscriptionStatusChangeOutputSchema>;
+
+export type CancellationReason = z.infer<typeof CancellationReasonSchema>;
+export type CancelSubscriptionInput = z.infer<typeof CancelSubscriptionInputSchema>;
+export type CancelSubscriptionOutput = z.infer<typeof CancelSubscriptionOutputSchema>;
+export type RetentionOffer = z.infer<typeof RetentionOfferSchema>;
+
+export type UpdateLineQuantityInput = z.infer<typeof UpdateLineQuantityInputSchema>;
+export type SwapLineVariantInput = z.infer<typeof SwapLineVariantInputSchema>;
+export type RemoveLineItemInput = z.infer<typeof RemoveLineItemInputSchema>;
+export type LineItemsUpdateOutput = z.infer<typeof LineItemsUpdateOutputSchema>;
+
+export type AddOneTimeItemInput = z.infer<typeof AddOneTimeItemInputSchema>;
+export type AddOneTimeItemOutput = z.infer<typeof AddOneTimeItemOutputSchema>;
+
+export type UpdateSubscriptionPreferencesInput = z.infer<typeof UpdateSubscriptionPreferencesInputSchema>;
+export type UpdateSubscriptionPreferencesOutput = z.infer<typeof UpdateSubscriptionPreferencesOutputSchema>;
+
+export type ShippingAddress = z.infer<typeof ShippingAddressSchema>;
+export type StoredShippingAddress = z.infer<typeof StoredShippingAddressSchema>;
+export type GetShippingAddressInput = z.infer<typeof GetShippingAddressInputSchema>;
+export type GetShippingAddressOutput = z.infer<typeof GetShippingAddressOutputSchema>;
+export type UpdateShippingAddressInput = z.infer<typeof UpdateShippingAddressInputSchema>;
+export type UpdateShippingAddressOutput = z.infer<typeof UpdateShippingAddressOutputSchema>;
+
+export type ApplyDiscountCodeInput = z.infer<typeof ApplyDiscountCodeInputSchema>;
+export type RemoveDiscountInput = z.infer<typeof RemoveDiscountInputSchema>;
+export type DiscountUpdateOutput = z.infer<typeof DiscountUpdateOutputSchema>;
+
+export type GetSubscriptionDetailsInput = z.infer<typeof GetSubscriptionDetailsInputSchema>;
+export type GetSubscriptionDetailsOutput = z.infer<typeof GetSubscriptionDetailsOutputSchema>;
+
+export type ListFailedPaymentsInput = z.infer<typeof ListFailedPaymentsInputSchema>;
+export type ListFailedPaymentsOutput = z.infer<typeof ListFailedPaymentsOutputSchema>;
+export type RetryBillingAttemptInput = z.infer<typeof RetryBillingAttemptInputSchema>;
+export type RetryBillingAttemptOutput = z.infer<typeof RetryBillingAttemptOutputSchema>;
+
+export type SendPaymentUpdateEmailInput = z.infer<typeof SendPaymentUpdateEmailInputSchema>;
+export type SendPaymentUpdateEmailOutput = z.infer<typeof SendPaymentUpdateEmailOutputSchema>;
+
+export type ResolveCustomerInput = z.infer<typeof ResolveCustomerInputSchema>;
+export type ResolveCustomerOutput = z.infer<typeof ResolveCustomerOutputSchema>;
+
+export type FindOrderByNameInput = z.infer<typeof FindOrderByNameInputSchema>;
+export type FindOrderByNameOutput = z.infer<typeof FindOrderByNameOutputSchema>;
+
+export type SkipOrdersInRangeInput = z.infer<typeof SkipOrdersInRangeInputSchema>;
+export type SkipOrdersInRangeOutput = z.infer<typeof SkipOrdersInRangeOutputSchema>;
+
+export type MultiContractSkipOutput = z.infer<typeof MultiContractSkipOutputSchema>;
+
+export type GetCustomerOverviewInput = z.infer<typeof GetCustomerOverviewInputSchema>;
+export type GetCustomerOverviewOutput = z.infer<typeof GetCustomerOverviewOutputSchema>;
+
+export type GetSubscriptionTimelineInput = z.infer<typeof GetSubscriptionTimelineInputSchema>;
+export type GetSubscriptionTimelineOutput = z.infer<typeof GetSubscriptionTimelineOutputSchema>;
+
 export type ErrorOutput = z.infer<typeof ErrorSchema>;
 
 // Guidance and workflow types
@@ -161,4 +844,14 @@ export type Subscription = z.infer<typeof SubscriptionSchema>;
 export type UpcomingOrder = z.infer<typeof UpcomingOrderSchema>;
 export type PastOrder = z.infer<typeof PastOrderSchema>;
 export type OrderItem = z.infer<typeof OrderItemSchema>;
-export type PageInfo = z.infer<typeof PageInfoSchema>;
\ No newline at end of file
+export type SubscriptionLine = z.infer<typeof SubscriptionLineSchema>;
+export type SubscriptionDiscount = z.infer<typeof SubscriptionDiscountSchema>;
+export type SubscriptionDetailLine = z.infer<typeof SubscriptionDetailLineSchema>;
+export type PaymentMethod = z.infer<typeof PaymentMethodSchema>;
+export type FailedPayment = z.infer<typeof FailedPaymentSchema>;
+export type RangeSkipResult = z.infer<typeof RangeSkipResultSchema>;
+export type PreferenceLineResult = z.infer<typeof PreferenceLineResultSchema>;
+export type ContractSkipResult = z.infer<typeof ContractSkipResultSchema>;
+export type TimelineEntry = z.infer<typeof TimelineEntrySchema>;
+export type PageInfo = z.infer<typeof PageInfoSchema>;
+export type SelectionMapEntry = z.infer<typeof SelectionMapSchema>;
\ No newline at end of file
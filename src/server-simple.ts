@@ -1,5 +1,9 @@
 import { createAppstleClient } from './appstle.js';
 import { createTools } from './tools.js';
+import { createToolConfig } from './config.js';
+import { createCustomerLookup } from './customer-lookup.js';
+import { createResources } from './resources.js';
+import { buildPlanName } from './mapping.js';
 import { logger } from './logger.js';
 
 // Simple server that just exposes the tools without using McpServer class
@@ -7,30 +11,64 @@ export function createSimpleServer() {
   try {
     // Initialize Appstle client
     const appstleClient = createAppstleClient();
-    const tools = createTools(appstleClient);
+    const config = createToolConfig();
+    const tools = createTools(appstleClient, config, createCustomerLookup());
+    const allowedFrequencies = config.allowedDeliveryIntervals.map(option => buildPlanName(option)).join(', ');
 
     logger.info('Simple MCP server created successfully', { 
-      toolCount: 4,
+      toolCount: Object.keys(tools).length,
     });
 
     return {
       tools,
+      resources: createResources(appstleClient),
       listTools: () => {
         return [
+          {
+            name: 'resolve_customer',
+            description: 'STEP 0: Finds the Shopify Customer ID needed by list_subscriptions_for_customer. Use when you only have the customer\'s email address, or an ID in gid://shopify/Customer/... form. Accepts a numeric ID, a customer GID or an email address. WORKFLOW: Call this tool, then call list_subscriptions_for_customer with shopify_customer_id from the response (next_step_guidance condition=SKIP_CUSTOMER_CHOICE). If it returns Customer Not Found, ask the customer for the email they signed up with. If it returns Email Lookup Unavailable, hand off to a human agent.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                customer_identifier: {
+                  type: ['integer', 'string'],
+                  description: 'Numeric Shopify Customer ID (987654321), customer GID (gid://shopify/Customer/987654321) or email address (jane@example.com)'
+                }
+              },
+              required: ['customer_identifier']
+            }
+          },
           {
             name: 'list_subscriptions_for_customer',
-            description: 'STEP 1 of skip workflow: Gets all customer subscriptions. Use when customers mention: "skip delivery", "pause order", "hold shipment", "subscription status", or "my subscriptions". CRITICAL WORKFLOW: Check the response\'s next_step_guidance field! IF condition=SKIP_CUSTOMER_CHOICE (1 subscription): Proceed directly to list_upcoming_orders using the subscription_contract_id. IF condition=WAIT_FOR_CUSTOMER_CHOICE (multiple subscriptions): ASK customer "Which subscription would you like to manage?" and show subscription plan names. Wait for their response before proceeding. PREREQUISITE: Numeric Shopify Customer ID (not GID). SAVES: subscription_contract_id for next step.',
+            description: 'STEP 1 of skip workflow: Gets all customer subscriptions. Use when customers mention: "skip delivery", "pause order", "hold shipment", "subscription status", or "my subscriptions". CRITICAL WORKFLOW: Check the response\'s next_step_guidance field! IF condition=SKIP_CUSTOMER_CHOICE (1 subscription): Proceed directly to list_upcoming_orders using the subscription_contract_id. IF condition=WAIT_FOR_CUSTOMER_CHOICE (multiple subscriptions): ASK customer "Which subscription would you like to manage?" and show subscription plan names. Wait for their response before proceeding. PREREQUISITE: Shopify Customer ID (numeric or gid://shopify/Customer/... GID). If you only have the customer\'s email, call resolve_customer first. SAVES: subscription_contract_id for next step.',
             inputSchema: {
               type: 'object',
               properties: {
                 shopify_customer_id: {
-                  type: 'integer',
-                  minimum: 1,
-                  description: 'Numeric Shopify Customer ID without gid:// prefix. Example: 987654321'
+                  type: ['integer', 'string'],
+                  description: 'Shopify Customer ID, either numeric (987654321) or as a GID (gid://shopify/Customer/987654321)'
                 },
                 cursor: {
                   type: 'string',
                   description: 'Cursor string for paging subscription contracts returned from a previous call (pageInfo.endCursor).'
+                },
+                include_paused: {
+                  type: 'boolean',
+                  description: 'Set to true when the customer wants to resume a paused subscription, so PAUSED contracts are listed too.'
+                }
+              },
+              required: ['shopify_customer_id']
+            }
+          },
+          {
+            name: 'get_customer_overview',
+            description: 'FAST START: Gets all of a customer\'s subscriptions AND each active subscription\'s next 3 deliveries in ONE call. Prefer this over list_subscriptions_for_customer followed by list_upcoming_orders when the customer wants to skip, move or check a delivery, especially with several subscriptions. Also lists PAUSED subscriptions (with no deliveries). WORKFLOW: Show the numbered list from next_step_guidance (condition=WAIT_FOR_CUSTOMER_CHOICE). When the customer picks a number, take order_id AND subscription_contract_id from that selection_map entry and use them with skip_order, reschedule_order or add_one_time_item - no need to call list_subscriptions_for_customer or list_upcoming_orders. If a subscription has upcoming_orders_error, call list_upcoming_orders for it. If subscriptions_truncated is true, not every subscription was loaded - never tell the customer a subscription or delivery does not exist. For the items in a delivery use list_upcoming_orders. PREREQUISITE: Shopify Customer ID (numeric or GID); use resolve_customer if you only have an email.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                shopify_customer_id: {
+                  type: ['integer', 'string'],
+                  description: 'Shopify Customer ID, either numeric (987654321) or as a GID (gid://shopify/Customer/987654321)'
                 }
               },
               required: ['shopify_customer_id']
@@ -38,7 +76,7 @@ export function createSimpleServer() {
           },
           {
             name: 'list_upcoming_orders',
-            description: 'STEP 2 of skip workflow: Gets upcoming deliveries for a subscription. Use after list_subscriptions_for_customer when you have a subscription_contract_id. WORKFLOW: Check the response\'s next_step_guidance field! The guidance will ALWAYS say condition=ALWAYS_ASK. You MUST ASK the customer "Which delivery date would you like to skip?" and show them the list of upcoming delivery dates from the response. SAVES: order_id from the customer\'s chosen date for use in skip_order. PREREQUISITE: subscription_contract_id from STEP 1.',
+            description: 'STEP 2 of skip workflow: Gets upcoming deliveries for a subscription. Use after list_subscriptions_for_customer when you have a subscription_contract_id. WORKFLOW: Check the response\'s next_step_guidance field! The guidance will ALWAYS say condition=ALWAYS_ASK. You MUST ASK the customer "Which delivery date would you like to skip?" and show them the list of upcoming delivery dates from the response. Each order\'s items are flagged purchase_type=RECURRING (from the subscription) or ONE_TIME (extras added for that delivery only). SAVES: order_id from the customer\'s chosen date for use in skip_order. PREREQUISITE: subscription_contract_id from STEP 1.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -53,7 +91,7 @@ export function createSimpleServer() {
           },
           {
             name: 'list_past_orders',
-            description: 'Use this tool when customers ask about order history, past deliveries, or previous shipments. Look for phrases like "order history", "past orders", "previous deliveries", "what orders have been sent", or "delivery history". Shows previous orders including skipped ones for viewing only. PREREQUISITE: subscription_contract_id from list_subscriptions_for_customer. NOTE: To restore a skipped delivery, direct customer to their portal at account.thegourmetanimal.com where they can easily unskip from the History tab.',
+            description: 'Use this tool when customers ask about order history, past deliveries, or previous shipments. Look for phrases like "order history", "past orders", "previous deliveries", "what orders have been sent", or "delivery history". Shows previous orders including skipped ones. PREREQUISITE: subscription_contract_id from list_subscriptions_for_customer. RESTORING A SKIPPED DELIVERY: If the customer wants to undo a skip, use the response\'s next_step_guidance (condition=ONLY_IF_RESTORING) to show the numbered list of skipped orders, then pass the chosen order_id from skipped_selection_map to unskip_order.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -84,9 +122,38 @@ export function createSimpleServer() {
               required: ['subscription_contract_id']
             }
           },
+          {
+            name: 'get_subscription_timeline',
+            description: 'Use this tool when customers ask "when was my last box and when is the next?", "when did my last delivery go out", or want to see recent and upcoming deliveries together. Returns one chronological list of billing attempts with timeline_status SHIPPED, SKIPPED, FAILED or SCHEDULED, plus last_shipped and next_scheduled. PREREQUISITE: subscription_contract_id from list_subscriptions_for_customer. Use list_upcoming_orders instead when the customer wants to pick an order to skip or reschedule.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID from list_subscriptions_for_customer response (subscription_contract_id field)'
+                },
+                days_before: {
+                  type: 'integer',
+                  minimum: 0,
+                  maximum: 365,
+                  default: 90,
+                  description: 'How many days of past billing attempts to include. Default: 90'
+                },
+                days_after: {
+                  type: 'integer',
+                  minimum: 0,
+                  maximum: 365,
+                  default: 90,
+                  description: 'How many days of scheduled billing attempts to include. Default: 90'
+                }
+              },
+              required: ['subscription_contract_id']
+            }
+          },
           {
             name: 'skip_order',
-            description: 'STEP 3 of skip workflow: Executes the skip delivery. Use after list_upcoming_orders when customer selects a date to skip. CRITICAL WORKFLOW: 1) You MUST have fresh order_id from list_upcoming_orders response (Step 2), 2) You MUST CONFIRM with customer before executing: "Shall I skip your delivery on [date]?", 3) Only proceed after customer says yes/confirm/correct. IMPORTANT: Use the exact order_id from the customer\'s selected date in Step 2. Include subscription_contract_id for reliability. FINAL STEP: Inform customer the skip was successful and they can undo it if needed.',
+            description: 'STEP 3 of skip workflow: Executes the skip delivery. Use after list_upcoming_orders when customer selects a date to skip. CRITICAL WORKFLOW: 1) You MUST have fresh order_id from list_upcoming_orders response (Step 2), 2) You MUST CONFIRM with customer before executing: "Shall I skip your delivery on [date]?", 3) Only proceed after customer says yes/confirm/correct. IMPORTANT: Use the exact order_id from the customer\'s selected date in Step 2. Include subscription_contract_id for reliability. FINAL STEP: Inform customer the skip was successful and that you can restore it with unskip_order if they change their mind.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -108,6 +175,512 @@ export function createSimpleServer() {
               },
               required: ['order_id']
             }
+          },
+          {
+            name: 'skip_next_order',
+            description: 'SHORTCUT for "skip my next box/delivery/order": Skips the very next upcoming delivery of a subscription in one call, without list_upcoming_orders. Use only when the customer clearly means the NEXT delivery; for any other date use list_upcoming_orders + skip_order. CRITICAL: Before calling, you MUST CONFIRM the date with the customer using next_billing_date from list_subscriptions_for_customer: "Shall I skip your next delivery on [date]?" Only proceed after customer says yes/confirm/correct. If the response billing_date differs from the date you confirmed, tell the customer which date was actually skipped. PREREQUISITE: subscription_contract_id from list_subscriptions_for_customer. ALL SUBSCRIPTIONS: If a customer with several subscriptions says "skip the next delivery on all of them", pass shopify_customer_id INSTEAD of subscription_contract_id. First call with confirm_skip=false: nothing is skipped, and the response lists every ACTIVE subscription (numbered as in list_subscriptions_for_customer, with protein/allergy differentiators) with the delivery that would be skipped (WOULD_SKIP). Ask the customer the question in next_step_guidance (condition=CONFIRM_SKIP_NEXT), and only after an explicit yes call again with confirm_skip=true. A 409 Too Many Subscriptions error means nothing was skipped; skip each subscription with subscription_contract_id instead. If failed_count > 0 (condition=PARTIAL_FAILURE), tell the customer exactly which subscriptions were NOT skipped.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID from list_subscriptions_for_customer response (subscription_contract_id field). Omit when using shopify_customer_id.'
+                },
+                shopify_customer_id: {
+                  type: ['integer', 'string'],
+                  description: 'Only to skip the next delivery of EVERY active subscription: Shopify Customer ID, numeric or GID. Do not combine with subscription_contract_id.'
+                },
+                confirm_skip: {
+                  type: 'boolean',
+                  default: false,
+                  description: 'Only with shopify_customer_id: set to true ONLY after the customer has confirmed the listed deliveries. false (default) only lists the deliveries that would be skipped.'
+                }
+              }
+            }
+          },
+          {
+            name: 'unskip_order',
+            description: 'Restores a previously skipped delivery. Use when customers say "unskip", "restore my delivery", "I changed my mind about skipping", or "I do want that box after all". WORKFLOW: 1) Call list_past_orders (and list_upcoming_orders if needed) to find orders with status SKIPPED, 2) Show the customer the numbered list from next_step_guidance and let them choose, 3) CONFIRM before executing: "Shall I restore your delivery on [date]?", 4) Call this tool with the order_id from skipped_selection_map. Include subscription_contract_id for reliability.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                order_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Order ID of a SKIPPED order, taken from skipped_selection_map in the list_past_orders response.'
+                },
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID from list_subscriptions_for_customer. Include for reliability.'
+                }
+              },
+              required: ['order_id']
+            }
+          },
+          {
+            name: 'reschedule_order',
+            description: 'Moves ONE upcoming delivery to a different date instead of skipping it. Use when customers say "move my delivery", "deliver a few days later/earlier", "change my delivery date", or "push back my box". WORKFLOW: 1) Call list_upcoming_orders and ask which delivery to move, 2) Ask for the new date, 3) CONFIRM before executing: "Shall I move your delivery from [old date] to [new date]?", 4) Call this tool. RULES: The new date must be in the future and before the following scheduled delivery; if the tool rejects the date, explain why and suggest skip_order instead when the customer wants a longer gap. PREREQUISITE: order_id from list_upcoming_orders and subscription_contract_id.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                order_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Order ID of the delivery to move, from the list_upcoming_orders response.'
+                },
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID the order belongs to (from list_subscriptions_for_customer).'
+                },
+                new_billing_date: {
+                  type: 'string',
+                  description: 'New billing date as YYYY-MM-DD (keeps the original billing time) or a full ISO 8601 datetime. Example: 2025-09-24'
+                }
+              },
+              required: ['order_id', 'subscription_contract_id', 'new_billing_date']
+            }
+          },
+          {
+            name: 'change_delivery_frequency',
+            description: `Changes how often a subscription is delivered (and billed). Use when customers say "deliver less often", "every 4 weeks instead of 2", "I have too much food", "send it more often", or mention skipping because food is piling up. RETENTION TIP: When a customer wants to skip because they have too much food, offer a longer frequency before skipping. WORKFLOW: 1) Get subscription_contract_id from list_subscriptions_for_customer (plan_name shows the current frequency), 2) Offer only these frequencies: ${allowedFrequencies}, 3) CONFIRM before executing: "Shall I change your deliveries to every [frequency]?", 4) Call this tool and tell the customer the new plan_name and next_billing_date from the response.`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID from list_subscriptions_for_customer response (subscription_contract_id field)'
+                },
+                interval: {
+                  type: 'string',
+                  enum: ['DAY', 'WEEK', 'MONTH', 'YEAR'],
+                  description: 'Interval unit. Example: WEEK'
+                },
+                interval_count: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Number of interval units between deliveries. Example: 4 for every 4 weeks'
+                }
+              },
+              required: ['subscription_contract_id', 'interval', 'interval_count']
+            }
+          },
+          {
+            name: 'pause_subscription',
+            description: 'Pauses ALL future deliveries of a subscription until it is resumed. Use when customers say "pause my subscription", "I\'m away for a month", "stop deliveries for a while", or would otherwise skip several orders in a row. For a single delivery use skip_order instead. WORKFLOW: 1) Get subscription_contract_id from list_subscriptions_for_customer, 2) CONFIRM before executing: "Shall I pause all deliveries for this subscription until you resume it?", 3) Call this tool, 4) Follow next_step_guidance (condition=OFFER_RESUME_DATE): offer to set a date for deliveries to restart and, if the customer gives one, call resume_subscription with resume_date. Only ACTIVE subscriptions can be paused (otherwise the call is refused with Subscription Not Active).',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID from list_subscriptions_for_customer response (subscription_contract_id field)'
+                }
+              },
+              required: ['subscription_contract_id']
+            }
+          },
+          {
+            name: 'resume_subscription',
+            description: 'Resumes a PAUSED subscription. Use when customers say "resume my subscription", "restart my deliveries", "unpause", or give a date deliveries should start again. WORKFLOW: 1) Call list_subscriptions_for_customer with include_paused=true to find the paused subscription_contract_id, 2) Ask whether to restart now or from a specific date, 3) CONFIRM before executing: "Shall I resume your subscription with the next delivery on [date]?", 4) Call this tool. The response states the status transition and the next billing date. Only PAUSED subscriptions can be resumed - a cancelled subscription is refused (Subscription Not Paused). If it is refused with Resume Date Required the old next billing date has passed: ask the customer when deliveries should restart and call again with resume_date. Invalid Resume Date means the date is already over - ask for a later one.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID of the PAUSED subscription (list_subscriptions_for_customer with include_paused=true)'
+                },
+                resume_date: {
+                  type: 'string',
+                  description: 'Optional first billing date after resuming, as YYYY-MM-DD (a day in the store\'s timezone, billed at the usual time) or ISO 8601. Omit to resume on the current schedule.'
+                }
+              },
+              required: ['subscription_contract_id']
+            }
+          },
+          {
+            name: 'cancel_subscription',
+            description: 'Guided cancellation flow. Use when customers say "cancel my subscription", "stop my subscription for good", or "I don\'t want this anymore". This tool is called up to THREE times and only cancels on the last call. STEP A: Ask why they are cancelling and map the answer to cancellation_reason, then call with confirm_cancellation=false. STEP B (condition=OFFER_ALTERNATIVES): Present retention_offers exactly as in next_step_guidance. If the customer picks one, call that offer\'s next_tool instead (for apply_discount_code pass the offer\'s discount_code; human_handoff means pass the conversation to the support team). If they still want to cancel, call again with alternatives_declined=true. STEP C (condition=CONFIRM_CANCELLATION): Ask the confirmation question and WAIT for an explicit yes. Only then call with confirm_cancellation=true, keeping alternatives_declined=true (without it the offers are returned again and nothing is cancelled). NEVER set confirm_cancellation=true without the customer\'s explicit confirmation in this conversation. PREREQUISITE: subscription_contract_id from list_subscriptions_for_customer.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID from list_subscriptions_for_customer response (subscription_contract_id field)'
+                },
+                cancellation_reason: {
+                  type: 'string',
+                  enum: ['TOO_MUCH_FOOD', 'TOO_EXPENSIVE', 'PET_DOES_NOT_LIKE_IT', 'PET_DIET_OR_HEALTH_CHANGE', 'PET_PASSED_AWAY', 'MOVING', 'SWITCHING_BRANDS', 'DELIVERY_ISSUES', 'OTHER'],
+                  description: 'Reason the customer gave for cancelling. Use OTHER only when nothing else fits.'
+                },
+                cancellation_note: {
+                  type: 'string',
+                  maxLength: 500,
+                  description: 'Optional short summary of the customer\'s reason in their own words.'
+                },
+                alternatives_declined: {
+                  type: 'boolean',
+                  default: false,
+                  description: 'Set to true after the customer has heard the retention offers and still wants to cancel.'
+                },
+                confirm_cancellation: {
+                  type: 'boolean',
+                  default: false,
+                  description: 'Set to true ONLY after the customer explicitly confirmed the cancellation question from CONFIRM_CANCELLATION guidance.'
+                }
+              },
+              required: ['subscription_contract_id', 'cancellation_reason']
+            }
+          },
+          {
+            name: 'update_line_quantity',
+            description: 'Changes the quantity of ONE item in a subscription. Use when customers say "send 2 bags instead of 1", "reduce my treats to one", or "change the quantity". WORKFLOW: 1) Call list_subscriptions_for_customer and show the numbered lines of the chosen subscription, 2) Ask which item and the new quantity, 3) CONFIRM before executing: "Shall I change [item] to [quantity]?", 4) Call this tool and read back items_summary from the response. To remove an item entirely use remove_line_item, not quantity 0.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID from list_subscriptions_for_customer response (subscription_contract_id field)'
+                },
+                line_id: {
+                  type: 'string',
+                  description: 'Line ID (gid://shopify/SubscriptionLine/...) from the lines array of list_subscriptions_for_customer for the item the customer chose.'
+                },
+                quantity: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'New quantity for the line. Must be at least 1.'
+                }
+              },
+              required: ['subscription_contract_id', 'line_id', 'quantity']
+            }
+          },
+          {
+            name: 'swap_line_variant',
+            description: 'Swaps ONE item in a subscription to a different variant, such as another flavor, protein or bag size. Use when customers say "switch my chicken to beef", "change my flavor", or "I want the bigger bag". WORKFLOW: 1) Call list_subscriptions_for_customer and show the numbered lines of the chosen subscription, 2) Ask which item to change and what to change it to, 3) CONFIRM before executing: "Shall I switch [current item] to [new item]?", 4) Call this tool and read back items_summary from the response. Line IDs can change after a swap - use the lines array from this response for further edits.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID from list_subscriptions_for_customer response (subscription_contract_id field)'
+                },
+                line_id: {
+                  type: 'string',
+                  description: 'Line ID (gid://shopify/SubscriptionLine/...) from the lines array of list_subscriptions_for_customer for the item the customer chose.'
+                },
+                new_variant_id: {
+                  type: ['integer', 'string'],
+                  description: 'Shopify variant ID to switch to, numeric (e.g. 44012345678) or as a gid://shopify/ProductVariant/... GID.'
+                }
+              },
+              required: ['subscription_contract_id', 'line_id', 'new_variant_id']
+            }
+          },
+          {
+            name: 'remove_line_item',
+            description: 'Removes ONE item from a subscription. Use when customers say "remove the treats", "stop sending the toppers", or "take X off my subscription". WORKFLOW: 1) Call list_subscriptions_for_customer and show the numbered lines of the chosen subscription, 2) Ask which item to remove, 3) CONFIRM before executing: "Shall I remove [item] from your subscription?", 4) Call this tool and read back items_summary from the response. If it is the ONLY item in the subscription, do not call this tool - the customer wants cancel_subscription instead.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID from list_subscriptions_for_customer response (subscription_contract_id field)'
+                },
+                line_id: {
+                  type: 'string',
+                  description: 'Line ID (gid://shopify/SubscriptionLine/...) from the lines array of list_subscriptions_for_customer for the item the customer chose.'
+                }
+              },
+              required: ['subscription_contract_id', 'line_id']
+            }
+          },
+          {
+            name: 'add_one_time_item',
+            description: 'Adds a ONE-TIME product to a single upcoming delivery without changing the recurring subscription. Use when customers say "add a bag of treats to my next box", "include an extra bag this time only", or "can I add something to my next order". WORKFLOW: 1) Call list_upcoming_orders and ask which delivery (usually the next one), 2) Identify the product variant to add and the quantity, 3) CONFIRM before executing: "Shall I add [quantity]x [product] to your delivery on [date]? It will only be sent once.", 4) Call this tool. In list_upcoming_orders, items with purchase_type=ONE_TIME are these extras; RECURRING items come from the subscription. For a permanent addition the customer needs a subscription change instead. IF condition=OUTCOME_UNKNOWN the item may already have been added - do NOT call this tool again; call list_upcoming_orders and only add it if it is not on the order.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID the delivery belongs to (from list_subscriptions_for_customer).'
+                },
+                order_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Order ID of the upcoming delivery from list_upcoming_orders. Skipped deliveries cannot take extras.'
+                },
+                variant_id: {
+                  type: ['integer', 'string'],
+                  description: 'Shopify variant ID of the product to add, numeric (e.g. 44012345678) or as a gid://shopify/ProductVariant/... GID.'
+                },
+                quantity: {
+                  type: 'integer',
+                  minimum: 1,
+                  default: 1,
+                  description: 'How many to add. Default: 1'
+                }
+              },
+              required: ['subscription_contract_id', 'order_id', 'variant_id']
+            }
+          },
+          {
+            name: 'update_subscription_preferences',
+            description: `Updates the Protein Substitution and Allergies preferences stored on a subscription. Use when customers say "my dog is allergic to chicken", "please leave out beef", "no more lamb", "remove the allergy note", or "update my pet's dietary requirements". WORKFLOW: 1) Get subscription_contract_id from list_subscriptions_for_customer (items_summary shows current preferences), 2) Map the request onto the allowed values. Protein substitutions: ${config.proteinSubstitutionOptions.join(', ')}. Allergies: ${config.allergyOptions.join(', ')}, 3) CONFIRM before executing, repeating the full allergy list: "Shall I record these allergies: [list]?", 4) Call this tool and read back protein_substitution and allergies from the response EXACTLY as returned. SAFETY: Allergies are safety-critical. If this tool returns an error, do not tell the customer the change was saved; hand off to a human agent. IF condition=PARTIAL_FAILURE only some items were updated (see line_results): relay next_step_guidance.ask_customer exactly and hand off - NEVER say the preferences were saved everywhere.`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID to update (from list_subscriptions_for_customer).'
+                },
+                protein_substitution: {
+                  type: ['string', 'null'],
+                  enum: [...config.proteinSubstitutionOptions, null],
+                  description: 'Protein to leave out of the food. Send null to clear the substitution. Omit to leave it unchanged.'
+                },
+                allergies: {
+                  type: 'array',
+                  items: {
+                    type: 'string',
+                    enum: config.allergyOptions
+                  },
+                  description: 'The COMPLETE list of allergies - replaces what is stored. Send [] to clear all allergies. Omit to leave them unchanged.'
+                }
+              },
+              required: ['subscription_contract_id']
+            }
+          },
+          {
+            name: 'get_shipping_address',
+            description: 'Gets the address a subscription is delivered to. Use when customers ask "where is my order going?", "what address do you have for me?", or before changing an address. WORKFLOW: 1) Get subscription_contract_id from list_subscriptions_for_customer, 2) Call this tool and read formatted_address back to the customer, 3) If they want to change it, collect the new address and use update_shipping_address.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID (from list_subscriptions_for_customer).'
+                }
+              },
+              required: ['subscription_contract_id']
+            }
+          },
+          {
+            name: 'update_shipping_address',
+            description: 'Changes the shipping address for all future deliveries of a subscription. Use when customers say "I\'ve moved", "change my delivery address", "send it to my work instead", or "update my address". WORKFLOW: 1) Get subscription_contract_id from list_subscriptions_for_customer, 2) Collect the complete new address (name, street, city, state, postcode, country), 3) Call this tool WITHOUT confirm_update - it returns previous_address and new_address and changes nothing, 4) Show the customer BOTH full addresses using next_step_guidance.ask_customer and wait for a clear yes, 5) Call again with the same address and confirm_update=true. If the customer corrects anything, repeat from step 3.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID (from list_subscriptions_for_customer).'
+                },
+                shipping_address: {
+                  type: 'object',
+                  properties: {
+                    first_name: { type: 'string', minLength: 1 },
+                    last_name: { type: 'string', minLength: 1 },
+                    company: { type: 'string' },
+                    address1: { type: 'string', minLength: 1, description: 'Street address' },
+                    address2: { type: 'string', description: 'Apartment, unit, suite, etc.' },
+                    city: { type: 'string', minLength: 1 },
+                    province: { type: 'string', description: 'State or territory name' },
+                    province_code: { type: 'string', description: 'State or territory code, e.g. NSW' },
+                    country_code: { type: 'string', pattern: '^[A-Za-z]{2}$', description: '2-letter ISO country code, e.g. AU' },
+                    zip: { type: 'string', minLength: 1, description: 'Postcode' },
+                    phone: { type: 'string', description: 'Contact phone for the courier (optional)' }
+                  },
+                  required: ['first_name', 'last_name', 'address1', 'city', 'country_code', 'zip']
+                },
+                confirm_update: {
+                  type: 'boolean',
+                  default: false,
+                  description: 'Set to true ONLY after the customer confirmed the old/new address comparison. Default: false (preview only).'
+                }
+              },
+              required: ['subscription_contract_id', 'shipping_address']
+            }
+          },
+          {
+            name: 'apply_discount_code',
+            description: 'Applies a discount code to all future orders of a subscription. Use when a customer gives you a discount code ("I have a code SAVE10", "can you add my promo code"), or when they accept the discount retention offer from cancel_subscription (use that offer\'s discount_code). WORKFLOW: 1) Get subscription_contract_id from list_subscriptions_for_customer, 2) CONFIRM the code with the customer, 3) Call this tool and read back the discounts from the response. ERRORS: "Invalid Discount Code" and "Discount Already Applied" contain a customer-facing explanation in detail - relay it instead of retrying.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID (from list_subscriptions_for_customer).'
+                },
+                discount_code: {
+                  type: 'string',
+                  minLength: 1,
+                  description: 'The discount code exactly as the customer gave it (e.g. SAVE10).'
+                }
+              },
+              required: ['subscription_contract_id', 'discount_code']
+            }
+          },
+          {
+            name: 'remove_discount',
+            description: 'Removes a discount from a subscription so future orders are charged the regular price. Use when customers ask to "remove the discount" or "take off the promo code". WORKFLOW: 1) Get subscription_contract_id from list_subscriptions_for_customer, 2) Identify the discount by discount_id (from a previous discount response) or by the code the customer used, 3) CONFIRM before executing: "Shall I remove the [code] discount? Future orders will be charged the regular price.", 4) Call this tool.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID (from list_subscriptions_for_customer).'
+                },
+                discount_id: {
+                  type: 'string',
+                  description: 'Discount GID (gid://shopify/SubscriptionManualDiscount/...) from a previous discount response.'
+                },
+                discount_code: {
+                  type: 'string',
+                  description: 'The discount code to remove, if discount_id is not known.'
+                }
+              },
+              required: ['subscription_contract_id']
+            }
+          },
+          {
+            name: 'get_subscription_details',
+            description: 'Gets EVERYTHING about one subscription in a single call: every item with variant, quantity and price, delivery and billing frequency, next billing date, shipping address, payment method status, discounts, custom attributes (protein substitution, allergies) and the original order. Use when customers ask "what\'s in my box?", "how much is my subscription?", "which card am I paying with?", or when items_summary from list_subscriptions_for_customer is cut off ("+N more"). PREREQUISITE: subscription_contract_id from list_subscriptions_for_customer. If payment_method.status is not VALID, let the customer know the next order will fail until the card is updated and offer send_payment_update_email.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID (from list_subscriptions_for_customer).'
+                }
+              },
+              required: ['subscription_contract_id']
+            }
+          },
+          {
+            name: 'list_failed_payments',
+            description: 'Lists orders whose payment FAILED, with the payment gateway\'s failure_reason. Use when customers ask "why didn\'t my order ship?", "I didn\'t get my delivery", "my payment failed", or "was I charged?". WORKFLOW: 1) Get subscription_contract_id from list_subscriptions_for_customer, 2) Call this tool and explain failure_reason in plain words, 3) Follow next_step_guidance: IF condition=PAYMENT_METHOD_UPDATE_NEEDED (declined, expired or insufficient funds) the card must be updated - do NOT retry, a retry will fail again; offer send_payment_update_email instead. IF condition=OFFER_RETRY the failure was not caused by the card - offer retry_billing_attempt with the chosen order_id.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID (from list_subscriptions_for_customer).'
+                }
+              },
+              required: ['subscription_contract_id']
+            }
+          },
+          {
+            name: 'retry_billing_attempt',
+            description: 'Retries the payment for a FAILED order. Use after list_failed_payments when the failure was temporary (condition=OFFER_RETRY), or when the customer says they have updated their card or added funds. WORKFLOW: 1) Get order_id from list_failed_payments, 2) CONFIRM before executing: "Shall I try charging your card again for the order on [date]?", 3) Call this tool and relay next_step_guidance.ask_customer. If it fails again with a card problem (condition=PAYMENT_METHOD_UPDATE_NEEDED), offer send_payment_update_email. IF condition=OUTCOME_UNKNOWN the charge may already have gone through - do NOT call this tool again; call list_failed_payments and only offer another retry if the order is still listed.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID (from list_subscriptions_for_customer).'
+                },
+                order_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Order ID of the failed payment from list_failed_payments.'
+                }
+              },
+              required: ['subscription_contract_id', 'order_id']
+            }
+          },
+          {
+            name: 'send_payment_update_email',
+            description: `Emails the customer a secure link to update the card on their subscription. Use when a payment failed because of the card (condition=PAYMENT_METHOD_UPDATE_NEEDED from list_failed_payments, retry_billing_attempt or get_subscription_details), or when customers say "my card expired", "I have a new card", or "how do I change my payment details?". NEVER ask for card numbers in chat. WORKFLOW: 1) Get subscription_contract_id from list_subscriptions_for_customer, 2) CONFIRM: "Shall I email you a secure link to update your payment details?", 3) Call this tool and tell the customer to check their inbox. Save last_sent_at from the response: if the customer asks again in this conversation, pass it as last_sent_at, or the server may not know the email was already sent. A new email is only sent ${config.paymentEmailCooldownMinutes} minutes after last_sent_at - if sent=false, do NOT call again; ask the customer to check their spam folder.`,
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID (from list_subscriptions_for_customer).'
+                },
+                last_sent_at: {
+                  type: 'string',
+                  description: 'last_sent_at from an earlier send_payment_update_email response in this conversation, if any. Always pass it when you have it.'
+                }
+              },
+              required: ['subscription_contract_id']
+            }
+          },
+          {
+            name: 'find_order_by_name',
+            description: 'Finds the subscription and order behind an order number the customer quotes from their confirmation email, such as "#TGA1234". Use when customers say "my order #TGA1234", "order TGA1234 never arrived", or "I was charged for order 1234". Searches the customer\'s subscriptions, so you need their shopify_customer_id first (use resolve_customer if you only have an email). Returns subscription_contract_id and the order (order_id, status, billing_date). WORKFLOW: Follow next_step_guidance: IF condition=PAYMENT_METHOD_UPDATE_NEEDED offer send_payment_update_email; IF condition=OFFER_RETRY offer retry_billing_attempt with order.order_id; IF condition=ONLY_IF_RESTORING offer unskip_order with order.order_id; otherwise use subscription_contract_id with list_past_orders (order history) or list_upcoming_orders (skip workflow) without asking which subscription. If it returns Order Not Found, ask the customer to check the order number.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                order_name: {
+                  type: 'string',
+                  description: 'Order number as the customer gave it, with or without the # prefix. Example: "#TGA1234"'
+                },
+                shopify_customer_id: {
+                  type: ['integer', 'string'],
+                  description: 'Shopify Customer ID, either numeric (987654321) or as a GID (gid://shopify/Customer/987654321)'
+                },
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Optional: only search this subscription, if you already know which one the order belongs to.'
+                }
+              },
+              required: ['order_name', 'shopify_customer_id']
+            }
+          },
+          {
+            name: 'skip_orders_in_range',
+            description: 'VACATION MODE: Skips every delivery billed between two dates. Use when customers say "I\'m away 1-21 August", "skip whatever falls while I\'m on holiday", or "no deliveries until the 20th". For a single delivery use skip_order; to stop deliveries indefinitely use pause_subscription. WORKFLOW: 1) Get subscription_contract_id from list_subscriptions_for_customer, 2) Convert the customer\'s dates to YYYY-MM-DD (both inclusive), 3) Call with confirm_skip=false and ask the customer the question in next_step_guidance (condition=CONFIRM_SKIP_RANGE), listing the dates, 4) Only after an explicit yes, call again with confirm_skip=true, 5) Read back next_step_guidance.ask_customer. The response reports every order in results (SKIPPED, ALREADY_SKIPPED or FAILED). If failed_count > 0 (condition=PARTIAL_FAILURE), tell the customer exactly which dates are still scheduled - NEVER say everything was skipped. ALL SUBSCRIPTIONS: For a customer with several subscriptions who is away, pass shopify_customer_id INSTEAD of subscription_contract_id; the response then lists every ACTIVE subscription (numbered, with protein/allergy differentiators) and its orders in the range. A 409 Too Many Subscriptions error means nothing was skipped; skip each subscription with subscription_contract_id instead.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscription_contract_id: {
+                  type: 'integer',
+                  minimum: 1,
+                  description: 'Subscription contract ID (from list_subscriptions_for_customer). Omit when using shopify_customer_id.'
+                },
+                shopify_customer_id: {
+                  type: ['integer', 'string'],
+                  description: 'Only to skip the range on EVERY active subscription: Shopify Customer ID, numeric or GID. Do not combine with subscription_contract_id.'
+                },
+                start_date: {
+                  type: 'string',
+                  pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+                  description: 'First day of the range, inclusive, in YYYY-MM-DD format. Example: "2025-08-01"'
+                },
+                end_date: {
+                  type: 'string',
+                  pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+                  description: 'Last day of the range, inclusive, in YYYY-MM-DD format. Example: "2025-08-21"'
+                },
+                confirm_skip: {
+                  type: 'boolean',
+                  default: false,
+                  description: 'Set to true ONLY after the customer has confirmed the list of dates. false (default) only lists the orders that would be skipped.'
+                }
+              },
+              required: ['start_date', 'end_date']
+            }
           }
         ];
       }
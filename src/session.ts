@@ -0,0 +1,124 @@
+import { randomUUID } from 'node:crypto';
+import { logger } from './logger.js';
+import type { ProtocolState } from './protocol.js';
+
+// Receives server-initiated messages for one open GET event stream
+type SessionListener = (message: unknown) => void;
+
+interface McpSession {
+  id: string;
+  createdAt: number;
+  lastSeenAt: number;
+  listeners: Set<SessionListener>;
+  // Negotiated protocol version and client capabilities, filled in by initialize
+  protocol: ProtocolState;
+}
+
+// Sessions idle for longer than this are forgotten; the client then has to initialize again
+const DEFAULT_SESSION_TTL_MS = 30 * 60 * 1000;
+
+// In-memory Streamable HTTP sessions. Sessions only live as long as the function instance,
+// so deployments that spread requests across instances should run the transport without sessions.
+export class SessionManager {
+  private sessions = new Map<string, McpSession>();
+  private ttlMs: number;
+  private now: () => number;
+
+  constructor(ttlMs: number = DEFAULT_SESSION_TTL_MS, now: () => number = Date.now) {
+    this.ttlMs = ttlMs;
+    this.now = now;
+  }
+
+  // Issued when a client initializes
+  create(): McpSession {
+    this.removeExpired();
+
+    const timestamp = this.now();
+    const session: McpSession = {
+      id: randomUUID(),
+      createdAt: timestamp,
+      lastSeenAt: timestamp,
+      listeners: new Set(),
+      protocol: {},
+    };
+    this.sessions.set(session.id, session);
+
+    logger.info('MCP session created', { sessionCount: this.sessions.size });
+    return session;
+  }
+
+  // Returns the live session and marks it as used, or undefined if it is unknown or expired
+  get(id: string): McpSession | undefined {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return undefined;
+    }
+
+    if (this.isExpired(session)) {
+      this.delete(id);
+      return undefined;
+    }
+
+    session.lastSeenAt = this.now();
+    return session;
+  }
+
+  // Ends a session; its open event streams are told to close
+  delete(id: string): boolean {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+
+    this.sessions.delete(id);
+    for (const listener of session.listeners) {
+      listener(null);
+    }
+    session.listeners.clear();
+
+    logger.info('MCP session ended', { sessionCount: this.sessions.size });
+    return true;
+  }
+
+  // Register an open GET event stream; the listener gets null when the session ends.
+  // Returns a function that unregisters it.
+  subscribe(id: string, listener: SessionListener): () => void {
+    const session = this.sessions.get(id);
+    if (!session) {
+      throw new Error(`Unknown session ${id}`);
+    }
+
+    session.listeners.add(listener);
+    return () => {
+      session.listeners.delete(listener);
+    };
+  }
+
+  // Send a server-initiated message to the session's open event streams.
+  // Returns false when no stream is open to receive it.
+  notify(id: string, message: unknown): boolean {
+    const session = this.sessions.get(id);
+    if (!session || session.listeners.size === 0) {
+      return false;
+    }
+
+    for (const listener of session.listeners) {
+      listener(message);
+    }
+    return true;
+  }
+
+  private isExpired(session: McpSession): boolean {
+    return this.now() - session.lastSeenAt > this.ttlMs;
+  }
+
+  private removeExpired(): void {
+    for (const session of [...this.sessions.values()]) {
+      if (this.isExpired(session)) {
+        this.delete(session.id);
+      }
+    }
+  }
+}
+
+export type { McpSession, SessionListener };
@@ -0,0 +1,102 @@
+import { createInterface } from 'node:readline';
+import type { Readable, Writable } from 'node:stream';
+import { logger } from './logger.js';
+import { McpDispatcher } from './dispatcher.js';
+import type {
+  DispatchContext,
+  JsonRpcError,
+  JsonRpcNotification,
+  JsonRpcResponse,
+  McpServerDefinition,
+} from './dispatcher.js';
+import type { ProtocolState } from './protocol.js';
+
+// stdio transport for local MCP clients: one JSON-RPC message (or batch) per line in, one per line out.
+// stdout is reserved for protocol messages, so call logger.useStderr() before anything else logs.
+export class StdioMcpTransport {
+  private dispatcher: McpDispatcher;
+  private input: Readable;
+  private output: Writable;
+  private pending = new Set<Promise<void>>();
+  // One process serves one client, so the whole connection is a single session
+  private protocol: ProtocolState = {};
+
+  constructor(simpleServer: McpServerDefinition, input: Readable = process.stdin, output: Writable = process.stdout) {
+    this.dispatcher = new McpDispatcher(simpleServer);
+    this.input = input;
+    this.output = output;
+  }
+
+  // Read messages until stdin closes; resolves once every in-flight request has been answered
+  async start(): Promise<void> {
+    const lines = createInterface({ input: this.input, crlfDelay: Infinity });
+
+    lines.on('line', line => {
+      if (line.trim().length === 0) {
+        return;
+      }
+      // Requests run concurrently; each response carries its own id
+      const task = this.handleLine(line).finally(() => this.pending.delete(task));
+      this.pending.add(task);
+    });
+
+    await new Promise<void>(resolve => lines.once('close', () => resolve()));
+    await Promise.all([...this.pending]);
+    logger.info('stdio transport closed', {});
+  }
+
+  private async handleLine(line: string): Promise<void> {
+    const requestId = logger.generateRequestId();
+
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch (parseError) {
+      logger.error('Failed to parse stdio message', {
+        requestId,
+        error: parseError instanceof Error ? parseError.message : String(parseError)
+      });
+      this.send({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+      return;
+    }
+
+    // Notifications (progress, log messages) are written to stdout as they happen
+    const context: DispatchContext = {
+      protocol: this.protocol,
+      notify: notification => this.send(notification),
+    };
+
+    try {
+      if (Array.isArray(message)) {
+        logger.debug('Processing batch request', { requestId, batchSize: message.length });
+        const responses = await Promise.all(
+          message.map((req, index) => this.dispatcher.processJsonRpcRequest(req, `${requestId}_${index}`, context))
+        );
+        const validResponses = responses.filter(r => r !== null);
+
+        // A batch of notifications gets no reply at all
+        if (validResponses.length > 0) {
+          this.send(validResponses);
+        }
+        return;
+      }
+
+      logger.debug('Processing single request', { requestId });
+      const response = await this.dispatcher.processJsonRpcRequest(message, requestId, context);
+      if (response !== null) {
+        this.send(response);
+      }
+    } catch (error) {
+      logger.error('Transport error', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      this.send({ jsonrpc: '2.0', id: null, error: { code: -32603, message: 'Internal error' } });
+    }
+  }
+
+  private send(message: JsonRpcResponse | JsonRpcError | JsonRpcNotification | Array<JsonRpcResponse | JsonRpcError>): void {
+    // JSON.stringify never emits raw newlines, so one message stays on one line
+    this.output.write(`${JSON.stringify(message)}\n`);
+  }
+}
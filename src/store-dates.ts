@@ -0,0 +1,78 @@
+import { STORE_TIMEZONE } from './config.js';
+
+// Calendar dates customers give (YYYY-MM-DD) are days in the store's timezone, while Appstle
+// stores billing dates as UTC instants. These helpers convert between the two.
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export function isDateOnly(value: string): boolean {
+  return DATE_ONLY_PATTERN.test(value);
+}
+
+// Local date and time of an instant in the given timezone
+function wallClockAt(instant: Date, timeZone: string): WallClock {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes): number =>
+    parseInt(parts.find(entry => entry.type === type)?.value ?? '0', 10);
+
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second'),
+  };
+}
+
+// Milliseconds the timezone is ahead of UTC at the given instant
+function utcOffsetAt(instant: Date, timeZone: string): number {
+  const local = wallClockAt(instant, timeZone);
+  const localAsUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return localAsUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// Calendar day (YYYY-MM-DD) of an instant in the store's timezone
+export function toStoreDate(instant: Date | string, timeZone: string = STORE_TIMEZONE): string {
+  const local = wallClockAt(typeof instant === 'string' ? new Date(instant) : instant, timeZone);
+  return `${local.year}-${String(local.month).padStart(2, '0')}-${String(local.day).padStart(2, '0')}`;
+}
+
+// UTC instant of a YYYY-MM-DD day in the store's timezone, at the same local time of day as
+// `reference` (a billing date), so a moved order keeps its usual billing time
+export function atStoreTimeOfDay(date: string, reference: string, timeZone: string = STORE_TIMEZONE): string {
+  const [year, month, day] = date.split('-').map(value => parseInt(value, 10));
+  const time = wallClockAt(new Date(reference), timeZone);
+  const wall = Date.UTC(year, month - 1, day, time.hour, time.minute, time.second);
+
+  // The offset depends on the instant itself; a second pass settles it across daylight saving changes
+  const guess = wall - utcOffsetAt(new Date(wall), timeZone);
+  // Whole seconds, written the way Appstle writes billing dates
+  return new Date(wall - utcOffsetAt(new Date(guess), timeZone)).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+// Billing datetime for a date the customer asked for: a date-only value becomes that store day at the
+// reference's local billing time, a full datetime is used as given
+export function toBillingDateTime(requested: string, reference: string, timeZone: string = STORE_TIMEZONE): string {
+  return isDateOnly(requested)
+    ? atStoreTimeOfDay(requested, reference, timeZone)
+    : new Date(requested).toISOString();
+}
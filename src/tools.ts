@@ -1,6 +1,11 @@
 import { z } from 'zod';
 import { AppstleClient, AppstleError } from './appstle.js';
 import { logger } from './logger.js';
+import { createToolConfig, isAllowedDeliveryInterval, findAllowedOption } from './config.js';
+import type { ToolConfig } from './config.js';
+import { createCustomerLookup } from './customer-lookup.js';
+import type { CustomerLookup } from './customer-lookup.js';
+import { toBillingDateTime } from './store-dates.js';
 import {
   ListSubscriptionsForCustomerInputSchema,
   ListSubscriptionsForCustomerOutputSchema,
@@ -10,26 +15,132 @@ import {
   ListPastOrdersOutputSchema,
   SkipOrderInputSchema,
   SkipOrderOutputSchema,
+  SkipNextOrderInputSchema,
+  UnskipOrderInputSchema,
+  UnskipOrderOutputSchema,
+  RescheduleOrderInputSchema,
+  RescheduleOrderOutputSchema,
+  ChangeDeliveryFrequencyInputSchema,
+  ChangeDeliveryFrequencyOutputSchema,
+  PauseSubscriptionInputSchema,
+  ResumeSubscriptionInputSchema,
+  SubscriptionStatusChangeOutputSchema,
+  CancelSubscriptionInputSchema,
+  CancelSubscriptionOutputSchema,
+  UpdateLineQuantityInputSchema,
+  SwapLineVariantInputSchema,
+  RemoveLineItemInputSchema,
+  LineItemsUpdateOutputSchema,
+  AddOneTimeItemInputSchema,
+  AddOneTimeItemOutputSchema,
+  UpdateSubscriptionPreferencesInputSchema,
+  UpdateSubscriptionPreferencesOutputSchema,
+  GetShippingAddressInputSchema,
+  GetShippingAddressOutputSchema,
+  UpdateShippingAddressInputSchema,
+  UpdateShippingAddressOutputSchema,
+  ApplyDiscountCodeInputSchema,
+  RemoveDiscountInputSchema,
+  DiscountUpdateOutputSchema,
+  GetSubscriptionDetailsInputSchema,
+  GetSubscriptionDetailsOutputSchema,
+  ListFailedPaymentsInputSchema,
+  ListFailedPaymentsOutputSchema,
+  RetryBillingAttemptInputSchema,
+  RetryBillingAttemptOutputSchema,
+  SendPaymentUpdateEmailInputSchema,
+  SendPaymentUpdateEmailOutputSchema,
+  ResolveCustomerInputSchema,
+  ResolveCustomerOutputSchema,
+  FindOrderByNameInputSchema,
+  FindOrderByNameOutputSchema,
+  SkipOrdersInRangeInputSchema,
+  SkipOrdersInRangeOutputSchema,
+  MultiContractSkipOutputSchema,
+  GetCustomerOverviewInputSchema,
+  GetCustomerOverviewOutputSchema,
+  GetSubscriptionTimelineInputSchema,
+  GetSubscriptionTimelineOutputSchema,
 } from './schemas.js';
+import type { RangeSkipResult, MultiContractSkipOutput, PreferenceLineResult } from './schemas.js';
 import {
   toSubscriptionsSummary,
   toUpcomingOrders,
   toPastOrders,
   mapSkipResponse,
+  resolveRescheduleDate,
+  mapRescheduleResponse,
+  mapFrequencyChangeResponse,
+  buildPlanName,
+  mapStatusChangeResponse,
+  buildRetentionOffers,
+  buildCancellationStep,
+  mapCancellationResponse,
+  CANCELLATION_REASON_LABELS,
+  mapLineItemsResponse,
+  mapOneOffResponse,
+  mapOneOffOutcomeUnknown,
+  applyPreferenceAttributes,
+  mapPreferencesResponse,
+  toShippingAddress,
+  toAppstleMailingAddress,
+  mapShippingAddress,
+  buildAddressChangeStep,
+  mapShippingAddressUpdateResponse,
+  mapDiscounts,
+  mapDiscountResponse,
+  toSubscriptionDetails,
+  toFailedPayments,
+  mapRetryBillingResponse,
+  mapRetryBillingOutcomeUnknown,
+  mapPaymentEmailResponse,
+  normalizeCustomerIdentifier,
+  mapResolvedCustomer,
+  findOrderByName,
+  mapOrderLookup,
+  selectOrdersInRange,
+  mapRangeSkipResults,
+  mapMultiContractSkipResults,
+  toCustomerOverview,
+  toSubscriptionTimeline,
+  parseGidTail,
   validateNumericCustomerId,
 } from './mapping.js';
 
+// How many recent past orders are scanned for failed payments
+const FAILED_PAYMENT_SCAN_SIZE = 50;
+
+// How many recent past orders per subscription are searched by order name
+const ORDER_NAME_SCAN_SIZE = 50;
+
+// How many pages of a customer's subscription contracts are read when every contract is needed
+const MAX_CONTRACT_PAGES = 5;
+
+// How many upcoming orders per subscription are shown by get_customer_overview
+const OVERVIEW_ORDERS_PER_SUBSCRIPTION = 3;
+
+// How many recent past orders are read for get_subscription_timeline (a year of weekly deliveries)
+const TIMELINE_PAST_SCAN_SIZE = 60;
+
 // Tool handler type
 type ToolHandler<TInput, TOutput> = (
   input: TInput,
   requestId: string
 ) => Promise<TOutput>;
 
-// Create a validated tool handler
+// Per-tool logging settings for createTool
+interface ToolOptions {
+  // false when the output repeats personal data in free text (e.g. an address in ask_customer),
+  // where key-based masking cannot reach it; only the output keys are logged then
+  logOutput?: boolean;
+}
+
+// Create a validated tool handler; the handler receives the parsed input (defaults applied, refinements narrowed)
 function createTool<TInput, TOutput>(
-  inputSchema: z.ZodSchema<TInput>,
+  inputSchema: z.ZodType<TInput, z.ZodTypeDef, unknown>,
   outputSchema: z.ZodSchema<TOutput>,
-  handler: ToolHandler<TInput, TOutput>
+  handler: ToolHandler<TInput, TOutput>,
+  options: ToolOptions = {}
 ): (input: unknown, requestId: string) => Promise<TOutput> {
   return async (input: unknown, requestId: string): Promise<TOutput> => {
     try {
@@ -42,7 +153,9 @@ function createTool<TInput, TOutput>(
       const result = await handler(validatedInput, requestId);
       
       // Validate output
-      logger.debug('Validating output for tool', { requestId, rawOutput: JSON.stringify(result) });
+      logger.debug('Validating output for tool', options.logOutput === false
+        ? { requestId, outputKeys: Object.keys(result ?? {}) }
+        : { requestId, rawOutput: JSON.stringify(result) });
       const validatedOutput = outputSchema.parse(result);
       logger.debug('Output validation successful', { requestId });
       
@@ -60,37 +173,193 @@ function createTool<TInput, TOutput>(
   };
 }
 
+// Run fn over items with at most `limit` calls in flight; results keep the order of items.
+// fn should handle its own errors - one rejection rejects the whole batch.
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+
+  await Promise.all(workers);
+  return results;
+}
+
+// Error text reported for one item that failed inside a batch, or one step of a partly applied change
+function describeBatchError(error: unknown): string {
+  if (error instanceof AppstleError) {
+    return `${error.title}: ${error.detail}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
 // Tool implementations
 // Note: We use "order" terminology in tool names and descriptions for customer-facing clarity,
 // but these map to "billing attempts" in Appstle's backend API. A billing attempt represents
 // a scheduled delivery/order in the subscription lifecycle.
-export function createTools(appstleClient: AppstleClient) {
+export function createTools(
+  appstleClient: AppstleClient,
+  config: ToolConfig = createToolConfig(),
+  customerLookup: CustomerLookup | undefined = createCustomerLookup()
+) {
+  // Every subscription contract of a customer, whatever its status, following pagination
+  async function getAllSubscriptionContracts(customerId: number, requestId: string): Promise<Awaited<ReturnType<AppstleClient['getSubscriptionCustomer']>>> {
+    const edges = [];
+    let cursor: string | undefined;
+    let pageInfo: { hasNextPage: boolean; endCursor?: string } = { hasNextPage: false };
+
+    for (let page = 0; page < MAX_CONTRACT_PAGES; page++) {
+      const appstle = await appstleClient.getSubscriptionCustomer(customerId, cursor, requestId);
+      edges.push(...appstle.subscriptionContracts.edges);
+      pageInfo = appstle.subscriptionContracts.pageInfo;
+
+      if (!pageInfo.hasNextPage || !pageInfo.endCursor) {
+        break;
+      }
+      cursor = pageInfo.endCursor;
+    }
+
+    // pageInfo.hasNextPage stays true when the page limit was reached; callers must not treat the list as complete
+    if (pageInfo.hasNextPage) {
+      logger.warn('Stopped reading subscription contracts at the page limit', {
+        requestId,
+        customerId,
+        pages: MAX_CONTRACT_PAGES,
+        contractCount: edges.length,
+      });
+    }
+
+    return { subscriptionContracts: { edges, pageInfo } };
+  }
+
+  // Skip (or with confirmed=false, list) the upcoming orders of one contract billed in a date range.
+  // Orders are skipped one at a time so a failure part-way through leaves a clear record of what was skipped.
+  async function skipRangeForContract(
+    contractId: number,
+    startDate: string,
+    endDate: string,
+    confirmed: boolean,
+    requestId: string
+  ): Promise<RangeSkipResult[]> {
+    const topOrders = await appstleClient.getTopOrders(contractId, requestId);
+    const inRange = selectOrdersInRange(toUpcomingOrders(topOrders).upcoming, startDate, endDate);
+
+    const results: RangeSkipResult[] = [];
+    for (const order of inRange) {
+      if (order.status === 'SKIPPED') {
+        results.push({ order_id: order.order_id, billing_date: order.billing_date, result: 'ALREADY_SKIPPED', status: order.status });
+        continue;
+      }
+
+      if (!confirmed) {
+        results.push({ order_id: order.order_id, billing_date: order.billing_date, result: 'WOULD_SKIP', status: order.status });
+        continue;
+      }
+
+      try {
+        const skipped = await appstleClient.skipBillingAttempt(order.order_id, contractId, false, requestId);
+        results.push({ order_id: order.order_id, billing_date: order.billing_date, result: 'SKIPPED', status: skipped.status });
+      } catch (skipError) {
+        logger.warn('Failed to skip order in range', {
+          requestId,
+          tool: 'skip_orders_in_range',
+          contractId,
+          orderId: order.order_id,
+          error: skipError instanceof Error ? skipError.message : String(skipError),
+        });
+        results.push({
+          order_id: order.order_id,
+          billing_date: order.billing_date,
+          result: 'FAILED',
+          status: order.status,
+          error: describeBatchError(skipError),
+        });
+      }
+    }
+
+    return results;
+  }
+
+  // Multi-contract mode: run skipContract for every ACTIVE subscription of a customer, a few at a time.
+  // A failing subscription is reported in the combined result rather than failing the whole call.
+  async function skipAcrossSubscriptions(
+    shopifyCustomerId: number | string,
+    confirmed: boolean,
+    tool: 'skip_orders_in_range' | 'skip_next_order',
+    requestId: string,
+    skipContract: (contractId: number) => Promise<RangeSkipResult[]>
+  ): Promise<MultiContractSkipOutput> {
+    // Customer GIDs are accepted too; Appstle only takes the numeric ID
+    const customerId = typeof shopifyCustomerId === 'string' ? parseGidTail(shopifyCustomerId) : shopifyCustomerId;
+    validateNumericCustomerId(customerId);
+
+    const contracts = await getAllSubscriptionContracts(customerId, requestId);
+    // Skipping only the subscriptions that were read would leave the rest scheduled while reporting success
+    if (contracts.subscriptionContracts.pageInfo.hasNextPage) {
+      throw new AppstleError(
+        409,
+        'Too Many Subscriptions',
+        `Customer ${customerId} has more subscriptions than can be read in one call, so nothing was skipped. Skip each subscription separately with subscription_contract_id, or pass this to our team.`,
+        requestId
+      );
+    }
+
+    const { subscriptions } = toSubscriptionsSummary(contracts);
+
+    const outcomes = await mapWithConcurrency(subscriptions, config.multiContractConcurrency, async subscription => {
+      try {
+        return { subscription, orders: await skipContract(subscription.subscription_contract_id) };
+      } catch (error) {
+        logger.warn('Failed to skip orders for subscription', {
+          requestId,
+          tool,
+          customerId,
+          contractId: subscription.subscription_contract_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return { subscription, orders: [], error: describeBatchError(error) };
+      }
+    });
+
+    return mapMultiContractSkipResults(customerId, outcomes, confirmed, tool);
+  }
+
   const listSubscriptionsForCustomer = createTool(
     ListSubscriptionsForCustomerInputSchema,
     ListSubscriptionsForCustomerOutputSchema,
     async (input, requestId) => {
+      // Customer GIDs are accepted too; Appstle only takes the numeric ID
+      const customerId = typeof input.shopify_customer_id === 'string'
+        ? parseGidTail(input.shopify_customer_id)
+        : input.shopify_customer_id;
+
       logger.info('Listing subscriptions for customer', {
         requestId,
         tool: 'list_subscriptions_for_customer',
-        customerId: input.shopify_customer_id,
+        customerId,
         cursor: input.cursor,
       });
 
       try {
-        validateNumericCustomerId(input.shopify_customer_id);
+        validateNumericCustomerId(customerId);
         
         const appstle = await appstleClient.getSubscriptionCustomer(
-          input.shopify_customer_id,
+          customerId,
           input.cursor,
           requestId
         );
         
-        const result = toSubscriptionsSummary(appstle);
+        const result = toSubscriptionsSummary(appstle, { includePaused: input.include_paused });
         
         logger.info('Successfully listed subscriptions', {
           requestId,
           tool: 'list_subscriptions_for_customer',
-          customerId: input.shopify_customer_id,
+          customerId,
           subscriptionCount: result.subscriptions.length,
           hasNextPage: result.page_info.has_next_page,
         });
@@ -101,7 +370,7 @@ export function createTools(appstleClient: AppstleClient) {
           logger.error('Appstle API error listing subscriptions', {
             requestId,
             tool: 'list_subscriptions_for_customer',
-            customerId: input.shopify_customer_id,
+            customerId,
             statusCode: error.statusCode,
             title: error.title,
           });
@@ -111,7 +380,7 @@ export function createTools(appstleClient: AppstleClient) {
         logger.error('Unexpected error listing subscriptions', {
           requestId,
           tool: 'list_subscriptions_for_customer',
-          customerId: input.shopify_customer_id,
+          customerId,
           error: error instanceof Error ? error.message : String(error),
         });
         
@@ -136,12 +405,21 @@ export function createTools(appstleClient: AppstleClient) {
       });
 
       try {
-        const appstle = await appstleClient.getTopOrders(
-          input.subscription_contract_id,
-          requestId
-        );
+        // One-time items are optional detail - a failed lookup should not hide the schedule
+        const [appstle, oneOffs] = await Promise.all([
+          appstleClient.getTopOrders(input.subscription_contract_id, requestId),
+          appstleClient.getOneOffs(input.subscription_contract_id, requestId).catch(error => {
+            logger.warn('Could not load one-time items for upcoming orders', {
+              requestId,
+              tool: 'list_upcoming_orders',
+              contractId: input.subscription_contract_id,
+              error: error instanceof Error ? error.message : String(error),
+            });
+            return [];
+          }),
+        ]);
         
-        const result = toUpcomingOrders(appstle);
+        const result = toUpcomingOrders(appstle, oneOffs);
         
         logger.info('Successfully listed upcoming orders', {
           requestId,
@@ -321,10 +599,2216 @@ export function createTools(appstleClient: AppstleClient) {
     }
   );
 
+  // Skip whichever order is next for a contract (Appstle picks the upcoming billing attempt),
+  // or with shopify_customer_id, the next order of every ACTIVE subscription once confirmed
+  const skipNextOrder = createTool(
+    SkipNextOrderInputSchema,
+    SkipOrderOutputSchema.or(MultiContractSkipOutputSchema),
+    async (input, requestId) => {
+      const confirmed = input.confirm_skip === true;
+      // Customer GIDs are accepted too; Appstle only takes the numeric ID
+      const customerId = typeof input.shopify_customer_id === 'string'
+        ? parseGidTail(input.shopify_customer_id)
+        : input.shopify_customer_id;
+
+      logger.info('Skipping next order', {
+        requestId,
+        tool: 'skip_next_order',
+        contractId: input.subscription_contract_id,
+        customerId,
+        confirmed,
+      });
+
+      try {
+        if (input.subscription_contract_id === undefined) {
+          const result = await skipAcrossSubscriptions(
+            input.shopify_customer_id,
+            confirmed,
+            'skip_next_order',
+            requestId,
+            async contractId => {
+              if (!confirmed) {
+                // Preview: the order Appstle would skip is the earliest one not already skipped
+                const topOrders = await appstleClient.getTopOrders(contractId, requestId);
+                const next = toUpcomingOrders(topOrders).upcoming
+                  .filter(order => order.status !== 'SKIPPED')
+                  .sort((a, b) => new Date(a.billing_date).getTime() - new Date(b.billing_date).getTime())[0];
+                return next
+                  ? [{ order_id: next.order_id, billing_date: next.billing_date, result: 'WOULD_SKIP', status: next.status }]
+                  : [];
+              }
+
+              const skipped = await appstleClient.skipUpcomingOrderForContract(contractId, requestId);
+              return [{ order_id: skipped.id, billing_date: skipped.billingDate, result: 'SKIPPED', status: skipped.status }];
+            }
+          );
+
+          logger.info('Finished skipping next order for all subscriptions', {
+            requestId,
+            tool: 'skip_next_order',
+            customerId: result.shopify_customer_id,
+            subscriptionCount: result.subscriptions.length,
+            skippedCount: result.skipped_count,
+            failedCount: result.failed_count,
+            confirmed,
+          });
+
+          return result;
+        }
+
+        const appstle = await appstleClient.skipUpcomingOrderForContract(
+          input.subscription_contract_id,
+          requestId
+        );
+
+        logger.debug('Raw Appstle skip upcoming response', {
+          requestId,
+          responseKeys: Object.keys(appstle || {}),
+          responseStructure: JSON.stringify(appstle, null, 2),
+        });
+
+        const result = mapSkipResponse(appstle, true);
+
+        logger.info('Successfully skipped next order', {
+          requestId,
+          tool: 'skip_next_order',
+          contractId: input.subscription_contract_id,
+          orderId: result.order_id,
+          billingDate: result.billing_date,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error skipping next order', {
+            requestId,
+            tool: 'skip_next_order',
+            contractId: input.subscription_contract_id,
+            customerId,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error skipping next order', {
+          requestId,
+          tool: 'skip_next_order',
+          contractId: input.subscription_contract_id,
+          customerId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Restore a previously skipped order (implemented as unskipping a billing attempt in Appstle)
+  const unskipOrder = createTool(
+    UnskipOrderInputSchema,
+    UnskipOrderOutputSchema,
+    async (input, requestId) => {
+      logger.info('Unskipping order', {
+        requestId,
+        tool: 'unskip_order',
+        orderId: input.order_id,
+        contractId: input.subscription_contract_id,
+      });
+
+      try {
+        const appstle = await appstleClient.unskipBillingAttempt(
+          input.order_id,
+          input.subscription_contract_id,
+          requestId
+        );
+
+        logger.debug('Raw Appstle unskip response', {
+          requestId,
+          responseKeys: Object.keys(appstle || {}),
+          responseStructure: JSON.stringify(appstle, null, 2),
+        });
+
+        const result = mapSkipResponse(appstle, false);
+
+        logger.info('Successfully unskipped order', {
+          requestId,
+          tool: 'unskip_order',
+          orderId: result.order_id,
+          billingDate: result.billing_date,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error unskipping order', {
+            requestId,
+            tool: 'unskip_order',
+            orderId: input.order_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error unskipping order', {
+          requestId,
+          tool: 'unskip_order',
+          orderId: input.order_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Move a single upcoming order to a new billing date
+  const rescheduleOrder = createTool(
+    RescheduleOrderInputSchema,
+    RescheduleOrderOutputSchema,
+    async (input, requestId) => {
+      logger.info('Rescheduling order', {
+        requestId,
+        tool: 'reschedule_order',
+        orderId: input.order_id,
+        contractId: input.subscription_contract_id,
+        newBillingDate: input.new_billing_date,
+      });
+
+      try {
+        // Check the requested date against the current schedule before touching anything
+        const topOrders = await appstleClient.getTopOrders(input.subscription_contract_id, requestId);
+        const { upcoming } = toUpcomingOrders(topOrders);
+
+        let dates: { previous_billing_date: string; new_billing_date: string };
+        try {
+          dates = resolveRescheduleDate(upcoming, input.order_id, input.new_billing_date);
+        } catch (validationError) {
+          throw new AppstleError(
+            400,
+            'Invalid Reschedule Date',
+            validationError instanceof Error ? validationError.message : String(validationError),
+            requestId
+          );
+        }
+
+        const appstle = await appstleClient.updateBillingAttemptDate(
+          input.order_id,
+          dates.new_billing_date,
+          input.subscription_contract_id,
+          requestId
+        );
+
+        logger.debug('Raw Appstle reschedule response', {
+          requestId,
+          responseKeys: Object.keys(appstle || {}),
+          responseStructure: JSON.stringify(appstle, null, 2),
+        });
+
+        const result = mapRescheduleResponse(appstle, dates.previous_billing_date);
+
+        logger.info('Successfully rescheduled order', {
+          requestId,
+          tool: 'reschedule_order',
+          orderId: result.order_id,
+          previousBillingDate: result.previous_billing_date,
+          newBillingDate: result.new_billing_date,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error rescheduling order', {
+            requestId,
+            tool: 'reschedule_order',
+            orderId: input.order_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error rescheduling order', {
+          requestId,
+          tool: 'reschedule_order',
+          orderId: input.order_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Change how often a subscription is billed and delivered (billing and delivery policies move together)
+  const changeDeliveryFrequency = createTool(
+    ChangeDeliveryFrequencyInputSchema,
+    ChangeDeliveryFrequencyOutputSchema,
+    async (input, requestId) => {
+      logger.info('Changing delivery frequency', {
+        requestId,
+        tool: 'change_delivery_frequency',
+        contractId: input.subscription_contract_id,
+        interval: input.interval,
+        intervalCount: input.interval_count,
+      });
+
+      try {
+        if (!isAllowedDeliveryInterval(config, input.interval, input.interval_count)) {
+          const allowed = config.allowedDeliveryIntervals
+            .map(option => buildPlanName(option))
+            .join(', ');
+          throw new AppstleError(
+            400,
+            'Unsupported Delivery Frequency',
+            `Every ${buildPlanName({ interval: input.interval, intervalCount: input.interval_count })} is not available. Allowed frequencies: ${allowed}`,
+            requestId
+          );
+        }
+
+        // The current billing policy is needed to undo the billing change if the delivery change fails
+        const contract = await appstleClient.getSubscriptionContract(input.subscription_contract_id, requestId);
+        const previousBilling = contract.billingPolicy;
+
+        await appstleClient.updateBillingInterval(
+          input.subscription_contract_id,
+          input.interval,
+          input.interval_count,
+          requestId
+        );
+
+        let appstle: Awaited<ReturnType<AppstleClient['updateDeliveryInterval']>>;
+        try {
+          appstle = await appstleClient.updateDeliveryInterval(
+            input.subscription_contract_id,
+            input.interval,
+            input.interval_count,
+            requestId
+          );
+        } catch (deliveryError) {
+          // Billing already moved; put it back so billing and delivery never run on different schedules
+          logger.warn('Delivery interval update failed - rolling back billing interval', {
+            requestId,
+            tool: 'change_delivery_frequency',
+            contractId: input.subscription_contract_id,
+            error: describeBatchError(deliveryError),
+          });
+
+          let rollbackError: unknown = previousBilling ? undefined : new Error('previous billing policy unknown');
+          if (previousBilling) {
+            try {
+              await appstleClient.updateBillingInterval(
+                input.subscription_contract_id,
+                previousBilling.interval,
+                previousBilling.intervalCount,
+                requestId
+              );
+            } catch (error) {
+              rollbackError = error;
+            }
+          }
+
+          if (rollbackError) {
+            throw new AppstleError(
+              502,
+              'Frequency Change Incomplete',
+              `Billing was changed to every ${buildPlanName({ interval: input.interval, intervalCount: input.interval_count })} but the delivery schedule could not be changed (${describeBatchError(deliveryError)}), and restoring the billing schedule failed (${describeBatchError(rollbackError)}). Do not tell the customer the change was made; hand off to a human agent.`,
+              requestId
+            );
+          }
+
+          throw new AppstleError(
+            deliveryError instanceof AppstleError ? deliveryError.statusCode : 500,
+            'Frequency Not Changed',
+            `The delivery schedule could not be changed (${describeBatchError(deliveryError)}). The billing schedule was restored, so the subscription is unchanged.`,
+            requestId
+          );
+        }
+
+        logger.debug('Raw Appstle delivery interval response', {
+          requestId,
+          responseKeys: Object.keys(appstle || {}),
+          responseStructure: JSON.stringify(appstle, null, 2),
+        });
+
+        const result = mapFrequencyChangeResponse(appstle, {
+          interval: input.interval,
+          intervalCount: input.interval_count,
+        });
+
+        logger.info('Successfully changed delivery frequency', {
+          requestId,
+          tool: 'change_delivery_frequency',
+          contractId: result.subscription_contract_id,
+          planName: result.plan_name,
+          nextBillingDate: result.next_billing_date,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error changing delivery frequency', {
+            requestId,
+            tool: 'change_delivery_frequency',
+            contractId: input.subscription_contract_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error changing delivery frequency', {
+          requestId,
+          tool: 'change_delivery_frequency',
+          contractId: input.subscription_contract_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Pause all deliveries on a contract until it is resumed
+  const pauseSubscription = createTool(
+    PauseSubscriptionInputSchema,
+    SubscriptionStatusChangeOutputSchema,
+    async (input, requestId) => {
+      logger.info('Pausing subscription', {
+        requestId,
+        tool: 'pause_subscription',
+        contractId: input.subscription_contract_id,
+      });
+
+      try {
+        const contract = await appstleClient.getSubscriptionContract(input.subscription_contract_id, requestId);
+        if (contract.status !== 'ACTIVE') {
+          throw new AppstleError(
+            409,
+            'Subscription Not Active',
+            `Subscription ${input.subscription_contract_id} is ${contract.status}. Only ACTIVE subscriptions can be paused.`,
+            requestId
+          );
+        }
+
+        const appstle = await appstleClient.updateContractStatus(
+          input.subscription_contract_id,
+          'PAUSED',
+          requestId
+        );
+
+        logger.debug('Raw Appstle pause response', {
+          requestId,
+          responseKeys: Object.keys(appstle || {}),
+          responseStructure: JSON.stringify(appstle, null, 2),
+        });
+
+        const result = mapStatusChangeResponse(appstle, contract.status);
+
+        logger.info('Successfully paused subscription', {
+          requestId,
+          tool: 'pause_subscription',
+          contractId: result.subscription_contract_id,
+          status: result.status,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error pausing subscription', {
+            requestId,
+            tool: 'pause_subscription',
+            contractId: input.subscription_contract_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error pausing subscription', {
+          requestId,
+          tool: 'pause_subscription',
+          contractId: input.subscription_contract_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Reactivate a paused contract, optionally restarting deliveries from a chosen date
+  const resumeSubscription = createTool(
+    ResumeSubscriptionInputSchema,
+    SubscriptionStatusChangeOutputSchema,
+    async (input, requestId) => {
+      logger.info('Resuming subscription', {
+        requestId,
+        tool: 'resume_subscription',
+        contractId: input.subscription_contract_id,
+        resumeDate: input.resume_date,
+      });
+
+      try {
+        // Only a paused contract is resumed - this must never reactivate a cancelled or expired one
+        const contract = await appstleClient.getSubscriptionContract(input.subscription_contract_id, requestId);
+        if (contract.status !== 'PAUSED') {
+          throw new AppstleError(
+            409,
+            'Subscription Not Paused',
+            `Subscription ${input.subscription_contract_id} is ${contract.status}. Only PAUSED subscriptions can be resumed.`,
+            requestId
+          );
+        }
+
+        // A date-only resume_date is a day in the store's timezone, billed at the contract's usual local time
+        const nextBillingDate = input.resume_date
+          ? toBillingDateTime(input.resume_date, contract.nextBillingDate || new Date().toISOString())
+          : contract.nextBillingDate;
+
+        // Activating a contract whose next billing date has passed would bill it straight away
+        if (input.resume_date && Date.parse(nextBillingDate) <= Date.now()) {
+          throw new AppstleError(
+            400,
+            'Invalid Resume Date',
+            `resume_date ${input.resume_date} would bill at ${nextBillingDate}, which has already passed. Ask the customer for a later date.`,
+            requestId
+          );
+        }
+        if (!input.resume_date && nextBillingDate && Date.parse(nextBillingDate) <= Date.now()) {
+          throw new AppstleError(
+            409,
+            'Resume Date Required',
+            `Subscription ${input.subscription_contract_id} was due to bill on ${nextBillingDate}, which has passed, so resuming now would bill immediately. Ask the customer when deliveries should restart and pass resume_date.`,
+            requestId
+          );
+        }
+
+        // Move the date while the contract is still paused, so it is never active with the old date.
+        // If this fails nothing has changed and the error is thrown as-is
+        if (input.resume_date) {
+          await appstleClient.updateNextBillingDate(input.subscription_contract_id, nextBillingDate, requestId);
+        }
+
+        const appstle = await appstleClient.updateContractStatus(
+          input.subscription_contract_id,
+          'ACTIVE',
+          requestId
+        );
+
+        logger.debug('Raw Appstle resume response', {
+          requestId,
+          responseKeys: Object.keys(appstle || {}),
+          responseStructure: JSON.stringify(appstle, null, 2),
+        });
+
+        const result = mapStatusChangeResponse(appstle, contract.status);
+
+        logger.info('Successfully resumed subscription', {
+          requestId,
+          tool: 'resume_subscription',
+          contractId: result.subscription_contract_id,
+          status: result.status,
+          nextBillingDate: result.next_billing_date,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error resuming subscription', {
+            requestId,
+            tool: 'resume_subscription',
+            contractId: input.subscription_contract_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error resuming subscription', {
+          requestId,
+          tool: 'resume_subscription',
+          contractId: input.subscription_contract_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Guided cancellation: offer alternatives, ask for confirmation, and only then cancel.
+  // Every call without confirm_cancellation is read-only and returns the next step of the flow.
+  const cancelSubscription = createTool(
+    CancelSubscriptionInputSchema,
+    CancelSubscriptionOutputSchema,
+    async (input, requestId) => {
+      logger.info('Cancellation requested', {
+        requestId,
+        tool: 'cancel_subscription',
+        contractId: input.subscription_contract_id,
+        reason: input.cancellation_reason,
+        alternativesDeclined: input.alternatives_declined,
+        confirmed: input.confirm_cancellation,
+      });
+
+      try {
+        const offers = buildRetentionOffers(
+          input.cancellation_reason,
+          config.retentionOffers,
+          config.retentionDiscountDescription,
+          config.retentionDiscountCode
+        );
+        // Alternatives must be offered before anything is cancelled, even if confirmation arrives first
+        const offersPending = offers.length > 0 && input.alternatives_declined !== true;
+
+        if (!input.confirm_cancellation || offersPending) {
+          if (input.confirm_cancellation) {
+            logger.info('Cancellation confirmed before alternatives were offered - offering them first', {
+              requestId,
+              tool: 'cancel_subscription',
+              contractId: input.subscription_contract_id,
+            });
+          }
+          return buildCancellationStep(
+            input.subscription_contract_id,
+            input.cancellation_reason,
+            offers,
+            input.alternatives_declined === true
+          );
+        }
+
+        const appstle = await appstleClient.cancelSubscription(
+          input.subscription_contract_id,
+          CANCELLATION_REASON_LABELS[input.cancellation_reason],
+          input.cancellation_note,
+          requestId
+        );
+
+        logger.debug('Raw Appstle cancellation response', {
+          requestId,
+          responseKeys: Object.keys(appstle || {}),
+        });
+
+        const result = mapCancellationResponse(
+          appstle || {},
+          input.subscription_contract_id,
+          input.cancellation_reason
+        );
+
+        logger.info('Successfully cancelled subscription', {
+          requestId,
+          tool: 'cancel_subscription',
+          contractId: result.subscription_contract_id,
+          reason: result.cancellation_reason,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error cancelling subscription', {
+            requestId,
+            tool: 'cancel_subscription',
+            contractId: input.subscription_contract_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error cancelling subscription', {
+          requestId,
+          tool: 'cancel_subscription',
+          contractId: input.subscription_contract_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Change the quantity of one line on a contract
+  const updateLineQuantity = createTool(
+    UpdateLineQuantityInputSchema,
+    LineItemsUpdateOutputSchema,
+    async (input, requestId) => {
+      logger.info('Updating line quantity', {
+        requestId,
+        tool: 'update_line_quantity',
+        contractId: input.subscription_contract_id,
+        lineId: input.line_id,
+        quantity: input.quantity,
+      });
+
+      try {
+        const appstle = await appstleClient.updateLineItemQuantity(
+          input.subscription_contract_id,
+          input.line_id,
+          input.quantity,
+          requestId
+        );
+
+        logger.debug('Raw Appstle line item response', {
+          requestId,
+          responseKeys: Object.keys(appstle || {}),
+          responseStructure: JSON.stringify(appstle, null, 2),
+        });
+
+        const result = mapLineItemsResponse(appstle, `Quantity updated to ${input.quantity}`);
+
+        logger.info('Successfully updated line quantity', {
+          requestId,
+          tool: 'update_line_quantity',
+          contractId: result.subscription_contract_id,
+          lineCount: result.lines.length,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error updating line quantity', {
+            requestId,
+            tool: 'update_line_quantity',
+            contractId: input.subscription_contract_id,
+            lineId: input.line_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error updating line quantity', {
+          requestId,
+          tool: 'update_line_quantity',
+          contractId: input.subscription_contract_id,
+          lineId: input.line_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Swap one line to a different variant of the product (e.g. another flavor or bag size)
+  const swapLineVariant = createTool(
+    SwapLineVariantInputSchema,
+    LineItemsUpdateOutputSchema,
+    async (input, requestId) => {
+      logger.info('Swapping line variant', {
+        requestId,
+        tool: 'swap_line_variant',
+        contractId: input.subscription_contract_id,
+        lineId: input.line_id,
+        newVariantId: input.new_variant_id,
+      });
+
+      try {
+        const variantId = typeof input.new_variant_id === 'number'
+          ? `gid://shopify/ProductVariant/${input.new_variant_id}`
+          : input.new_variant_id;
+
+        const appstle = await appstleClient.updateLineItemVariant(
+          input.subscription_contract_id,
+          input.line_id,
+          variantId,
+          requestId
+        );
+
+        logger.debug('Raw Appstle line item response', {
+          requestId,
+          responseKeys: Object.keys(appstle || {}),
+          responseStructure: JSON.stringify(appstle, null, 2),
+        });
+
+        const result = mapLineItemsResponse(appstle, 'Item swapped');
+
+        logger.info('Successfully swapped line variant', {
+          requestId,
+          tool: 'swap_line_variant',
+          contractId: result.subscription_contract_id,
+          lineCount: result.lines.length,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error swapping line variant', {
+            requestId,
+            tool: 'swap_line_variant',
+            contractId: input.subscription_contract_id,
+            lineId: input.line_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error swapping line variant', {
+          requestId,
+          tool: 'swap_line_variant',
+          contractId: input.subscription_contract_id,
+          lineId: input.line_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Remove one line from a contract
+  const removeLineItem = createTool(
+    RemoveLineItemInputSchema,
+    LineItemsUpdateOutputSchema,
+    async (input, requestId) => {
+      logger.info('Removing line item', {
+        requestId,
+        tool: 'remove_line_item',
+        contractId: input.subscription_contract_id,
+        lineId: input.line_id,
+      });
+
+      try {
+        const appstle = await appstleClient.removeLineItem(
+          input.subscription_contract_id,
+          input.line_id,
+          requestId
+        );
+
+        logger.debug('Raw Appstle line item response', {
+          requestId,
+          responseKeys: Object.keys(appstle || {}),
+          responseStructure: JSON.stringify(appstle, null, 2),
+        });
+
+        const result = mapLineItemsResponse(appstle, 'Item removed');
+
+        logger.info('Successfully removed line item', {
+          requestId,
+          tool: 'remove_line_item',
+          contractId: result.subscription_contract_id,
+          lineCount: result.lines.length,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error removing line item', {
+            requestId,
+            tool: 'remove_line_item',
+            contractId: input.subscription_contract_id,
+            lineId: input.line_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error removing line item', {
+          requestId,
+          tool: 'remove_line_item',
+          contractId: input.subscription_contract_id,
+          lineId: input.line_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Add a one-time product to a single upcoming order without changing the recurring subscription
+  const addOneTimeItem = createTool(
+    AddOneTimeItemInputSchema,
+    AddOneTimeItemOutputSchema,
+    async (input, requestId) => {
+      logger.info('Adding one-time item', {
+        requestId,
+        tool: 'add_one_time_item',
+        contractId: input.subscription_contract_id,
+        orderId: input.order_id,
+        variantId: input.variant_id,
+        quantity: input.quantity,
+      });
+
+      try {
+        const topOrders = await appstleClient.getTopOrders(input.subscription_contract_id, requestId);
+        const order = toUpcomingOrders(topOrders).upcoming.find(upcoming => upcoming.order_id === input.order_id);
+
+        if (!order) {
+          throw new AppstleError(
+            400,
+            'Order Not Found',
+            `Order ${input.order_id} is not one of the upcoming orders for this subscription. Call list_upcoming_orders for fresh order IDs.`,
+            requestId
+          );
+        }
+
+        if (order.status === 'SKIPPED') {
+          throw new AppstleError(
+            400,
+            'Order Skipped',
+            'This delivery is skipped, so nothing can be added to it. Restore it with unskip_order first or choose another delivery.',
+            requestId
+          );
+        }
+
+        const variantId = typeof input.variant_id === 'number'
+          ? input.variant_id
+          : parseGidTail(input.variant_id);
+
+        let appstle: Awaited<ReturnType<AppstleClient['addOneOff']>>;
+        try {
+          appstle = await appstleClient.addOneOff(
+            input.subscription_contract_id,
+            input.order_id,
+            variantId,
+            input.quantity ?? 1,
+            requestId
+          );
+        } catch (addError) {
+          // A 5xx or network error may arrive after Appstle attached the item; adding it again would charge twice
+          if (!(addError instanceof AppstleError && addError.statusCode >= 500)) {
+            throw addError;
+          }
+
+          logger.warn('One-time item outcome unknown - checking the order', {
+            requestId,
+            tool: 'add_one_time_item',
+            contractId: input.subscription_contract_id,
+            orderId: input.order_id,
+            statusCode: addError.statusCode,
+            title: addError.title,
+          });
+
+          let current: Awaited<ReturnType<AppstleClient['getOneOffs']>>;
+          try {
+            current = await appstleClient.getOneOffs(input.subscription_contract_id, requestId);
+          } catch {
+            return mapOneOffOutcomeUnknown(order, input.subscription_contract_id);
+          }
+
+          if (!current.some(oneOff => oneOff.billingAttemptId === input.order_id && oneOff.variantId === variantId)) {
+            throw addError;
+          }
+          appstle = current;
+        }
+
+        logger.debug('Raw Appstle one-off response', {
+          requestId,
+          responseStructure: JSON.stringify(appstle, null, 2),
+        });
+
+        const result = mapOneOffResponse(appstle, order, input.subscription_contract_id);
+
+        logger.info('Successfully added one-time item', {
+          requestId,
+          tool: 'add_one_time_item',
+          contractId: input.subscription_contract_id,
+          orderId: result.order_id,
+          oneTimeItemCount: result.one_time_items.length,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error adding one-time item', {
+            requestId,
+            tool: 'add_one_time_item',
+            contractId: input.subscription_contract_id,
+            orderId: input.order_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error adding one-time item', {
+          requestId,
+          tool: 'add_one_time_item',
+          contractId: input.subscription_contract_id,
+          orderId: input.order_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Update the Protein Substitution and Allergies attributes on every line of a subscription
+  const updateSubscriptionPreferences = createTool(
+    UpdateSubscriptionPreferencesInputSchema,
+    UpdateSubscriptionPreferencesOutputSchema,
+    async (input, requestId) => {
+      logger.info('Updating subscription preferences', {
+        requestId,
+        tool: 'update_subscription_preferences',
+        contractId: input.subscription_contract_id,
+        proteinSubstitution: input.protein_substitution,
+        allergies: input.allergies,
+      });
+
+      try {
+        let proteinSubstitution: string | null | undefined;
+        if (input.protein_substitution !== undefined && input.protein_substitution !== null) {
+          proteinSubstitution = findAllowedOption(config.proteinSubstitutionOptions, input.protein_substitution);
+          if (!proteinSubstitution) {
+            throw new AppstleError(
+              400,
+              'Unsupported Protein Substitution',
+              `"${input.protein_substitution}" is not an available protein substitution. Allowed values: ${config.proteinSubstitutionOptions.join(', ')}`,
+              requestId
+            );
+          }
+        } else {
+          proteinSubstitution = input.protein_substitution;
+        }
+
+        let allergies: string | null | undefined;
+        const requestedAllergies = input.allergies;
+        if (requestedAllergies !== undefined) {
+          const unknown = requestedAllergies.filter(allergy => !findAllowedOption(config.allergyOptions, allergy));
+          if (unknown.length > 0) {
+            throw new AppstleError(
+              400,
+              'Unsupported Allergy',
+              `${unknown.map(allergy => `"${allergy}"`).join(', ')} ${unknown.length === 1 ? 'is' : 'are'} not in the allergy list. Allowed values: ${config.allergyOptions.join(', ')}`,
+              requestId
+            );
+          }
+          // Store allergies in the configured order so the same selection always produces the same value
+          const selected = config.allergyOptions.filter(option =>
+            requestedAllergies.some(allergy => findAllowedOption([option], allergy))
+          );
+          allergies = selected.length > 0 ? selected.join(', ') : null;
+        }
+
+        const update = { proteinSubstitution, allergies };
+        const contract = await appstleClient.getSubscriptionContract(input.subscription_contract_id, requestId);
+        const lines = (contract.lines?.edges.map(edge => edge.node) || [])
+          .filter((line): line is typeof line & { id: string } => Boolean(line.id));
+
+        if (lines.length === 0) {
+          throw new AppstleError(
+            400,
+            'No Subscription Items',
+            'This subscription has no items to store preferences on.',
+            requestId
+          );
+        }
+
+        // Every line is attempted even after a failure, and each outcome is kept, so the response says
+        // exactly which items hold the new allergy data instead of leaving a mix nobody knows about
+        const lineResults: PreferenceLineResult[] = [];
+        for (const line of lines) {
+          const title = [line.productTitle, line.variantTitle].filter(Boolean).join(' - ') || undefined;
+          try {
+            await appstleClient.updateLineItemAttributes(
+              input.subscription_contract_id,
+              line.id,
+              applyPreferenceAttributes(line.customAttributes, update),
+              requestId
+            );
+            lineResults.push({ line_id: line.id, title, result: 'UPDATED' });
+          } catch (lineError) {
+            const errorText = describeBatchError(lineError);
+            logger.warn('Failed to update preferences on line', {
+              requestId,
+              tool: 'update_subscription_preferences',
+              contractId: input.subscription_contract_id,
+              lineId: line.id,
+              error: errorText,
+            });
+            lineResults.push({ line_id: line.id, title, result: 'FAILED', error: errorText });
+          }
+        }
+
+        // Re-read the contract so the customer is told what was actually stored, not what we sent
+        const stored = await appstleClient.getSubscriptionContract(input.subscription_contract_id, requestId);
+
+        logger.debug('Raw Appstle contract after preference update', {
+          requestId,
+          responseKeys: Object.keys(stored || {}),
+          responseStructure: JSON.stringify(stored, null, 2),
+        });
+
+        let result;
+        try {
+          result = mapPreferencesResponse(stored, update, lineResults);
+        } catch (verificationError) {
+          const written = lineResults.filter(entry => entry.result === 'UPDATED').map(entry => entry.line_id);
+          throw new AppstleError(
+            502,
+            'Preference Update Not Confirmed',
+            `${verificationError instanceof Error ? verificationError.message : String(verificationError)}. Lines written: ${written.join(', ') || 'none'}. Do not tell the customer the change was saved; hand off to a human agent.`,
+            requestId
+          );
+        }
+
+        logger.info('Successfully updated subscription preferences', {
+          requestId,
+          tool: 'update_subscription_preferences',
+          contractId: result.subscription_contract_id,
+          linesUpdated: result.lines_updated,
+          linesFailed: result.lines_failed,
+          proteinSubstitution: result.protein_substitution,
+          allergies: result.allergies,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error updating subscription preferences', {
+            requestId,
+            tool: 'update_subscription_preferences',
+            contractId: input.subscription_contract_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error updating subscription preferences', {
+          requestId,
+          tool: 'update_subscription_preferences',
+          contractId: input.subscription_contract_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Read the address a subscription ships to. Address fields are masked by the logger and the output (which
+  // quotes the address in ask_customer) is not logged, so only IDs are logged here
+  const getShippingAddress = createTool(
+    GetShippingAddressInputSchema,
+    GetShippingAddressOutputSchema,
+    async (input, requestId) => {
+      logger.info('Getting shipping address', {
+        requestId,
+        tool: 'get_shipping_address',
+        contractId: input.subscription_contract_id,
+      });
+
+      try {
+        const contract = await appstleClient.getSubscriptionContract(input.subscription_contract_id, requestId);
+
+        logger.debug('Raw Appstle contract response', {
+          requestId,
+          responseKeys: Object.keys(contract || {}),
+          responseStructure: JSON.stringify(contract, null, 2),
+        });
+
+        const result = mapShippingAddress(contract);
+
+        logger.info('Successfully retrieved shipping address', {
+          requestId,
+          tool: 'get_shipping_address',
+          contractId: result.subscription_contract_id,
+          hasAddress: result.shipping_address !== null,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error getting shipping address', {
+            requestId,
+            tool: 'get_shipping_address',
+            contractId: input.subscription_contract_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error getting shipping address', {
+          requestId,
+          tool: 'get_shipping_address',
+          contractId: input.subscription_contract_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    },
+    { logOutput: false }
+  );
+
+  // Change the shipping address on a subscription, showing the old and new address before anything is written
+  const updateShippingAddress = createTool(
+    UpdateShippingAddressInputSchema,
+    UpdateShippingAddressOutputSchema,
+    async (input, requestId) => {
+      logger.info('Shipping address change requested', {
+        requestId,
+        tool: 'update_shipping_address',
+        contractId: input.subscription_contract_id,
+        confirmed: input.confirm_update,
+      });
+
+      try {
+        const contract = await appstleClient.getSubscriptionContract(input.subscription_contract_id, requestId);
+        const previous = toShippingAddress(contract.deliveryMethod?.address);
+
+        if (!input.confirm_update) {
+          return buildAddressChangeStep(input.subscription_contract_id, previous, input.shipping_address);
+        }
+
+        const appstle = await appstleClient.updateShippingAddress(
+          input.subscription_contract_id,
+          toAppstleMailingAddress(input.shipping_address),
+          requestId
+        );
+
+        logger.debug('Raw Appstle shipping address response', {
+          requestId,
+          responseKeys: Object.keys(appstle || {}),
+          responseStructure: JSON.stringify(appstle, null, 2),
+        });
+
+        const result = mapShippingAddressUpdateResponse(appstle, previous, input.shipping_address);
+
+        logger.info('Successfully updated shipping address', {
+          requestId,
+          tool: 'update_shipping_address',
+          contractId: result.subscription_contract_id,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error updating shipping address', {
+            requestId,
+            tool: 'update_shipping_address',
+            contractId: input.subscription_contract_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error updating shipping address', {
+          requestId,
+          tool: 'update_shipping_address',
+          contractId: input.subscription_contract_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    },
+    { logOutput: false }
+  );
+
+  // Apply a discount code to every future order of a subscription
+  const applyDiscountCode = createTool(
+    ApplyDiscountCodeInputSchema,
+    DiscountUpdateOutputSchema,
+    async (input, requestId) => {
+      logger.info('Applying discount code', {
+        requestId,
+        tool: 'apply_discount_code',
+        contractId: input.subscription_contract_id,
+        discountCode: input.discount_code,
+      });
+
+      try {
+        const appstle = await appstleClient.applyDiscountCode(
+          input.subscription_contract_id,
+          input.discount_code,
+          requestId
+        );
+
+        logger.debug('Raw Appstle discount response', {
+          requestId,
+          responseKeys: Object.keys(appstle || {}),
+          responseStructure: JSON.stringify(appstle, null, 2),
+        });
+
+        const result = mapDiscountResponse(appstle, `Discount code ${input.discount_code} applied`);
+
+        logger.info('Successfully applied discount code', {
+          requestId,
+          tool: 'apply_discount_code',
+          contractId: result.subscription_contract_id,
+          discountCount: result.discounts.length,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error applying discount code', {
+            requestId,
+            tool: 'apply_discount_code',
+            contractId: input.subscription_contract_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error applying discount code', {
+          requestId,
+          tool: 'apply_discount_code',
+          contractId: input.subscription_contract_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Remove a discount from a subscription, by ID or by the code the customer knows
+  const removeDiscount = createTool(
+    RemoveDiscountInputSchema,
+    DiscountUpdateOutputSchema,
+    async (input, requestId) => {
+      logger.info('Removing discount', {
+        requestId,
+        tool: 'remove_discount',
+        contractId: input.subscription_contract_id,
+        discountId: input.discount_id,
+        discountCode: input.discount_code,
+      });
+
+      try {
+        let discountId = input.discount_id;
+        if (!discountId) {
+          const contract = await appstleClient.getSubscriptionContract(input.subscription_contract_id, requestId);
+          const applied = mapDiscounts(contract.discounts);
+          const wanted = input.discount_code?.toLowerCase();
+          discountId = applied.find(discount => discount.title.toLowerCase() === wanted)?.discount_id;
+
+          if (!discountId) {
+            throw new AppstleError(
+              400,
+              'Discount Not Applied',
+              applied.length > 0
+                ? `"${input.discount_code}" is not applied to this subscription. Applied discounts: ${applied.map(discount => discount.title).join(', ')}`
+                : 'This subscription has no discounts applied.',
+              requestId
+            );
+          }
+        }
+
+        const appstle = await appstleClient.removeDiscount(
+          input.subscription_contract_id,
+          discountId,
+          requestId
+        );
+
+        logger.debug('Raw Appstle discount response', {
+          requestId,
+          responseKeys: Object.keys(appstle || {}),
+          responseStructure: JSON.stringify(appstle, null, 2),
+        });
+
+        const result = mapDiscountResponse(appstle, 'Discount removed');
+
+        logger.info('Successfully removed discount', {
+          requestId,
+          tool: 'remove_discount',
+          contractId: result.subscription_contract_id,
+          discountCount: result.discounts.length,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error removing discount', {
+            requestId,
+            tool: 'remove_discount',
+            contractId: input.subscription_contract_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error removing discount', {
+          requestId,
+          tool: 'remove_discount',
+          contractId: input.subscription_contract_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Full view of one contract: every line with prices, policies, address, payment method and attributes
+  const getSubscriptionDetails = createTool(
+    GetSubscriptionDetailsInputSchema,
+    GetSubscriptionDetailsOutputSchema,
+    async (input, requestId) => {
+      logger.info('Getting subscription details', {
+        requestId,
+        tool: 'get_subscription_details',
+        contractId: input.subscription_contract_id,
+      });
+
+      try {
+        const contract = await appstleClient.getSubscriptionContract(input.subscription_contract_id, requestId);
+
+        logger.debug('Raw Appstle contract response', {
+          requestId,
+          responseKeys: Object.keys(contract || {}),
+          responseStructure: JSON.stringify(contract, null, 2),
+        });
+
+        const result = toSubscriptionDetails(contract);
+
+        logger.info('Successfully retrieved subscription details', {
+          requestId,
+          tool: 'get_subscription_details',
+          contractId: result.subscription_contract_id,
+          status: result.status,
+          lineCount: result.lines.length,
+          paymentMethodStatus: result.payment_method.status,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error getting subscription details', {
+            requestId,
+            tool: 'get_subscription_details',
+            contractId: input.subscription_contract_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error getting subscription details', {
+          requestId,
+          tool: 'get_subscription_details',
+          contractId: input.subscription_contract_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Failed billing attempts with their gateway error, so the model can explain why an order didn't ship
+  const listFailedPayments = createTool(
+    ListFailedPaymentsInputSchema,
+    ListFailedPaymentsOutputSchema,
+    async (input, requestId) => {
+      logger.info('Listing failed payments', {
+        requestId,
+        tool: 'list_failed_payments',
+        contractId: input.subscription_contract_id,
+      });
+
+      try {
+        const appstle = await appstleClient.getPastOrders(
+          input.subscription_contract_id,
+          0,
+          FAILED_PAYMENT_SCAN_SIZE,
+          ['id,desc'],
+          requestId
+        );
+
+        const result = toFailedPayments(appstle, input.subscription_contract_id);
+
+        logger.info('Successfully listed failed payments', {
+          requestId,
+          tool: 'list_failed_payments',
+          contractId: input.subscription_contract_id,
+          failedCount: result.failed_payments.length,
+          paymentMethodUpdateNeeded: result.payment_method_update_needed,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error listing failed payments', {
+            requestId,
+            tool: 'list_failed_payments',
+            contractId: input.subscription_contract_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error listing failed payments', {
+          requestId,
+          tool: 'list_failed_payments',
+          contractId: input.subscription_contract_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Charge a failed billing attempt again (e.g. after a temporary gateway error or once funds are available)
+  const retryBillingAttempt = createTool(
+    RetryBillingAttemptInputSchema,
+    RetryBillingAttemptOutputSchema,
+    async (input, requestId) => {
+      logger.info('Retrying billing attempt', {
+        requestId,
+        tool: 'retry_billing_attempt',
+        contractId: input.subscription_contract_id,
+        orderId: input.order_id,
+      });
+
+      try {
+        const pastOrders = await appstleClient.getPastOrders(
+          input.subscription_contract_id,
+          0,
+          FAILED_PAYMENT_SCAN_SIZE,
+          ['id,desc'],
+          requestId
+        );
+        const failed = toFailedPayments(pastOrders, input.subscription_contract_id).failed_payments
+          .find(payment => payment.order_id === input.order_id);
+
+        if (!failed) {
+          throw new AppstleError(
+            400,
+            'Order Not Failed',
+            `Order ${input.order_id} is not a failed payment on this subscription. Call list_failed_payments for current failed orders.`,
+            requestId
+          );
+        }
+
+        let appstle: Awaited<ReturnType<AppstleClient['retryBillingAttempt']>>;
+        try {
+          appstle = await appstleClient.retryBillingAttempt(input.order_id, requestId);
+        } catch (chargeError) {
+          // A 5xx or network error may arrive after Appstle took the payment; charging again could bill twice
+          if (chargeError instanceof AppstleError && chargeError.statusCode >= 500) {
+            logger.warn('Billing retry outcome unknown', {
+              requestId,
+              tool: 'retry_billing_attempt',
+              contractId: input.subscription_contract_id,
+              orderId: input.order_id,
+              statusCode: chargeError.statusCode,
+              title: chargeError.title,
+            });
+            return mapRetryBillingOutcomeUnknown(input.order_id, failed.billing_date);
+          }
+          throw chargeError;
+        }
+
+        logger.debug('Raw Appstle retry billing response', {
+          requestId,
+          responseKeys: Object.keys(appstle || {}),
+          responseStructure: JSON.stringify(appstle, null, 2),
+        });
+
+        const result = mapRetryBillingResponse(appstle);
+
+        logger.info('Billing attempt retried', {
+          requestId,
+          tool: 'retry_billing_attempt',
+          contractId: input.subscription_contract_id,
+          orderId: result.order_id,
+          status: result.status,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error retrying billing attempt', {
+            requestId,
+            tool: 'retry_billing_attempt',
+            contractId: input.subscription_contract_id,
+            orderId: input.order_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error retrying billing attempt', {
+          requestId,
+          tool: 'retry_billing_attempt',
+          contractId: input.subscription_contract_id,
+          orderId: input.order_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // When each contract last had a payment update email from this instance. It only catches repeats that reach
+  // the same instance; across instances the cooldown relies on the caller passing last_sent_at back.
+  const paymentEmailSentAt = new Map<number, Date>();
+
+  // The later of this instance's record and the caller's last_sent_at; a time in the future is not trusted
+  const latestSendTime = (recorded: Date | undefined, reported: string | undefined): Date | undefined => {
+    const reportedAt = reported ? new Date(reported) : undefined;
+    if (!reportedAt || reportedAt.getTime() > Date.now()) {
+      return recorded;
+    }
+    return recorded && recorded.getTime() >= reportedAt.getTime() ? recorded : reportedAt;
+  };
+
+  // Send Appstle's payment method update email, at most once per contract per cooldown
+  const sendPaymentUpdateEmail = createTool(
+    SendPaymentUpdateEmailInputSchema,
+    SendPaymentUpdateEmailOutputSchema,
+    async (input, requestId) => {
+      logger.info('Payment update email requested', {
+        requestId,
+        tool: 'send_payment_update_email',
+        contractId: input.subscription_contract_id,
+      });
+
+      try {
+        const lastSentAt = latestSendTime(paymentEmailSentAt.get(input.subscription_contract_id), input.last_sent_at);
+        const cooldownMs = config.paymentEmailCooldownMinutes * 60 * 1000;
+        if (lastSentAt && Date.now() - lastSentAt.getTime() < cooldownMs) {
+          logger.info('Payment update email skipped - cooldown active', {
+            requestId,
+            tool: 'send_payment_update_email',
+            contractId: input.subscription_contract_id,
+            lastSentAt: lastSentAt.toISOString(),
+          });
+
+          return mapPaymentEmailResponse(
+            input.subscription_contract_id,
+            lastSentAt,
+            config.paymentEmailCooldownMinutes,
+            false
+          );
+        }
+
+        // Claim the cooldown before sending, so concurrent calls for the same contract cannot both send
+        const sentAt = new Date();
+        paymentEmailSentAt.set(input.subscription_contract_id, sentAt);
+
+        try {
+          await appstleClient.sendPaymentMethodUpdateEmail(input.subscription_contract_id, requestId);
+        } catch (sendError) {
+          // Release the claim only when Appstle definitely rejected the request; after a timeout or
+          // server error the email may have gone out, so the cooldown stays
+          const rejected = sendError instanceof AppstleError && sendError.statusCode < 500;
+          if (rejected && paymentEmailSentAt.get(input.subscription_contract_id) === sentAt) {
+            paymentEmailSentAt.delete(input.subscription_contract_id);
+          }
+          throw sendError;
+        }
+
+        logger.info('Successfully sent payment update email', {
+          requestId,
+          tool: 'send_payment_update_email',
+          contractId: input.subscription_contract_id,
+        });
+
+        return mapPaymentEmailResponse(
+          input.subscription_contract_id,
+          sentAt,
+          config.paymentEmailCooldownMinutes,
+          true
+        );
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error sending payment update email', {
+            requestId,
+            tool: 'send_payment_update_email',
+            contractId: input.subscription_contract_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error sending payment update email', {
+          requestId,
+          tool: 'send_payment_update_email',
+          contractId: input.subscription_contract_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Turn whatever identifier Fin has (numeric ID, customer GID or email) into the numeric Shopify customer ID
+  const resolveCustomer = createTool(
+    ResolveCustomerInputSchema,
+    ResolveCustomerOutputSchema,
+    async (input, requestId) => {
+      let identifier;
+      try {
+        identifier = normalizeCustomerIdentifier(input.customer_identifier);
+      } catch (validationError) {
+        throw new AppstleError(
+          400,
+          'Invalid Customer Identifier',
+          `${validationError instanceof Error ? validationError.message : String(validationError)}. Provide a numeric Shopify customer ID, a gid://shopify/Customer/... GID or an email address.`,
+          requestId
+        );
+      }
+
+      logger.info('Resolving customer', {
+        requestId,
+        tool: 'resolve_customer',
+        identifierType: identifier.type,
+      });
+
+      try {
+        if (identifier.type !== 'EMAIL') {
+          return mapResolvedCustomer({ id: identifier.customerId }, identifier.type);
+        }
+
+        if (!customerLookup) {
+          throw new AppstleError(
+            503,
+            'Email Lookup Unavailable',
+            'Customer lookup by email is not configured. Ask for the Shopify customer ID or hand off to a human agent.',
+            requestId
+          );
+        }
+
+        const customer = await customerLookup.findCustomerByEmail(identifier.email, requestId);
+        if (!customer) {
+          throw new AppstleError(
+            404,
+            'Customer Not Found',
+            'No customer account uses that email address. Ask the customer to check the email they signed up with.',
+            requestId
+          );
+        }
+
+        const result = mapResolvedCustomer(customer, 'EMAIL');
+
+        logger.info('Successfully resolved customer', {
+          requestId,
+          tool: 'resolve_customer',
+          customerId: result.shopify_customer_id,
+          resolvedFrom: result.resolved_from,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('API error resolving customer', {
+            requestId,
+            tool: 'resolve_customer',
+            identifierType: identifier.type,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error resolving customer', {
+          requestId,
+          tool: 'resolve_customer',
+          identifierType: identifier.type,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Find the subscription and billing attempt behind an order name the customer quotes, e.g. "#TGA1234"
+  const findOrderByNameTool = createTool(
+    FindOrderByNameInputSchema,
+    FindOrderByNameOutputSchema,
+    async (input, requestId) => {
+      const customerId = typeof input.shopify_customer_id === 'string'
+        ? parseGidTail(input.shopify_customer_id)
+        : input.shopify_customer_id;
+
+      logger.info('Finding order by name', {
+        requestId,
+        tool: 'find_order_by_name',
+        customerId,
+        orderName: input.order_name,
+        contractId: input.subscription_contract_id,
+      });
+
+      try {
+        validateNumericCustomerId(customerId);
+
+        // Every contract is searched, whatever its status - the order may belong to a cancelled subscription
+        const { subscriptionContracts } = await getAllSubscriptionContracts(customerId, requestId);
+        const contracts = subscriptionContracts.edges.map(edge => edge.node);
+
+        const candidates = input.subscription_contract_id
+          ? contracts.filter(contract => parseGidTail(contract.id) === input.subscription_contract_id)
+          : contracts;
+
+        if (input.subscription_contract_id && candidates.length === 0) {
+          throw new AppstleError(
+            404,
+            'Subscription Not Found',
+            subscriptionContracts.pageInfo.hasNextPage
+              ? `Subscription ${input.subscription_contract_id} was not among the subscriptions that could be read for this customer, who has more than can be searched. Pass this to our team to look up the order.`
+              : `Subscription ${input.subscription_contract_id} does not belong to this customer.`,
+            requestId
+          );
+        }
+
+        for (const contract of candidates) {
+          const pastOrders = await appstleClient.getPastOrders(
+            parseGidTail(contract.id),
+            0,
+            ORDER_NAME_SCAN_SIZE,
+            ['id,desc'],
+            requestId
+          );
+
+          const order = findOrderByName(toPastOrders(pastOrders).past, input.order_name);
+          if (order) {
+            const result = mapOrderLookup(contract, order);
+
+            logger.info('Successfully found order by name', {
+              requestId,
+              tool: 'find_order_by_name',
+              customerId,
+              contractId: result.subscription_contract_id,
+              orderId: result.order.order_id,
+              status: result.order.status,
+            });
+
+            return result;
+          }
+        }
+
+        throw new AppstleError(
+          404,
+          'Order Not Found',
+          subscriptionContracts.pageInfo.hasNextPage && !input.subscription_contract_id
+            ? `No subscription order named ${input.order_name} was found, but this customer has more subscriptions than could be searched. Pass this to our team to look up the order.`
+            : `No subscription order named ${input.order_name} was found for this customer. Ask the customer to check the order number on their confirmation email. The first order placed at checkout is not a subscription renewal and cannot be found this way.`,
+          requestId
+        );
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error finding order by name', {
+            requestId,
+            tool: 'find_order_by_name',
+            customerId,
+            orderName: input.order_name,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error finding order by name', {
+          requestId,
+          tool: 'find_order_by_name',
+          customerId,
+          orderName: input.order_name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Vacation mode: skip every upcoming order billed in a date range, reporting each order's outcome.
+  // With shopify_customer_id the range is skipped on every ACTIVE subscription.
+  const skipOrdersInRange = createTool(
+    SkipOrdersInRangeInputSchema,
+    SkipOrdersInRangeOutputSchema.or(MultiContractSkipOutputSchema),
+    async (input, requestId) => {
+      const confirmed = input.confirm_skip === true;
+      // Customer GIDs are accepted too; Appstle only takes the numeric ID
+      const customerId = typeof input.shopify_customer_id === 'string'
+        ? parseGidTail(input.shopify_customer_id)
+        : input.shopify_customer_id;
+
+      logger.info('Skipping orders in range', {
+        requestId,
+        tool: 'skip_orders_in_range',
+        contractId: input.subscription_contract_id,
+        customerId,
+        startDate: input.start_date,
+        endDate: input.end_date,
+        confirmed,
+      });
+
+      try {
+        if (input.subscription_contract_id === undefined) {
+          const result = await skipAcrossSubscriptions(
+            input.shopify_customer_id,
+            confirmed,
+            'skip_orders_in_range',
+            requestId,
+            id => skipRangeForContract(id, input.start_date, input.end_date, confirmed, requestId)
+          );
+
+          logger.info('Finished skipping orders in range for all subscriptions', {
+            requestId,
+            tool: 'skip_orders_in_range',
+            customerId: result.shopify_customer_id,
+            subscriptionCount: result.subscriptions.length,
+            skippedCount: result.skipped_count,
+            failedCount: result.failed_count,
+            confirmed,
+          });
+
+          return result;
+        }
+
+        const contractId = input.subscription_contract_id;
+        const results = await skipRangeForContract(contractId, input.start_date, input.end_date, confirmed, requestId);
+        const result = mapRangeSkipResults(contractId, input.start_date, input.end_date, results, confirmed);
+
+        logger.info('Finished skipping orders in range', {
+          requestId,
+          tool: 'skip_orders_in_range',
+          contractId,
+          ordersInRange: results.length,
+          skippedCount: result.skipped_count,
+          failedCount: result.failed_count,
+          confirmed,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error skipping orders in range', {
+            requestId,
+            tool: 'skip_orders_in_range',
+            contractId: input.subscription_contract_id,
+            customerId,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error skipping orders in range', {
+          requestId,
+          tool: 'skip_orders_in_range',
+          contractId: input.subscription_contract_id,
+          customerId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Subscriptions and their next orders in one call, instead of list_subscriptions_for_customer
+  // followed by list_upcoming_orders for each subscription
+  const getCustomerOverview = createTool(
+    GetCustomerOverviewInputSchema,
+    GetCustomerOverviewOutputSchema,
+    async (input, requestId) => {
+      // Customer GIDs are accepted too; Appstle only takes the numeric ID
+      const customerId = typeof input.shopify_customer_id === 'string'
+        ? parseGidTail(input.shopify_customer_id)
+        : input.shopify_customer_id;
+
+      logger.info('Getting customer overview', {
+        requestId,
+        tool: 'get_customer_overview',
+        customerId,
+      });
+
+      try {
+        validateNumericCustomerId(customerId);
+
+        const contracts = await getAllSubscriptionContracts(customerId, requestId);
+        const { subscriptions } = toSubscriptionsSummary(contracts, { includePaused: true });
+
+        // Top orders are fetched for ACTIVE subscriptions in parallel; one failing does not hide the others
+        const outcomes = await mapWithConcurrency(subscriptions, config.multiContractConcurrency, async subscription => {
+          if (subscription.status !== 'ACTIVE') {
+            return { subscription, upcoming: [] };
+          }
+
+          try {
+            const topOrders = await appstleClient.getTopOrders(subscription.subscription_contract_id, requestId);
+            return { subscription, upcoming: toUpcomingOrders(topOrders).upcoming };
+          } catch (error) {
+            logger.warn('Could not load upcoming orders for customer overview', {
+              requestId,
+              tool: 'get_customer_overview',
+              customerId,
+              contractId: subscription.subscription_contract_id,
+              error: error instanceof Error ? error.message : String(error),
+            });
+            return { subscription, upcoming: [], error: describeBatchError(error) };
+          }
+        });
+
+        const result = toCustomerOverview(
+          customerId,
+          outcomes,
+          OVERVIEW_ORDERS_PER_SUBSCRIPTION,
+          contracts.subscriptionContracts.pageInfo.hasNextPage
+        );
+
+        logger.info('Successfully got customer overview', {
+          requestId,
+          tool: 'get_customer_overview',
+          customerId,
+          subscriptionCount: result.subscriptions.length,
+          orderCount: result.selection_map.length,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error getting customer overview', {
+            requestId,
+            tool: 'get_customer_overview',
+            customerId,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error getting customer overview', {
+          requestId,
+          tool: 'get_customer_overview',
+          customerId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
+  // Past and upcoming orders of a contract as one chronological list around today
+  const getSubscriptionTimeline = createTool(
+    GetSubscriptionTimelineInputSchema,
+    GetSubscriptionTimelineOutputSchema,
+    async (input, requestId) => {
+      const daysBefore = input.days_before ?? 90;
+      const daysAfter = input.days_after ?? 90;
+
+      logger.info('Getting subscription timeline', {
+        requestId,
+        tool: 'get_subscription_timeline',
+        contractId: input.subscription_contract_id,
+        daysBefore,
+        daysAfter,
+      });
+
+      try {
+        const [pastOrders, topOrders] = await Promise.all([
+          appstleClient.getPastOrders(input.subscription_contract_id, 0, TIMELINE_PAST_SCAN_SIZE, ['id,desc'], requestId),
+          appstleClient.getTopOrders(input.subscription_contract_id, requestId),
+        ]);
+
+        const result = toSubscriptionTimeline(
+          input.subscription_contract_id,
+          toPastOrders(pastOrders).past,
+          toUpcomingOrders(topOrders).upcoming,
+          { daysBefore, daysAfter }
+        );
+
+        logger.info('Successfully got subscription timeline', {
+          requestId,
+          tool: 'get_subscription_timeline',
+          contractId: input.subscription_contract_id,
+          entryCount: result.timeline.length,
+        });
+
+        return result;
+      } catch (error) {
+        if (error instanceof AppstleError) {
+          logger.error('Appstle API error getting subscription timeline', {
+            requestId,
+            tool: 'get_subscription_timeline',
+            contractId: input.subscription_contract_id,
+            statusCode: error.statusCode,
+            title: error.title,
+          });
+          throw error;
+        }
+
+        logger.error('Unexpected error getting subscription timeline', {
+          requestId,
+          tool: 'get_subscription_timeline',
+          contractId: input.subscription_contract_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        throw new AppstleError(
+          500,
+          'Internal Error',
+          error instanceof Error ? error.message : 'Unknown error occurred',
+          requestId
+        );
+      }
+    }
+  );
+
   return {
+    resolve_customer: resolveCustomer,
+    find_order_by_name: findOrderByNameTool,
     list_subscriptions_for_customer: listSubscriptionsForCustomer,
+    get_customer_overview: getCustomerOverview,
     list_upcoming_orders: listUpcomingOrders,
     list_past_orders: listPastOrders,
+    get_subscription_timeline: getSubscriptionTimeline,
     skip_order: skipOrder,
+    skip_next_order: skipNextOrder,
+    skip_orders_in_range: skipOrdersInRange,
+    unskip_order: unskipOrder,
+    reschedule_order: rescheduleOrder,
+    change_delivery_frequency: changeDeliveryFrequency,
+    pause_subscription: pauseSubscription,
+    resume_subscription: resumeSubscription,
+    cancel_subscription: cancelSubscription,
+    update_line_quantity: updateLineQuantity,
+    swap_line_variant: swapLineVariant,
+    remove_line_item: removeLineItem,
+    add_one_time_item: addOneTimeItem,
+    update_subscription_preferences: updateSubscriptionPreferences,
+    get_shipping_address: getShippingAddress,
+    update_shipping_address: updateShippingAddress,
+    apply_discount_code: applyDiscountCode,
+    remove_discount: removeDiscount,
+    get_subscription_details: getSubscriptionDetails,
+    list_failed_payments: listFailedPayments,
+    retry_billing_attempt: retryBillingAttempt,
+    send_payment_update_email: sendPaymentUpdateEmail,
   };
 }
\ No newline at end of file
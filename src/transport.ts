@@ -1,359 +1,419 @@
 import { logger } from './logger.js';
-import { AppstleError } from './appstle.js';
-
-// MCP JSON-RPC message types
-interface JsonRpcRequest {
-  jsonrpc: '2.0';
-  id?: string | number;
-  method: string;
-  params?: unknown;
-}
-
-interface JsonRpcResponse {
-  jsonrpc: '2.0';
-  id?: string | number | null;
-  result?: unknown;
-  error?: {
-    code: number;
-    message: string;
-    data?: unknown;
-  };
-}
-
-interface JsonRpcError {
-  jsonrpc: '2.0';
-  id?: string | number | null;
-  error: {
-    code: number;
-    message: string;
-    data?: unknown;
-  };
-}
-
-// HTTP transport for Vercel serverless functions
+import { McpDispatcher } from './dispatcher.js';
+import type {
+  DispatchContext,
+  JsonRpcError,
+  JsonRpcNotification,
+  JsonRpcResponse,
+  McpServerDefinition,
+} from './dispatcher.js';
+import { isSupportedProtocolVersion } from './protocol.js';
+import type { ProtocolState } from './protocol.js';
+import type { McpSession, SessionManager } from './session.js';
+
+type JsonRpcReply = JsonRpcResponse | JsonRpcError;
+
+const SESSION_HEADER = 'Mcp-Session-Id';
+const PROTOCOL_VERSION_HEADER = 'MCP-Protocol-Version';
+
+// Comment lines sent on idle GET streams so proxies do not close them
+const SSE_KEEPALIVE_MS = 15000;
+
+// Streamable HTTP transport for Vercel serverless functions.
+// With a SessionManager it issues Mcp-Session-Id on initialize and serves GET event streams;
+// without one it runs stateless, answering POSTs only.
 export class VercelMcpTransport {
-  private tools: any;
-  private simpleServer: any;
-  private sessionId?: string;
+  private dispatcher: McpDispatcher;
+  private sessions?: SessionManager;
 
-  constructor(simpleServer: any) {
-    this.tools = simpleServer.tools;
-    this.simpleServer = simpleServer; // Store reference to get dynamic tool definitions
+  constructor(simpleServer: McpServerDefinition, sessions?: SessionManager) {
+    this.dispatcher = new McpDispatcher(simpleServer);
+    this.sessions = sessions;
   }
 
-  // Handle HTTP POST request from MCP client
+  // Handle an HTTP request from an MCP client
   async handleRequest(req: Request): Promise<Response> {
     const requestId = logger.generateRequestId();
     const startTime = Date.now();
 
     try {
-      // Validate request method
-      if (req.method !== 'POST') {
-        logger.warn('Invalid HTTP method', { requestId, method: req.method });
-        return this.createErrorResponse(405, 'Method Not Allowed', requestId);
+      // Clients repeat the negotiated version on every request after initialize
+      const protocolVersion = req.headers.get(PROTOCOL_VERSION_HEADER);
+      if (protocolVersion && !isSupportedProtocolVersion(protocolVersion)) {
+        logger.warn('Unsupported protocol version header', { requestId, protocolVersion });
+        return this.createJsonRpcErrorResponse(-32000, `Bad Request: Unsupported protocol version ${protocolVersion}`, requestId, 400);
       }
 
-      // Validate Content-Type
-      const contentType = req.headers.get('content-type');
-      if (!contentType?.includes('application/json')) {
-        logger.warn('Invalid content type', { requestId, contentType });
-        return this.createErrorResponse(400, 'Content-Type must be application/json', requestId);
-      }
+      switch (req.method) {
+        case 'POST':
+          return await this.handlePost(req, requestId);
 
-      // Parse JSON body
-      let body: unknown;
-      try {
-        const text = await req.text();
-        body = text ? JSON.parse(text) : {};
-      } catch (parseError) {
-        logger.error('Failed to parse JSON body', { 
-          requestId, 
-          error: parseError instanceof Error ? parseError.message : String(parseError)
-        });
-        return this.createJsonRpcErrorResponse(-32700, 'Parse error', requestId);
-      }
+        case 'GET':
+          return this.handleGet(req, requestId);
 
-      // Handle single request or batch
-      if (Array.isArray(body)) {
-        // Batch request
-        logger.debug('Processing batch request', { requestId, batchSize: body.length });
-        const responses = await Promise.all(
-          body.map((req, index) => this.processJsonRpcRequest(req, `${requestId}_${index}`))
-        );
-        const validResponses = responses.filter(r => r !== null);
-        
-        if (validResponses.length === 0) {
-          // All were notifications, return no content
-          return new Response(null, { status: 204 });
-        }
-        
-        return this.createJsonResponse(validResponses, requestId);
-      } else {
-        // Single request
-        logger.debug('Processing single request', { requestId });
-        const response = await this.processJsonRpcRequest(body, requestId);
-        
-        if (response === null) {
-          // It was a notification, return no content
-          return new Response(null, { status: 204 });
-        }
-        
-        return this.createJsonResponse(response, requestId);
+        case 'DELETE':
+          return this.handleDelete(req, requestId);
+
+        default:
+          logger.warn('Invalid HTTP method', { requestId, method: req.method });
+          return this.createErrorResponse(405, 'Method Not Allowed', requestId, { Allow: this.allowedMethods() });
       }
 
     } catch (error) {
       const duration = Date.now() - startTime;
-      logger.error('Transport error', { 
-        requestId, 
+      logger.error('Transport error', {
+        requestId,
         duration,
         error: error instanceof Error ? error.message : String(error)
       });
-      
+
       return this.createJsonRpcErrorResponse(-32603, 'Internal error', requestId);
     }
   }
 
-  // Process a single JSON-RPC request
-  private async processJsonRpcRequest(
-    request: unknown, 
-    requestId: string
-  ): Promise<JsonRpcResponse | JsonRpcError | null> {
-    try {
-      // Validate JSON-RPC structure
-      if (!this.isValidJsonRpcRequest(request)) {
-        return {
-          jsonrpc: '2.0',
-          id: null,
-          error: {
-            code: -32600,
-            message: 'Invalid Request',
-            data: 'Request must be a valid JSON-RPC 2.0 object'
-          }
-        };
-      }
+  // POST carries client messages; replies come back as JSON or, when streaming is useful, as SSE
+  private async handlePost(req: Request, requestId: string): Promise<Response> {
+    // Validate Content-Type
+    const contentType = req.headers.get('content-type');
+    if (!contentType?.includes('application/json')) {
+      logger.warn('Invalid content type', { requestId, contentType });
+      return this.createErrorResponse(400, 'Content-Type must be application/json', requestId);
+    }
 
-      const req = request as JsonRpcRequest;
-      
-      logger.debug('Processing JSON-RPC request', { 
-        requestId, 
-        method: req.method,
-        id: req.id,
-        hasParams: !!req.params
+    // Parse JSON body
+    let body: unknown;
+    try {
+      const text = await req.text();
+      body = text ? JSON.parse(text) : {};
+    } catch (parseError) {
+      logger.error('Failed to parse JSON body', {
+        requestId,
+        error: parseError instanceof Error ? parseError.message : String(parseError)
       });
+      return this.createJsonRpcErrorResponse(-32700, 'Parse error', requestId);
+    }
 
-      // Handle MCP-specific methods
-      switch (req.method) {
-        case 'initialize':
-          return await this.handleInitialize(req, requestId);
-        
-        case 'tools/list':
-          return await this.handleToolsList(req, requestId);
-        
-        case 'tools/call':
-          return await this.handleToolsCall(req, requestId);
-        
-        case 'notifications/initialized':
-          // Notification - no response needed
-          logger.debug('Received initialized notification', { requestId });
-          return null;
-
-        default:
-          return {
-            jsonrpc: '2.0',
-            id: req.id,
-            error: {
-              code: -32601,
-              message: 'Method not found',
-              data: `Method '${req.method}' is not supported`
-            }
-          };
-      }
+    const messages = Array.isArray(body) ? body : [body];
+    const isInitialize = messages.some(message => getMethod(message) === 'initialize');
 
-    } catch (error) {
-      logger.error('Error processing JSON-RPC request', { 
-        requestId, 
-        error: error instanceof Error ? error.message : String(error)
-      });
-      
-      return {
-        jsonrpc: '2.0',
-        id: (request as any)?.id || null,
-        error: {
-          code: -32603,
-          message: 'Internal error',
-          data: error instanceof Error ? error.message : String(error)
+    let session: McpSession | undefined;
+    if (this.sessions) {
+      if (isInitialize) {
+        if (messages.length > 1) {
+          return this.createJsonRpcErrorResponse(-32600, 'Invalid Request: initialize must not be part of a batch', requestId, 400);
+        }
+        session = this.sessions.create();
+      } else {
+        const checked = this.requireSession(req, requestId);
+        if (checked instanceof Response) {
+          return checked;
         }
-      };
+        session = checked;
+      }
     }
-  }
 
-  // Validate JSON-RPC request structure
-  private isValidJsonRpcRequest(obj: unknown): obj is JsonRpcRequest {
-    return (
-      typeof obj === 'object' &&
-      obj !== null &&
-      'jsonrpc' in obj &&
-      (obj as any).jsonrpc === '2.0' &&
-      'method' in obj &&
-      typeof (obj as any).method === 'string'
-    );
-  }
+    const headers: Record<string, string> = session && isInitialize ? { [SESSION_HEADER]: session.id } : {};
 
-  // Handle initialize method
-  private async handleInitialize(req: JsonRpcRequest, requestId: string): Promise<JsonRpcResponse> {
-    const capabilities = {
-      tools: {},
-      resources: {},
-      prompts: {},
-      experimental: {},
-      logging: {}
-    };
+    // Stateless requests only know the version from the header; the dispatcher falls back to the spec default
+    const protocol: ProtocolState = session?.protocol
+      ?? { protocolVersion: req.headers.get(PROTOCOL_VERSION_HEADER) ?? undefined };
 
-    logger.info('MCP client initialized', { requestId });
+    // Notifications (and anything else that needs no reply) are accepted without a body
+    if (!messages.some(message => expectsReply(message))) {
+      await this.dispatch(body, requestId, { sessionId: session?.id, protocol, stateless: !session });
+      this.discardFailedInitialize(isInitialize, session, null);
+      return new Response(null, { status: 202, headers: { ...headers, 'X-Request-ID': requestId } });
+    }
 
-    return {
-      jsonrpc: '2.0',
-      id: req.id,
-      result: {
-        capabilities,
-        serverInfo: {
-          name: 'appstle-mcp-server',
-          version: '1.0.0',
-          title: 'Appstle Subscription Management'
+    if (this.wantsEventStream(req, messages, protocol)) {
+      logger.debug('Replying with event stream', { requestId });
+      return this.createEventStreamResponse(requestId, headers, async send => {
+        const reply = await this.dispatch(body, requestId, { sessionId: session?.id, protocol, stateless: !session, notify: send });
+        this.discardFailedInitialize(isInitialize, session, reply);
+        if (reply !== null) {
+          send(reply);
         }
-      }
-    };
-  }
+      });
+    }
 
-  // Handle tools/list method
-  private async handleToolsList(req: JsonRpcRequest, requestId: string): Promise<JsonRpcResponse> {
-    // Use the dynamic tool definitions from simpleServer instead of hardcoded ones
-    const toolDefinitions = this.simpleServer.listTools();
+    // Without a stream on this request, notifications go to the session's GET stream if one is open
+    const sessionId = session?.id;
+    const notify = sessionId && this.sessions
+      ? (notification: JsonRpcNotification): void => { this.sessions?.notify(sessionId, notification); }
+      : undefined;
 
-    logger.info('Listed available tools', { requestId, toolCount: toolDefinitions.length });
+    const reply = await this.dispatch(body, requestId, { sessionId, protocol, stateless: !session, notify });
+    this.discardFailedInitialize(isInitialize, session, reply);
 
-    return {
-      jsonrpc: '2.0',
-      id: req.id,
-      result: { tools: toolDefinitions }
-    };
+    if (reply === null) {
+      return new Response(null, { status: 202, headers: { ...headers, 'X-Request-ID': requestId } });
+    }
+
+    return this.createJsonResponse(reply, requestId, headers);
   }
 
-  // Handle tools/call method
-  private async handleToolsCall(req: JsonRpcRequest, requestId: string): Promise<JsonRpcResponse> {
-    const params = req.params as { name: string; arguments?: Record<string, unknown> };
-    
-    if (!params?.name) {
-      return {
-        jsonrpc: '2.0',
-        id: req.id,
-        error: {
-          code: -32602,
-          message: 'Invalid params',
-          data: 'Tool name is required'
-        }
-      };
+  // GET opens a stream for server-initiated notifications within a session
+  private handleGet(req: Request, requestId: string): Response {
+    const sessions = this.sessions;
+    if (!sessions) {
+      return this.createErrorResponse(405, 'Method Not Allowed', requestId, { Allow: this.allowedMethods() });
     }
 
-    logger.info('Calling tool', { 
-      requestId, 
-      toolName: params.name,
-      hasArguments: !!params.arguments
-    });
+    if (!req.headers.get('accept')?.includes('text/event-stream')) {
+      return this.createErrorResponse(406, 'Accept must include text/event-stream', requestId);
+    }
 
-    try {
-      // Get the tool implementation
-      const toolFunction = this.tools[params.name];
-      
-      if (!toolFunction) {
-        return {
-          jsonrpc: '2.0',
-          id: req.id,
-          error: {
-            code: -32601,
-            message: 'Method not found',
-            data: `Tool '${params.name}' not found`
+    const checked = this.requireSession(req, requestId);
+    if (checked instanceof Response) {
+      return checked;
+    }
+
+    const encoder = new TextEncoder();
+    let cleanup = (): void => undefined;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start: (controller): void => {
+        const unsubscribe = sessions.subscribe(checked.id, message => {
+          if (message === null) {
+            // Session ended
+            cleanup();
+            controller.close();
+            return;
           }
+          controller.enqueue(encoder.encode(formatSseEvent(message)));
+        });
+        const keepalive = setInterval(() => controller.enqueue(encoder.encode(': keepalive\n\n')), SSE_KEEPALIVE_MS);
+
+        cleanup = (): void => {
+          clearInterval(keepalive);
+          unsubscribe();
         };
+
+        controller.enqueue(encoder.encode(': connected\n\n'));
+      },
+      cancel: (): void => {
+        logger.debug('Event stream closed by client', { requestId });
+        cleanup();
+      },
+    });
+
+    logger.info('Opened session event stream', { requestId });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'X-Request-ID': requestId
       }
+    });
+  }
 
-      // Call the tool
-      const result = await toolFunction(params.arguments || {}, requestId);
+  // DELETE ends a session
+  private handleDelete(req: Request, requestId: string): Response {
+    if (!this.sessions) {
+      return this.createErrorResponse(405, 'Method Not Allowed', requestId, { Allow: this.allowedMethods() });
+    }
 
-      logger.info('Tool call completed successfully', { 
-        requestId, 
-        toolName: params.name
-      });
+    const checked = this.requireSession(req, requestId);
+    if (checked instanceof Response) {
+      return checked;
+    }
 
-      return {
-        jsonrpc: '2.0',
-        id: req.id,
-        result: {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2)
-            }
-          ]
-        }
-      };
+    this.sessions.delete(checked.id);
+    return new Response(null, { status: 204, headers: { 'X-Request-ID': requestId } });
+  }
 
-    } catch (error) {
-      logger.error('Tool call failed', { 
-        requestId, 
-        toolName: params.name,
-        error: error instanceof Error ? error.message : String(error)
-      });
+  // Look up the session named by the Mcp-Session-Id header, or build the error response
+  private requireSession(req: Request, requestId: string): McpSession | Response {
+    const sessionId = req.headers.get(SESSION_HEADER);
+    if (!sessionId) {
+      logger.warn('Missing session header', { requestId, method: req.method });
+      return this.createJsonRpcErrorResponse(-32000, `Bad Request: ${SESSION_HEADER} header is required`, requestId, 400);
+    }
 
-      return {
-        jsonrpc: '2.0',
-        id: req.id,
-        error: {
-          code: -32603,
-          message: 'Internal error',
-          data: error instanceof Error ? error.message : String(error)
-        }
-      };
+    const session = this.sessions?.get(sessionId);
+    if (!session) {
+      logger.warn('Unknown or expired session', { requestId, method: req.method });
+      return this.createJsonRpcErrorResponse(-32001, 'Session not found', requestId, 404);
+    }
+
+    return session;
+  }
+
+  // Handle single request or batch; null when nothing needs a reply
+  private async dispatch(
+    body: unknown,
+    requestId: string,
+    context: DispatchContext
+  ): Promise<JsonRpcReply | JsonRpcReply[] | null> {
+    if (Array.isArray(body)) {
+      logger.debug('Processing batch request', { requestId, batchSize: body.length });
+      const responses = await Promise.all(
+        body.map((message, index) => this.dispatcher.processJsonRpcRequest(message, `${requestId}_${index}`, context))
+      );
+      const validResponses = responses.filter((response): response is JsonRpcReply => response !== null);
+      return validResponses.length > 0 ? validResponses : null;
+    }
+
+    logger.debug('Processing single request', { requestId });
+    return this.dispatcher.processJsonRpcRequest(body, requestId, context);
+  }
+
+  // Stream the reply when the client accepts SSE and cannot take plain JSON, asked for progress,
+  // or set a log level and is calling a tool (whose log messages are sent ahead of the result)
+  private wantsEventStream(req: Request, messages: unknown[], protocol: ProtocolState): boolean {
+    const accept = req.headers.get('accept') ?? '';
+    if (!accept.includes('text/event-stream')) {
+      return false;
+    }
+    if (!accept.includes('application/json') && !accept.includes('*/*')) {
+      return true;
+    }
+    return messages.some(message =>
+      getProgressToken(message) !== undefined
+      || (protocol.logLevel !== undefined && getMethod(message) === 'tools/call')
+    );
+  }
+
+  // An initialize that failed leaves no session behind
+  private discardFailedInitialize(
+    isInitialize: boolean,
+    session: McpSession | undefined,
+    reply: JsonRpcReply | JsonRpcReply[] | null
+  ): void {
+    if (isInitialize && session && (reply === null || Array.isArray(reply) || reply.error)) {
+      this.sessions?.delete(session.id);
     }
   }
 
+  private allowedMethods(): string {
+    return this.sessions ? 'GET, POST, DELETE' : 'POST';
+  }
+
   // Helper methods for creating responses
-  private createJsonResponse(data: unknown, requestId: string): Response {
+  private createJsonResponse(data: unknown, requestId: string, headers: Record<string, string> = {}): Response {
     const response = JSON.stringify(data);
     logger.debug('Sending JSON response', { requestId, responseLength: response.length });
-    
+
     return new Response(response, {
       status: 200,
       headers: {
+        ...headers,
         'Content-Type': 'application/json',
         'X-Request-ID': requestId
       }
     });
   }
 
-  private createErrorResponse(status: number, message: string, requestId: string): Response {
+  // SSE reply to a POST: notifications are written as they happen, then the reply, then the stream closes
+  private createEventStreamResponse(
+    requestId: string,
+    headers: Record<string, string>,
+    run: (send: (message: unknown) => void) => Promise<void>
+  ): Response {
+    const encoder = new TextEncoder();
+    let closed = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start: (controller): void => {
+        const send = (message: unknown): void => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(formatSseEvent(message)));
+          }
+        };
+
+        run(send)
+          .catch(error => {
+            logger.error('Event stream reply failed', {
+              requestId,
+              error: error instanceof Error ? error.message : String(error)
+            });
+            send({ jsonrpc: '2.0', id: null, error: { code: -32603, message: 'Internal error' } });
+          })
+          .finally(() => {
+            if (!closed) {
+              closed = true;
+              controller.close();
+            }
+          });
+      },
+      cancel: (): void => {
+        // The client went away; the dispatch still finishes but nothing more is written
+        closed = true;
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        ...headers,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'X-Request-ID': requestId
+      }
+    });
+  }
+
+  private createErrorResponse(
+    status: number,
+    message: string,
+    requestId: string,
+    headers: Record<string, string> = {}
+  ): Response {
     return new Response(JSON.stringify({ error: message }), {
       status,
       headers: {
+        ...headers,
         'Content-Type': 'application/json',
         'X-Request-ID': requestId
       }
     });
   }
 
-  private createJsonRpcErrorResponse(code: number, message: string, requestId: string): Response {
+  private createJsonRpcErrorResponse(code: number, message: string, requestId: string, status = 200): Response {
     const errorResponse: JsonRpcError = {
       jsonrpc: '2.0',
       id: null,
       error: { code, message }
     };
-    
+
     return new Response(JSON.stringify(errorResponse), {
-      status: 200, // JSON-RPC errors are still HTTP 200
+      status, // JSON-RPC errors are HTTP 200 unless the transport itself rejects the request
       headers: {
         'Content-Type': 'application/json',
         'X-Request-ID': requestId
       }
     });
   }
-}
\ No newline at end of file
+}
+
+function getMethod(message: unknown): string | undefined {
+  if (typeof message !== 'object' || message === null) {
+    return undefined;
+  }
+  const method = (message as Record<string, unknown>).method;
+  return typeof method === 'string' ? method : undefined;
+}
+
+// Everything except a well-formed notification gets a reply (results or errors)
+function expectsReply(message: unknown): boolean {
+  if (getMethod(message) === undefined) {
+    return true;
+  }
+  const id = (message as Record<string, unknown>).id;
+  return id !== undefined && id !== null;
+}
+
+function getProgressToken(message: unknown): string | number | undefined {
+  if (typeof message !== 'object' || message === null) {
+    return undefined;
+  }
+  const params = (message as { params?: { _meta?: { progressToken?: string | number } } }).params;
+  return params?._meta?.progressToken;
+}
+
+// One JSON-RPC message per SSE event
+function formatSseEvent(message: unknown): string {
+  return `event: message\ndata: ${JSON.stringify(message)}\n\n`;
+}